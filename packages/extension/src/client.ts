@@ -8,7 +8,11 @@ import {
   State,
 } from 'vscode-languageclient/node.js';
 import { LSP_SERVER_ID, EXTENSION_NAME, DEFAULT_CONFIG } from '@tsgo-turbo/shared';
-import type { TsgoTurboConfig, LogLevel } from '@tsgo-turbo/shared';
+import type {
+  TsgoTurboConfig,
+  TsgoTurboInitializationOptions,
+  LogLevel,
+} from '@tsgo-turbo/shared';
 import type { ClientLogger } from './logger.js';
 
 /** Minimum and maximum back-off delays (in milliseconds) for restart attempts. */
@@ -82,11 +86,13 @@ export class LspClient implements vscode.Disposable {
         { scheme: 'file', language: 'javascriptreact' },
       ],
       synchronize: {
-        fileEvents: vscode.workspace.createFileSystemWatcher(
-          '**/*.{ts,tsx,js,jsx,mts,cts}',
-        ),
+        fileEvents: [
+          vscode.workspace.createFileSystemWatcher('**/*.{ts,tsx,js,jsx,mts,cts}'),
+          // Cached results are only reused under the same tool config
+          vscode.workspace.createFileSystemWatcher('**/{tsconfig.json,.oxlintrc.json}'),
+        ],
       },
-      initializationOptions: initConfig,
+      initializationOptions: this.initializationOptions(initConfig),
       middleware: {
         handleDiagnostics: (uri, diagnostics, next) => {
           this.logger.trace('Diagnostics received', {
@@ -215,6 +221,21 @@ export class LspClient implements vscode.Disposable {
     );
   }
 
+  /**
+   * Build the initialize options: the config plus the workspace storage
+   * directory, where the server keeps its persistent cache. No storage
+   * directory exists when no folder is open.
+   */
+  private initializationOptions(
+    config: TsgoTurboConfig,
+  ): TsgoTurboInitializationOptions {
+    const options: TsgoTurboInitializationOptions = { ...config };
+    if (this.context.storageUri) {
+      options.storagePath = this.context.storageUri.fsPath;
+    }
+    return options;
+  }
+
   /**
    * Watch for state changes on the underlying client so we can trigger
    * automatic restart with exponential back-off on unexpected stops.
@@ -258,6 +279,7 @@ export class LspClient implements vscode.Disposable {
         const tsgoBinaryPath = ws.get<string>('tsgo.binaryPath', '').trim();
         const oxcBinaryPath = ws.get<string>('oxc.binaryPath', '').trim();
         const oxcConfigPath = ws.get<string>('oxc.configPath', '').trim();
+        const formatBinaryPath = ws.get<string>('format.binaryPath', '').trim();
 
         const config: TsgoTurboConfig = {
           tsgo: {
@@ -266,10 +288,21 @@ export class LspClient implements vscode.Disposable {
             fileTimeoutMs: ws.get<number>('tsgo.fileTimeoutMs', DEFAULT_CONFIG.tsgo.fileTimeoutMs),
             maxMemoryMb: ws.get<number>('tsgo.maxMemoryMb', DEFAULT_CONFIG.tsgo.maxMemoryMb),
             flags: DEFAULT_CONFIG.tsgo.flags,
+            poolSize: ws.get<number | 'auto'>('tsgo.poolSize', DEFAULT_CONFIG.tsgo.poolSize),
+            minProcesses: ws.get<number>('tsgo.minProcesses', DEFAULT_CONFIG.tsgo.minProcesses),
+            maxProcesses: ws.get<number>('tsgo.maxProcesses', DEFAULT_CONFIG.tsgo.maxProcesses),
+            idleTimeoutMs: ws.get<number>('tsgo.idleTimeoutMs', DEFAULT_CONFIG.tsgo.idleTimeoutMs),
           },
           oxc: {
             enabled: ws.get<boolean>('oxc.enabled', DEFAULT_CONFIG.oxc.enabled),
             fileTimeoutMs: ws.get<number>('oxc.fileTimeoutMs', DEFAULT_CONFIG.oxc.fileTimeoutMs),
+            maxConcurrency: ws.get<number>('oxc.maxConcurrency', DEFAULT_CONFIG.oxc.maxConcurrency),
+          },
+          format: {
+            enabled: ws.get<boolean>('format.enabled', DEFAULT_CONFIG.format.enabled),
+            provider: DEFAULT_CONFIG.format.provider,
+            fileTimeoutMs: ws.get<number>('format.fileTimeoutMs', DEFAULT_CONFIG.format.fileTimeoutMs),
+            formatOnType: ws.get<boolean>('format.formatOnType', DEFAULT_CONFIG.format.formatOnType),
           },
           logging: {
             level: ws.get<LogLevel>('logging.level', DEFAULT_CONFIG.logging.level),
@@ -282,6 +315,8 @@ export class LspClient implements vscode.Disposable {
             maxEntries: ws.get<number>('cache.maxEntries', DEFAULT_CONFIG.cache.maxEntries),
             maxSizeMb: ws.get<number>('cache.maxSizeMb', DEFAULT_CONFIG.cache.maxSizeMb),
             ttlSeconds: DEFAULT_CONFIG.cache.ttlSeconds,
+            persistent: ws.get<boolean>('cache.persistent', DEFAULT_CONFIG.cache.persistent),
+            diskMaxSizeMb: ws.get<number>('cache.diskMaxSizeMb', DEFAULT_CONFIG.cache.diskMaxSizeMb),
           },
           watch: {
             include: ws.get<string[]>('watch.include', DEFAULT_CONFIG.watch.include),
@@ -304,6 +339,9 @@ export class LspClient implements vscode.Disposable {
         if (oxcConfigPath.length > 0) {
           config.oxc.configPath = oxcConfigPath;
         }
+        if (formatBinaryPath.length > 0) {
+          config.format.binaryPath = formatBinaryPath;
+        }
         await this.start(config);
       } catch (err) {
         this.logger.error('Auto-restart failed', { error: String(err) });
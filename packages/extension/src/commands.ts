@@ -2,6 +2,8 @@ import * as vscode from 'vscode';
 import type {
   AnalyzeFileRequest,
   AnalyzeFileResponse,
+  AnalyzeWorkspaceRequest,
+  AnalyzeWorkspaceResponse,
   InspectorDataRequest,
   InspectorDataResponse,
   CacheStatsNotification,
@@ -81,71 +83,37 @@ export function registerCommands(
   );
 
   // --------------------------------------------------------------------------
-  // tsgoTurbo.analyzeWorkspace — full workspace analysis with progress
+  // tsgoTurbo.analyzeWorkspace — full workspace analysis, run by the server
+  // with work-done progress (cancellable from the progress notification)
   // --------------------------------------------------------------------------
   context.subscriptions.push(
     vscode.commands.registerCommand('tsgoTurbo.analyzeWorkspace', async () => {
       logger.info('Starting workspace analysis');
 
-      await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: 'tsgo Turbo: Analyzing workspace...',
-          cancellable: true,
-        },
-        async (progress, token) => {
-          try {
-            // Collect all matching files in the workspace
-            const include = config.getConfig().watch.include.join(',');
-            const files = await vscode.workspace.findFiles(
-              `{${include}}`,
-              '**/node_modules/**',
-            );
-
-            const total = files.length;
-            let completed = 0;
-
-            for (const file of files) {
-              if (token.isCancellationRequested) {
-                logger.info('Workspace analysis cancelled by user');
-                break;
-              }
-
-              try {
-                const params: AnalyzeFileRequest = {
-                  uri: file.toString(),
-                  force: false,
-                };
-                await client.sendCustomRequest<AnalyzeFileResponse>(
-                  CustomMethods.analyzeFile,
-                  params,
-                );
-              } catch (fileErr) {
-                logger.debug('File analysis failed', {
-                  uri: file.toString(),
-                  error: String(fileErr),
-                });
-              }
-
-              completed++;
-              const pct = Math.round((completed / total) * 100);
-              progress.report({
-                message: `${completed}/${total} files (${pct}%)`,
-                increment: (1 / total) * 100,
-              });
-            }
+      try {
+        const params: AnalyzeWorkspaceRequest = { force: false };
+        const summary = await client.sendCustomRequest<AnalyzeWorkspaceResponse>(
+          CustomMethods.analyzeWorkspace,
+          params,
+        );
+        logger.info('Workspace analysis finished', { ...summary });
 
-            void vscode.window.showInformationMessage(
-              `tsgo Turbo: Workspace analysis complete — ${completed}/${total} files analyzed`,
-            );
-          } catch (err) {
-            logger.error('Workspace analysis failed', { error: String(err) });
-            void vscode.window.showErrorMessage(
-              `tsgo Turbo: Workspace analysis failed — ${String(err)}`,
-            );
-          }
-        },
-      );
+        if (summary.cancelled) {
+          void vscode.window.showInformationMessage(
+            `tsgo Turbo: Workspace analysis cancelled — ${summary.analyzed}/${summary.total} files analyzed`,
+          );
+          return;
+        }
+        const failed = summary.failed > 0 ? `, ${summary.failed} skipped` : '';
+        void vscode.window.showInformationMessage(
+          `tsgo Turbo: Workspace analysis complete — ${summary.analyzed}/${summary.total} files analyzed, ${summary.filesWithDiagnostics} with problems${failed}`,
+        );
+      } catch (err) {
+        logger.error('Workspace analysis failed', { error: String(err) });
+        void vscode.window.showErrorMessage(
+          `tsgo Turbo: Workspace analysis failed — ${String(err)}`,
+        );
+      }
     }),
   );
 
@@ -44,6 +44,7 @@ export class ConfigManager implements vscode.Disposable {
     const tsgoBinaryPath = ws.get<string>('tsgo.binaryPath', '').trim();
     const oxcBinaryPath = ws.get<string>('oxc.binaryPath', '').trim();
     const oxcConfigPath = ws.get<string>('oxc.configPath', '').trim();
+    const formatBinaryPath = ws.get<string>('format.binaryPath', '').trim();
 
     const config: TsgoTurboConfig = {
       tsgo: {
@@ -52,10 +53,21 @@ export class ConfigManager implements vscode.Disposable {
         fileTimeoutMs: ws.get<number>('tsgo.fileTimeoutMs', DEFAULT_CONFIG.tsgo.fileTimeoutMs),
         maxMemoryMb: ws.get<number>('tsgo.maxMemoryMb', DEFAULT_CONFIG.tsgo.maxMemoryMb),
         flags: DEFAULT_CONFIG.tsgo.flags,
+        poolSize: ws.get<number | 'auto'>('tsgo.poolSize', DEFAULT_CONFIG.tsgo.poolSize),
+        minProcesses: ws.get<number>('tsgo.minProcesses', DEFAULT_CONFIG.tsgo.minProcesses),
+        maxProcesses: ws.get<number>('tsgo.maxProcesses', DEFAULT_CONFIG.tsgo.maxProcesses),
+        idleTimeoutMs: ws.get<number>('tsgo.idleTimeoutMs', DEFAULT_CONFIG.tsgo.idleTimeoutMs),
       },
       oxc: {
         enabled: ws.get<boolean>('oxc.enabled', DEFAULT_CONFIG.oxc.enabled),
         fileTimeoutMs: ws.get<number>('oxc.fileTimeoutMs', DEFAULT_CONFIG.oxc.fileTimeoutMs),
+        maxConcurrency: ws.get<number>('oxc.maxConcurrency', DEFAULT_CONFIG.oxc.maxConcurrency),
+      },
+      format: {
+        enabled: ws.get<boolean>('format.enabled', DEFAULT_CONFIG.format.enabled),
+        provider: DEFAULT_CONFIG.format.provider,
+        fileTimeoutMs: ws.get<number>('format.fileTimeoutMs', DEFAULT_CONFIG.format.fileTimeoutMs),
+        formatOnType: ws.get<boolean>('format.formatOnType', DEFAULT_CONFIG.format.formatOnType),
       },
       logging: {
         level: ws.get<LogLevel>('logging.level', DEFAULT_CONFIG.logging.level),
@@ -68,6 +80,8 @@ export class ConfigManager implements vscode.Disposable {
         maxEntries: ws.get<number>('cache.maxEntries', DEFAULT_CONFIG.cache.maxEntries),
         maxSizeMb: ws.get<number>('cache.maxSizeMb', DEFAULT_CONFIG.cache.maxSizeMb),
         ttlSeconds: DEFAULT_CONFIG.cache.ttlSeconds,
+        persistent: ws.get<boolean>('cache.persistent', DEFAULT_CONFIG.cache.persistent),
+        diskMaxSizeMb: ws.get<number>('cache.diskMaxSizeMb', DEFAULT_CONFIG.cache.diskMaxSizeMb),
       },
       watch: {
         include: ws.get<string[]>('watch.include', DEFAULT_CONFIG.watch.include),
@@ -85,9 +99,18 @@ export class ConfigManager implements vscode.Disposable {
     config.tsgo.maxTypeDepth = Math.max(1, Math.min(500, config.tsgo.maxTypeDepth));
     config.tsgo.fileTimeoutMs = Math.max(1000, Math.min(300_000, config.tsgo.fileTimeoutMs));
     config.tsgo.maxMemoryMb = Math.max(256, Math.min(16_384, config.tsgo.maxMemoryMb));
+    if (config.tsgo.poolSize !== 'auto') {
+      config.tsgo.poolSize = Math.max(1, Math.min(64, Math.round(config.tsgo.poolSize)));
+    }
+    config.tsgo.maxProcesses = Math.max(1, Math.min(64, Math.round(config.tsgo.maxProcesses)));
+    config.tsgo.minProcesses = Math.max(1, Math.min(config.tsgo.maxProcesses, Math.round(config.tsgo.minProcesses)));
+    config.tsgo.idleTimeoutMs = Math.max(0, config.tsgo.idleTimeoutMs);
     config.oxc.fileTimeoutMs = Math.max(1000, Math.min(300_000, config.oxc.fileTimeoutMs));
+    config.oxc.maxConcurrency = Math.max(1, Math.min(64, Math.round(config.oxc.maxConcurrency)));
+    config.format.fileTimeoutMs = Math.max(1000, Math.min(300_000, config.format.fileTimeoutMs));
     config.cache.maxEntries = Math.max(1, Math.min(100_000, config.cache.maxEntries));
     config.cache.maxSizeMb = Math.max(1, Math.min(4096, config.cache.maxSizeMb));
+    config.cache.diskMaxSizeMb = Math.max(1, Math.min(65536, config.cache.diskMaxSizeMb));
     config.watch.debounceMs = Math.max(0, Math.min(5000, config.watch.debounceMs));
 
     if (tsgoBinaryPath.length > 0) {
@@ -99,6 +122,9 @@ export class ConfigManager implements vscode.Disposable {
     if (oxcConfigPath.length > 0) {
       config.oxc.configPath = oxcConfigPath;
     }
+    if (formatBinaryPath.length > 0) {
+      config.format.binaryPath = formatBinaryPath;
+    }
 
     this.cachedConfig = config;
     return config;
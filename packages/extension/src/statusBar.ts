@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import type { ServerStatusNotification } from '@tsgo-turbo/shared';
+import type { ServerStatusNotification, SubsystemHealth } from '@tsgo-turbo/shared';
 
 /**
  * Icon codicons used in the status bar item to indicate server state.
@@ -24,6 +24,15 @@ const STATUS_LABELS: Record<ServerStatusNotification['status'], string> = {
   error:    'Error',
 };
 
+/**
+ * Labels for a subsystem's health in the tooltip.
+ */
+const SUBSYSTEM_LABELS: Record<SubsystemHealth['status'], string> = {
+  up:      '$(check) up',
+  down:    '$(error) down',
+  probing: '$(sync~spin) probing',
+};
+
 /**
  * StatusBarManager owns the VS Code status bar item displayed at the bottom
  * of the editor window. It reflects the current state of the tsgo Turbo LSP
@@ -33,7 +42,8 @@ const STATUS_LABELS: Record<ServerStatusNotification['status'], string> = {
  * - **Starting** — server is booting, spinner icon shown.
  * - **Ready** — server is idle and healthy, check icon shown.
  * - **Busy** — one or more analysis operations are in-flight, clock icon shown.
- * - **Degraded** — server is running but a subsystem (tsgo or oxc) has failed.
+ * - **Degraded** — server is running but a subsystem (tsgo or oxc) has failed;
+ *   the failed subsystems are named in the text and detailed in the tooltip.
  * - **Error** — server has crashed or cannot be reached.
  *
  * The tooltip displays extended information including the number of active
@@ -90,11 +100,16 @@ export class StatusBarManager implements vscode.Disposable {
 
   /** Re-render the status bar text and tooltip from current state. */
   private render(): void {
-    const { status, activeOperations, queuedOperations, message } = this.currentStatus;
+    const { status, activeOperations, queuedOperations, message, subsystems = [] } =
+      this.currentStatus;
     const icon = STATUS_ICONS[status];
     const label = STATUS_LABELS[status];
+    const unhealthy = subsystems.filter((s) => s.status !== 'up');
 
     let text = `${icon} tsgo Turbo: ${label}`;
+    if (unhealthy.length > 0) {
+      text += ` (${unhealthy.map((s) => s.tool).join(', ')})`;
+    }
     if (activeOperations > 0) {
       text += ` (${activeOperations})`;
     }
@@ -109,6 +124,17 @@ export class StatusBarManager implements vscode.Disposable {
       tooltipLines.push(``, message);
     }
 
+    if (unhealthy.length > 0) {
+      tooltipLines.push(``);
+      for (const subsystem of subsystems) {
+        let line = `- ${subsystem.tool}: ${SUBSYSTEM_LABELS[subsystem.status]}`;
+        if (subsystem.retryAt !== undefined) {
+          line += `, retrying at ${new Date(subsystem.retryAt).toLocaleTimeString()}`;
+        }
+        tooltipLines.push(line);
+      }
+    }
+
     tooltipLines.push(
       ``,
       `Active operations: ${activeOperations}`,
@@ -419,6 +419,10 @@ export class InspectorPanel implements vscode.Disposable {
     .status-dot.error    { background: var(--error); }
     .status-dot.degraded { background: var(--warning); }
 
+    .subsystem-list { display: flex; flex-wrap: wrap; gap: 16px; margin-top: 10px; }
+    .subsystem { font-size: 12px; color: var(--text-secondary); }
+    .tsgo-binary { font-size: 12px; color: var(--text-secondary); margin-top: 8px; word-break: break-all; }
+
     @keyframes pulse {
       0%, 100% { opacity: 1; }
       50% { opacity: 0.4; }
@@ -630,6 +634,8 @@ export class InspectorPanel implements vscode.Disposable {
           <div class="stat-item"><div class="value" id="stat-diagnostics">0</div><div class="label">Diagnostics</div></div>
           <div class="stat-item"><div class="value" id="stat-memory">--</div><div class="label">Memory (MB)</div></div>
         </div>
+        <div class="subsystem-list" id="subsystems"></div>
+        <div class="tsgo-binary" id="tsgo-binary"></div>
       </div>
     </div>
 
@@ -833,7 +839,9 @@ export class InspectorPanel implements vscode.Disposable {
     }
 
     function renderServerStatus(data) {
-      const status = data._serverStatus || 'ready';
+      const subsystems = data.subsystems || [];
+      const status = data._serverStatus
+        || (subsystems.some((s) => s.status !== 'up') ? 'degraded' : 'ready');
       $id('status-dot').className = 'status-dot ' + status;
       $id('status-label').textContent = status.charAt(0).toUpperCase() + status.slice(1);
       $id('stat-uptime').textContent = formatUptime(data.serverUptime || 0);
@@ -844,6 +852,47 @@ export class InspectorPanel implements vscode.Disposable {
 
       const totalMem = (data.activeProcesses || []).reduce((sum, p) => sum + (p.memoryMb || 0), 0);
       $id('stat-memory').textContent = totalMem > 0 ? totalMem.toFixed(0) : '--';
+      renderSubsystems(subsystems);
+      renderTsgoBinary(data.tsgoBinary);
+    }
+
+    // A tool that is down is skipped until its next probe
+    function renderSubsystems(subsystems) {
+      const dots = { up: 'ready', down: 'error', probing: 'busy' };
+      const labels = { up: 'Up', down: 'Down', probing: 'Probing' };
+      let html = '';
+      for (const s of subsystems) {
+        let detail = labels[s.status] || s.status;
+        if (s.status === 'down' && s.retryAt) {
+          detail += ', retry in ' + Math.max(0, Math.ceil((s.retryAt - Date.now()) / 1000)) + 's';
+        }
+        html += '<span class="subsystem" title="' + escHtml(s.reason || '') + '">'
+          + '<span class="status-dot ' + (dots[s.status] || 'error') + '"></span>'
+          + escHtml(s.tool + ': ' + detail)
+          + (s.reason && s.status !== 'up' ? ' — ' + escHtml(s.reason) : '')
+          + '</span>';
+      }
+      $id('subsystems').innerHTML = html;
+    }
+
+    function renderTsgoBinary(binary) {
+      if (!binary) {
+        $id('tsgo-binary').innerHTML = '';
+        return;
+      }
+      const sources = {
+        workspace: 'workspace node_modules/.bin',
+        nativePreview: '@typescript/native-preview',
+        config: 'tsgo.binaryPath',
+        path: 'PATH',
+      };
+      let html = 'tsgo ' + escHtml(binary.version || '(version unknown)')
+        + ' — ' + escHtml(binary.path)
+        + ' (from ' + escHtml(sources[binary.source] || binary.source) + ')';
+      if (binary.unsupportedFeatures && binary.unsupportedFeatures.length) {
+        html += '<br>Not supported by this tsgo: ' + escHtml(binary.unsupportedFeatures.join(', '));
+      }
+      $id('tsgo-binary').innerHTML = html;
     }
 
     // ---- Performance Traces (flamegraph) --------------------------------
@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, readdirSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { DEFAULT_CONFIG } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import { DiskCache } from './diskCache.js';
+import { FileCache } from './fileCache.js';
+
+const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+
+function withTempDir(run: (dir: string) => Promise<void>) {
+  return async () => {
+    const dir = mkdtempSync(path.join(tmpdir(), 'tsgo-turbo-disk-cache-'));
+    try {
+      await run(dir);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+describe('DiskCache', () => {
+  it(
+    'persists entries across instances and evicts the least recently used over the size limit',
+    withTempDir(async (dir) => {
+      const chunk = 'x'.repeat(400 * 1024);
+      const disk = new DiskCache(dir, 1, logger);
+
+      await disk.set('a', { chunk });
+      await disk.set('b', { chunk });
+      expect(await disk.get('a')).toEqual({ chunk });
+      await disk.set('c', { chunk });
+
+      const reloaded = new DiskCache(dir, 1, logger);
+      expect(await reloaded.get('b')).toBeUndefined();
+      expect(await reloaded.get('a')).toEqual({ chunk });
+      expect(await reloaded.get('c')).toEqual({ chunk });
+      expect(await reloaded.getSizeBytes()).toBeLessThanOrEqual(1024 * 1024);
+      expect(readdirSync(dir).every((name) => name.endsWith('.json'))).toBe(true);
+    }),
+  );
+
+  it(
+    'backs FileCache lookups within the same namespace',
+    withTempDir(async (dir) => {
+      const result = {
+        uri: 'file:///a.ts',
+        diagnostics: [],
+        analysisTimeMs: 5,
+        cached: false,
+        contentHash: 'h1',
+      };
+      const disk = new DiskCache(dir, 10, logger);
+      await disk.set(DiskCache.computeKey('ns1', 'file:///a.ts', 'h1'), result);
+
+      const cache = new FileCache<typeof result>(DEFAULT_CONFIG.cache);
+      cache.setPersistence(new DiskCache(dir, 10, logger), 'ns1');
+      expect(await cache.load('file:///a.ts', 'h2')).toBeUndefined();
+      expect(await cache.load('file:///a.ts', 'h1')).toEqual(result);
+      expect(cache.get('file:///a.ts', 'h1')).toEqual(result);
+
+      const otherConfig = new FileCache<typeof result>(DEFAULT_CONFIG.cache);
+      otherConfig.setPersistence(new DiskCache(dir, 10, logger), 'ns2');
+      expect(await otherConfig.load('file:///a.ts', 'h1')).toBeUndefined();
+    }),
+  );
+});
@@ -0,0 +1,265 @@
+import * as crypto from 'node:crypto';
+import * as path from 'node:path';
+import { mkdir, readFile, readdir, rename, rm, stat, unlink, utimes, writeFile } from 'node:fs/promises';
+import type { Logger } from '../logger/index.js';
+
+/** Suffix of entry files; anything else in the directory is ignored. */
+const ENTRY_SUFFIX = '.json';
+
+/**
+ * Age after which a temporary file is assumed to be left over from an
+ * interrupted write, rather than being written by another server instance.
+ */
+const STALE_TEMP_FILE_MS = 60_000;
+
+/** Size and recency of an entry file, mirrored from disk. */
+interface DiskEntry {
+  sizeBytes: number;
+  lastAccessedAt: number;
+}
+
+/**
+ * DiskCache is a persistent key/value store of JSON values, one file per
+ * entry, used as the on-disk backend of {@link FileCache} so analysis
+ * results survive server restarts.
+ *
+ * Entries are written atomically (to a temporary file, then renamed), so a
+ * crash never leaves a partial entry behind. The index of entries is read
+ * lazily on first use. Total size is capped at `maxSizeMb`: least recently
+ * used entries are deleted first, with recency kept in file modification
+ * times so it carries over between sessions.
+ *
+ * Failures are logged and treated as misses; the cache is an optimization
+ * and never fails an analysis.
+ *
+ * @example
+ * ```ts
+ * const disk = new DiskCache(path.join(storagePath, 'cache'), 1024, logger);
+ * const key = DiskCache.computeKey(namespace, uri, contentHash);
+ * await disk.set(key, result);
+ * const cached = await disk.get<FileAnalysisResult>(key);
+ * ```
+ */
+export class DiskCache {
+  readonly directory: string;
+  private readonly logger: Logger;
+  private maxSizeBytes: number;
+  private index: Promise<Map<string, DiskEntry>> | undefined;
+  private totalSizeBytes = 0;
+
+  /**
+   * @param directory - directory holding the entry files, created on demand
+   * @param maxSizeMb - maximum total size of the entries in MB
+   * @param logger - logger instance
+   */
+  constructor(directory: string, maxSizeMb: number, logger: Logger) {
+    this.directory = directory;
+    this.maxSizeBytes = maxSizeMb * 1024 * 1024;
+    this.logger = logger;
+  }
+
+  /**
+   * Derive an entry key from its identifying parts, e.g. a namespace, URI
+   * and content hash.
+   */
+  static computeKey(...parts: string[]): string {
+    return crypto.createHash('sha256').update(parts.join('\0')).digest('hex');
+  }
+
+  /**
+   * Change the size limit, evicting entries if the cache is now over it.
+   */
+  async setMaxSizeMb(maxSizeMb: number): Promise<void> {
+    this.maxSizeBytes = maxSizeMb * 1024 * 1024;
+    await this.evictIfNeeded(await this.loadIndex());
+  }
+
+  /**
+   * Read an entry.
+   *
+   * @param key - entry key from {@link computeKey}
+   * @returns the stored value, or undefined if missing or unreadable
+   */
+  async get<T>(key: string): Promise<T | undefined> {
+    const index = await this.loadIndex();
+    const entry = index.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const filePath = this.entryPath(key);
+    let data: T;
+    try {
+      data = JSON.parse(await readFile(filePath, 'utf-8')) as T;
+    } catch (err) {
+      this.logger.debug('Dropping unreadable disk cache entry', {
+        key,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      await this.deleteEntry(index, key);
+      return undefined;
+    }
+
+    const now = Date.now();
+    entry.lastAccessedAt = now;
+    // Keep the index in access order, which breaks timestamp ties on eviction
+    index.delete(key);
+    index.set(key, entry);
+    // Recency is read back from the mtime when the index is next loaded
+    utimes(filePath, now / 1000, now / 1000).catch(() => {});
+    return data;
+  }
+
+  /**
+   * Write an entry, replacing any previous value, and evict least recently
+   * used entries if over the size limit.
+   *
+   * @param key - entry key from {@link computeKey}
+   * @param data - JSON-serializable value
+   */
+  async set(key: string, data: unknown): Promise<void> {
+    const index = await this.loadIndex();
+    const json = JSON.stringify(data);
+    const filePath = this.entryPath(key);
+    const tempPath = `${filePath}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(tempPath, json, 'utf-8');
+      await rename(tempPath, filePath);
+    } catch (err) {
+      this.logger.warn('Failed to write disk cache entry', {
+        directory: this.directory,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      await unlink(tempPath).catch(() => {});
+      return;
+    }
+
+    const previous = index.get(key);
+    if (previous) {
+      this.totalSizeBytes -= previous.sizeBytes;
+      index.delete(key);
+    }
+    const sizeBytes = Buffer.byteLength(json, 'utf-8');
+    index.set(key, { sizeBytes, lastAccessedAt: Date.now() });
+    this.totalSizeBytes += sizeBytes;
+
+    await this.evictIfNeeded(index);
+  }
+
+  /**
+   * Delete an entry.
+   */
+  async delete(key: string): Promise<void> {
+    await this.deleteEntry(await this.loadIndex(), key);
+  }
+
+  /**
+   * Delete every entry.
+   */
+  async clear(): Promise<void> {
+    const index = await this.loadIndex();
+    index.clear();
+    this.totalSizeBytes = 0;
+    try {
+      await rm(this.directory, { recursive: true, force: true });
+    } catch (err) {
+      this.logger.warn('Failed to clear disk cache', {
+        directory: this.directory,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /** Total size of the entries in bytes. */
+  async getSizeBytes(): Promise<number> {
+    await this.loadIndex();
+    return this.totalSizeBytes;
+  }
+
+  /**
+   * Read the entry index from the directory, once.
+   */
+  private loadIndex(): Promise<Map<string, DiskEntry>> {
+    this.index ??= this.readIndex();
+    return this.index;
+  }
+
+  private async readIndex(): Promise<Map<string, DiskEntry>> {
+    const index = new Map<string, DiskEntry>();
+
+    let names: string[];
+    try {
+      names = await readdir(this.directory);
+    } catch {
+      // Nothing persisted yet
+      return index;
+    }
+
+    for (const name of names) {
+      const filePath = path.join(this.directory, name);
+      try {
+        const stats = await stat(filePath);
+        if (!name.endsWith(ENTRY_SUFFIX)) {
+          // Leftover temporary file from an interrupted write
+          if (name.endsWith('.tmp') && Date.now() - stats.mtimeMs > STALE_TEMP_FILE_MS) {
+            await unlink(filePath).catch(() => {});
+          }
+          continue;
+        }
+        index.set(name.slice(0, -ENTRY_SUFFIX.length), {
+          sizeBytes: stats.size,
+          lastAccessedAt: stats.mtimeMs,
+        });
+        this.totalSizeBytes += stats.size;
+      } catch {
+        // Deleted concurrently
+      }
+    }
+
+    this.logger.debug('Disk cache index loaded', {
+      directory: this.directory,
+      entries: index.size,
+      sizeBytes: this.totalSizeBytes,
+    });
+    return index;
+  }
+
+  private async evictIfNeeded(index: Map<string, DiskEntry>): Promise<void> {
+    if (this.totalSizeBytes <= this.maxSizeBytes) {
+      return;
+    }
+
+    const byRecency = [...index].sort(
+      ([, a], [, b]) => a.lastAccessedAt - b.lastAccessedAt,
+    );
+    let evicted = 0;
+    for (const [key] of byRecency) {
+      if (this.totalSizeBytes <= this.maxSizeBytes) {
+        break;
+      }
+      await this.deleteEntry(index, key);
+      evicted++;
+    }
+
+    this.logger.debug('Disk cache evicted entries', {
+      evicted,
+      sizeBytes: this.totalSizeBytes,
+    });
+  }
+
+  private async deleteEntry(index: Map<string, DiskEntry>, key: string): Promise<void> {
+    const entry = index.get(key);
+    if (!entry) {
+      return;
+    }
+    index.delete(key);
+    this.totalSizeBytes -= entry.sizeBytes;
+    await unlink(this.entryPath(key)).catch(() => {});
+  }
+
+  private entryPath(key: string): string {
+    return path.join(this.directory, key + ENTRY_SUFFIX);
+  }
+}
@@ -8,6 +8,8 @@ describe('FileCache', () => {
       maxEntries: 100,
       maxSizeMb: 10,
       ttlSeconds: 300,
+      persistent: false,
+      diskMaxSizeMb: 1024,
     });
 
     const data = {
@@ -30,6 +32,8 @@ describe('FileCache', () => {
       maxEntries: 100,
       maxSizeMb: 10,
       ttlSeconds: 300,
+      persistent: false,
+      diskMaxSizeMb: 1024,
     });
 
     const data = {
@@ -58,6 +62,8 @@ describe('FileCache', () => {
       maxEntries: 100,
       maxSizeMb: 10,
       ttlSeconds: 300,
+      persistent: false,
+      diskMaxSizeMb: 1024,
     });
 
     cache.set('file:///a.ts', 'h1', {
@@ -1,6 +1,7 @@
 import * as crypto from 'node:crypto';
 import type { CacheEntry, TsgoTurboConfig } from '@tsgo-turbo/shared';
 import type { CacheStatsNotification } from '@tsgo-turbo/shared';
+import { DiskCache } from './diskCache.js';
 
 /**
  * FileCache is a generic LRU cache with content-hash based invalidation.
@@ -10,6 +11,12 @@ import type { CacheStatsNotification } from '@tsgo-turbo/shared';
  * auto-evicts when maxEntries or maxSizeMb limits are exceeded using
  * least-recently-used ordering.
  *
+ * With a {@link DiskCache} attached via {@link setPersistence}, entries are
+ * also written through to disk and {@link load} falls back to disk on a
+ * memory miss, so results survive restarts. Disk entries are keyed by a
+ * namespace (identifying the tool versions and effective config), the URI
+ * and the content hash.
+ *
  * @typeParam T - the type of cached data
  *
  * @example
@@ -29,6 +36,8 @@ export class FileCache<T> {
   private hits = 0;
   private misses = 0;
   private evictions = 0;
+  private disk: DiskCache | undefined;
+  private diskNamespace = '';
 
   /**
    * @param config - cache configuration from TsgoTurboConfig
@@ -76,13 +85,60 @@ export class FileCache<T> {
   }
 
   /**
-   * Store a value in the cache.
+   * Retrieve a cached value from memory, or from disk when persistence is
+   * enabled. Disk hits are kept in memory for subsequent lookups.
+   *
+   * @param uri - the file URI (cache key)
+   * @param contentHash - current content hash to validate freshness
+   * @returns the cached data, or undefined on miss/stale
+   */
+  async load(uri: string, contentHash: string): Promise<T | undefined> {
+    const cached = this.get(uri, contentHash);
+    if (cached !== undefined || !this.disk) {
+      return cached;
+    }
+
+    const data = await this.disk.get<T>(this.diskKey(uri, contentHash));
+    if (data !== undefined) {
+      this.store(uri, contentHash, data);
+    }
+    return data;
+  }
+
+  /**
+   * Attach or detach the on-disk backend.
+   *
+   * @param disk - the disk store, or undefined to keep entries in memory only
+   * @param namespace - identifies the producer of the entries (tool versions,
+   *   effective config); entries written under another namespace are not
+   *   read, and those in memory are dropped when it changes
+   */
+  setPersistence(disk: DiskCache | undefined, namespace = ''): void {
+    if (namespace !== this.diskNamespace) {
+      this.entries.clear();
+      this.totalSizeBytes = 0;
+    }
+    this.disk = disk;
+    this.diskNamespace = namespace;
+  }
+
+  /**
+   * Store a value in the cache, writing it through to disk when persistence
+   * is enabled.
    *
    * @param uri - the file URI (cache key)
    * @param contentHash - content hash for invalidation
    * @param data - the data to cache
    */
   set(uri: string, contentHash: string, data: T): void {
+    this.store(uri, contentHash, data);
+    void this.disk?.set(this.diskKey(uri, contentHash), data);
+  }
+
+  /**
+   * Store a value in memory.
+   */
+  private store(uri: string, contentHash: string, data: T): void {
     // Remove existing entry for this key first
     if (this.entries.has(uri)) {
       this.deleteEntry(uri);
@@ -114,13 +170,18 @@ export class FileCache<T> {
    * @returns true if an entry was removed
    */
   invalidate(uri: string): boolean {
+    const entry = this.entries.get(uri);
+    if (entry && this.disk) {
+      void this.disk.delete(this.diskKey(uri, entry.contentHash));
+    }
     return this.deleteEntry(uri);
   }
 
   /**
-   * Clear all entries from the cache.
+   * Clear all entries from the cache, including those on disk.
    */
   clear(): void {
+    void this.disk?.clear();
     this.entries.clear();
     this.totalSizeBytes = 0;
     this.evictions = 0;
@@ -178,6 +239,10 @@ export class FileCache<T> {
     return crypto.createHash('md5').update(content).digest('hex');
   }
 
+  private diskKey(uri: string, contentHash: string): string {
+    return DiskCache.computeKey(this.diskNamespace, uri, contentHash);
+  }
+
   private deleteEntry(uri: string): boolean {
     const entry = this.entries.get(uri);
     if (!entry) {
@@ -0,0 +1,47 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { FakeTools } from '../testing/fakeTools.js';
+import { runCheck, EXIT_INCOMPLETE } from './check.js';
+
+let tools: FakeTools | undefined;
+let dir: string | undefined;
+
+afterEach(() => {
+  tools?.dispose();
+  tools = undefined;
+  if (dir) {
+    rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  }
+});
+
+describe('runCheck', { timeout: 20_000 }, () => {
+  it('fails with a distinct exit code when tsgo crashes', async () => {
+    tools = new FakeTools();
+    tools.setTsgo({ crashOnStart: true });
+    dir = mkdtempSync(path.join(tmpdir(), 'tsgo-turbo-check-'));
+    writeFileSync(path.join(dir, 'a.ts'), 'export const a = 1;\n');
+    writeFileSync(
+      path.join(dir, 'config.json'),
+      JSON.stringify({
+        tsgo: { binaryPath: tools.tsgoPath, poolSize: 1, fileTimeoutMs: 2_000 },
+        oxc: { binaryPath: tools.oxlintPath },
+        logging: { level: 'fatal' },
+      }),
+    );
+
+    let report = '';
+    let errors = '';
+    const code = await runCheck(
+      { targets: [], format: 'json', cwd: dir, configPath: 'config.json' },
+      (text) => (report += text),
+      (text) => (errors += text),
+    );
+
+    expect(code).toBe(EXIT_INCOMPLETE);
+    expect(errors).toMatch(/^tsgo-turbo: 1 of 1 files were not fully analyzed: tsgo is /);
+    expect(report).toContain('a.ts');
+  });
+});
@@ -0,0 +1,229 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { pathToFileURL } from 'node:url';
+import type { TsgoTurboConfig, FileAnalysisResult, SubsystemHealth } from '@tsgo-turbo/shared';
+import { DEFAULT_CONFIG } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import { PerfTracer } from '../logger/performance.js';
+import { validateConfig } from '../config/schema.js';
+import { AnalysisBridge, AnalysisPriority } from '../integrations/bridge.js';
+import { FileCache } from '../cache/fileCache.js';
+import { collectFiles } from '../workspace/files.js';
+import { formatReport, summarize, type ReportFormat } from './reporters.js';
+
+/** Exit code when no error-level problems were found. */
+export const EXIT_OK = 0;
+/** Exit code when errors were found (or warnings exceeded `--max-warnings`). */
+export const EXIT_PROBLEMS = 1;
+/** Exit code for usage errors, invalid config, or an internal failure. */
+export const EXIT_FATAL = 2;
+/**
+ * Exit code when a tool was unavailable or failed on some files, so the
+ * report may be missing problems.
+ */
+export const EXIT_INCOMPLETE = 3;
+
+/** Number of files read and handed to the bridge at the same time. */
+const CHECK_CONCURRENCY = 8;
+
+/**
+ * Options for a single `tsgo-turbo check` run.
+ */
+export interface CheckOptions {
+  /** Files, directories or globs to check. Empty means the whole `cwd`. */
+  targets: string[];
+  /** Output format for the report. */
+  format: ReportFormat;
+  /** Directory that targets, globs and reported paths are relative to. */
+  cwd: string;
+  /** Path to a JSON file with a `TsgoTurboConfig`-shaped object. */
+  configPath?: string;
+  /** Write the report to this file instead of stdout. */
+  outputPath?: string;
+  /** Fail when more than this many warnings are reported. */
+  maxWarnings?: number;
+  /** Override `tsgo.enabled`. */
+  tsgo?: boolean;
+  /** Override `oxc.enabled`. */
+  oxc?: boolean;
+  /** Override `logging.file`. */
+  logFile?: string;
+}
+
+/**
+ * Load and validate the configuration used for a check run.
+ *
+ * The config file uses the same shape as the `tsgoTurbo` settings section,
+ * so a CI job can share its settings with the editor.
+ *
+ * @throws Error if the file cannot be read or fails validation
+ */
+export function loadCheckConfig(options: CheckOptions): TsgoTurboConfig {
+  let config: TsgoTurboConfig = DEFAULT_CONFIG;
+
+  if (options.configPath) {
+    const configFile = path.resolve(options.cwd, options.configPath);
+    const raw: unknown = JSON.parse(fs.readFileSync(configFile, 'utf-8'));
+    const result = validateConfig(raw);
+    if (!result.valid || !result.config) {
+      throw new Error(
+        `Invalid configuration in ${configFile}:\n  ${(result.errors ?? []).join('\n  ')}`,
+      );
+    }
+    config = result.config;
+  }
+
+  return {
+    ...config,
+    tsgo: { ...config.tsgo, enabled: options.tsgo ?? config.tsgo.enabled },
+    oxc: { ...config.oxc, enabled: options.oxc ?? config.oxc.enabled },
+    logging: options.logFile
+      ? { ...config.logging, file: path.resolve(options.cwd, options.logFile) }
+      : config.logging,
+  };
+}
+
+/**
+ * Run the tsgo + oxc pipeline over a set of files without an editor.
+ *
+ * Files are discovered using `watch.include` / `watch.exclude`, analyzed
+ * through the same {@link AnalysisBridge} the language server uses, and
+ * reported in the requested format.
+ *
+ * @param options - check options
+ * @param write - sink for the rendered report (defaults to stdout)
+ * @param writeError - sink for error messages (defaults to stderr)
+ * @returns the process exit code
+ */
+export async function runCheck(
+  options: CheckOptions,
+  write: (text: string) => void = (text) => process.stdout.write(text),
+  writeError: (text: string) => void = (text) => process.stderr.write(text),
+): Promise<number> {
+  const config = loadCheckConfig(options);
+  const logger = new Logger(undefined, config.logging, 'cli');
+  const perfTracer = new PerfTracer(
+    config.tsgo.fileTimeoutMs / 2,
+    config.inspector.maxTraceHistory,
+  );
+
+  const files = await collectFiles(
+    options.cwd,
+    options.targets,
+    config.watch.include,
+    config.watch.exclude,
+  );
+  logger.info('Collected files for check', { count: files.length });
+
+  const bridge = new AnalysisBridge(config, logger, perfTracer);
+  bridge.setWorkspaceRoots([path.resolve(options.cwd)]);
+  const results: FileAnalysisResult[] = [];
+  let unhealthy: SubsystemHealth[] = [];
+
+  try {
+    await bridge.start();
+
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < files.length) {
+        const index = next++;
+        results[index] = await analyzeOne(bridge, files[index]);
+      }
+    };
+
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(CHECK_CONCURRENCY, files.length); i++) {
+      workers.push(worker());
+    }
+    await Promise.all(workers);
+    unhealthy = bridge.getSubsystemHealth().filter((s) => s.status !== 'up');
+  } finally {
+    await bridge.shutdown();
+    logger.dispose();
+  }
+
+  const report = formatReport(options.format, results, options.cwd);
+  if (options.outputPath) {
+    fs.writeFileSync(path.resolve(options.cwd, options.outputPath), report, 'utf-8');
+  } else {
+    write(report);
+  }
+
+  const incomplete = results.filter((r) => r.partial).length;
+  if (incomplete > 0) {
+    const tools = unhealthy.map(
+      (s) => `${s.tool} is ${s.status}${s.reason ? ` (${s.reason})` : ''}`,
+    );
+    const cause = tools.length > 0 ? `: ${tools.join(', ')}` : '';
+    writeError(
+      `tsgo-turbo: ${incomplete} of ${results.length} files were not fully analyzed${cause}\n`,
+    );
+    return EXIT_INCOMPLETE;
+  }
+
+  const summary = summarize(results);
+  if (summary.errors > 0) {
+    return EXIT_PROBLEMS;
+  }
+  if (options.maxWarnings !== undefined && summary.warnings > options.maxWarnings) {
+    return EXIT_PROBLEMS;
+  }
+  return EXIT_OK;
+}
+
+/**
+ * Read and analyze a single file. Read failures are reported as diagnostics
+ * so they fail the run instead of silently dropping the file.
+ */
+async function analyzeOne(
+  bridge: AnalysisBridge,
+  filePath: string,
+): Promise<FileAnalysisResult> {
+  const uri = pathToFileURL(filePath).toString();
+
+  let content: string;
+  try {
+    content = await fs.promises.readFile(filePath, 'utf-8');
+  } catch (err) {
+    return {
+      uri,
+      diagnostics: [
+        {
+          file: uri,
+          line: 1,
+          column: 1,
+          message: `Failed to read file: ${err instanceof Error ? err.message : String(err)}`,
+          severity: 'error',
+          source: 'tsgo-turbo',
+          computeTimeMs: 0,
+        },
+      ],
+      analysisTimeMs: 0,
+      cached: false,
+      contentHash: '',
+    };
+  }
+
+  try {
+    return await bridge.analyzeFile(uri, content, true, AnalysisPriority.Background);
+  } catch (err) {
+    return {
+      uri,
+      diagnostics: [
+        {
+          file: uri,
+          line: 1,
+          column: 1,
+          message: `Analysis failed: ${err instanceof Error ? err.message : String(err)}`,
+          severity: 'error',
+          source: 'tsgo-turbo',
+          computeTimeMs: 0,
+        },
+      ],
+      analysisTimeMs: 0,
+      cached: false,
+      contentHash: FileCache.computeHash(content),
+      partial: true,
+    };
+  }
+}
@@ -0,0 +1,143 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util';
+import { EXTENSION_NAME } from '@tsgo-turbo/shared';
+import { runCheck, EXIT_OK, EXIT_FATAL, type CheckOptions } from './check.js';
+import { REPORT_FORMATS, type ReportFormat } from './reporters.js';
+
+const VERSION = '0.1.0';
+
+const USAGE = `Usage: tsgo-turbo check [options] [paths or globs...]
+
+Run the ${EXTENSION_NAME} tsgo + oxc pipeline outside the editor.
+With no paths, every file under the working directory that matches
+watch.include and not watch.exclude is checked.
+
+Options:
+  -f, --format <format>     Output format: ${REPORT_FORMATS.join(', ')} (default: pretty)
+  -c, --config <file>       JSON config file using the tsgoTurbo settings shape
+  -o, --output <file>       Write the report to a file instead of stdout
+      --cwd <dir>           Working directory (default: current directory)
+      --max-warnings <n>    Exit non-zero when more than <n> warnings are found
+      --no-tsgo             Skip tsgo type checking
+      --no-oxc              Skip oxc linting
+      --log-file <file>     Write server logs to a file
+  -h, --help                Show this help
+  -v, --version             Show the version
+
+Exit codes: 0 = no errors, 1 = errors found, 2 = usage or internal failure,
+3 = a tool was unavailable or failed, so the report is incomplete.
+`;
+
+/**
+ * Parse command-line arguments and dispatch the requested command.
+ *
+ * @param argv - arguments after the node executable and script path
+ * @returns the process exit code
+ */
+export async function main(argv: string[]): Promise<number> {
+  let parsed: ReturnType<typeof parseCliArgs>;
+  try {
+    parsed = parseCliArgs(argv);
+  } catch (err) {
+    process.stderr.write(`${err instanceof Error ? err.message : String(err)}\n\n${USAGE}`);
+    return EXIT_FATAL;
+  }
+
+  const { values, positionals } = parsed;
+
+  if (values.help) {
+    process.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+  if (values.version) {
+    process.stdout.write(`${VERSION}\n`);
+    return EXIT_OK;
+  }
+
+  const [command, ...targets] = positionals;
+  if (command !== 'check') {
+    process.stderr.write(
+      `${command ? `Unknown command: ${command}` : 'Missing command'}\n\n${USAGE}`,
+    );
+    return EXIT_FATAL;
+  }
+
+  const format = values.format ?? 'pretty';
+  if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+    process.stderr.write(
+      `Unknown format: ${format} (expected one of ${REPORT_FORMATS.join(', ')})\n`,
+    );
+    return EXIT_FATAL;
+  }
+
+  const options: CheckOptions = {
+    targets,
+    format: format as ReportFormat,
+    cwd: values.cwd ?? process.cwd(),
+  };
+  if (values.config) {
+    options.configPath = values.config;
+  }
+  if (values.output) {
+    options.outputPath = values.output;
+  }
+  if (values['log-file']) {
+    options.logFile = values['log-file'];
+  }
+  if (values['no-tsgo']) {
+    options.tsgo = false;
+  }
+  if (values['no-oxc']) {
+    options.oxc = false;
+  }
+  if (values['max-warnings'] !== undefined) {
+    const maxWarnings = Number(values['max-warnings']);
+    if (!Number.isInteger(maxWarnings) || maxWarnings < 0) {
+      process.stderr.write(`--max-warnings must be a non-negative integer\n`);
+      return EXIT_FATAL;
+    }
+    options.maxWarnings = maxWarnings;
+  }
+
+  try {
+    return await runCheck(options);
+  } catch (err) {
+    process.stderr.write(
+      `tsgo-turbo: ${err instanceof Error ? err.message : String(err)}\n`,
+    );
+    return EXIT_FATAL;
+  }
+}
+
+function parseCliArgs(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    strict: true,
+    options: {
+      format: { type: 'string', short: 'f' },
+      config: { type: 'string', short: 'c' },
+      output: { type: 'string', short: 'o' },
+      cwd: { type: 'string' },
+      'max-warnings': { type: 'string' },
+      'no-tsgo': { type: 'boolean' },
+      'no-oxc': { type: 'boolean' },
+      'log-file': { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+      version: { type: 'boolean', short: 'v' },
+    },
+  });
+}
+
+// --- Entry Point ---
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    // Flush stdout before exiting so piped reports are never truncated
+    process.stdout.write('', () => process.exit(code));
+  },
+  (err: unknown) => {
+    process.stderr.write(`tsgo-turbo: ${err instanceof Error ? err.message : String(err)}\n`);
+    process.exit(EXIT_FATAL);
+  },
+);
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import type { FileAnalysisResult } from '@tsgo-turbo/shared';
+import { formatReport, summarize } from './reporters.js';
+
+const cwd = '/repo';
+
+const results: FileAnalysisResult[] = [
+  {
+    uri: 'file:///repo/src/app.ts',
+    diagnostics: [
+      {
+        file: 'file:///repo/src/app.ts',
+        line: 3,
+        column: 5,
+        endLine: 3,
+        endColumn: 9,
+        message: "Type 'string' is not assignable to type 'number'.",
+        severity: 'error',
+        source: 'tsgo',
+        code: '2322',
+        computeTimeMs: 12,
+      },
+      {
+        file: 'file:///repo/src/app.ts',
+        line: 1,
+        column: 1,
+        message: 'Unused variable: a, b',
+        severity: 'warning',
+        source: 'oxc',
+        code: 'no-unused-vars',
+        computeTimeMs: 2,
+      },
+    ],
+    analysisTimeMs: 14,
+    cached: false,
+    contentHash: 'h1',
+  },
+  {
+    uri: 'file:///repo/src/clean.ts',
+    diagnostics: [],
+    analysisTimeMs: 3,
+    cached: false,
+    contentHash: 'h2',
+  },
+];
+
+describe('summarize', () => {
+  it('counts diagnostics by severity', () => {
+    expect(summarize(results)).toEqual({
+      filesAnalyzed: 2,
+      filesWithProblems: 1,
+      errors: 1,
+      warnings: 1,
+      infos: 0,
+      hints: 0,
+    });
+  });
+});
+
+describe('formatReport', () => {
+  it('renders pretty output with relative paths sorted by position', () => {
+    const output = formatReport('pretty', results, cwd);
+    expect(output).toContain('src/app.ts');
+    expect(output.indexOf('no-unused-vars')).toBeLessThan(output.indexOf('2322'));
+    expect(output).toContain('2 problem(s) (1 error(s), 1 warning(s)) in 1 of 2 file(s).');
+  });
+
+  it('renders JSON with a summary', () => {
+    const report = JSON.parse(formatReport('json', results, cwd));
+    expect(report.summary.errors).toBe(1);
+    expect(report.files[0].path).toBe('src/app.ts');
+    expect(report.files[0].diagnostics[0].code).toBe('no-unused-vars');
+  });
+
+  it('renders one SARIF run per tool', () => {
+    const log = JSON.parse(formatReport('sarif', results, cwd));
+    expect(log.version).toBe('2.1.0');
+    expect(log.runs.map((r: { tool: { driver: { name: string } } }) => r.tool.driver.name)).toEqual([
+      'tsgo',
+      'oxc',
+    ]);
+    const location = log.runs[0].results[0].locations[0].physicalLocation;
+    expect(location.artifactLocation.uri).toBe('src/app.ts');
+    expect(location.region).toEqual({ startLine: 3, startColumn: 5, endLine: 3, endColumn: 9 });
+  });
+
+  it('escapes checkstyle XML attributes', () => {
+    const output = formatReport('checkstyle', results, cwd);
+    expect(output).toContain('<file name="src/clean.ts">');
+    expect(output).toContain('&apos;string&apos;');
+    expect(output).toContain('source="tsgo.2322"');
+  });
+
+  it('escapes GitHub annotation properties and data', () => {
+    const output = formatReport('github', results, cwd);
+    expect(output).toContain('::warning file=src/app.ts,line=1,col=1,endLine=1,endColumn=1,title=oxc(no-unused-vars)::Unused variable: a, b');
+    expect(output).toContain('::error file=src/app.ts,line=3,col=5');
+  });
+});
@@ -0,0 +1,368 @@
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import type {
+  FileAnalysisResult,
+  TurbodiagnosticItem,
+  DiagnosticSeverity,
+  DiagnosticSource,
+} from '@tsgo-turbo/shared';
+
+/** Output formats supported by `tsgo-turbo check`. */
+export type ReportFormat = 'pretty' | 'json' | 'sarif' | 'checkstyle' | 'github';
+
+/** All supported report formats, in the order shown in `--help`. */
+export const REPORT_FORMATS: readonly ReportFormat[] = [
+  'pretty',
+  'json',
+  'sarif',
+  'checkstyle',
+  'github',
+];
+
+/** Tool version reported in SARIF and JSON output. */
+const TOOL_VERSION = '0.1.0';
+
+/**
+ * Aggregate diagnostic counts for a check run.
+ */
+export interface ReportSummary {
+  filesAnalyzed: number;
+  filesWithProblems: number;
+  errors: number;
+  warnings: number;
+  infos: number;
+  hints: number;
+}
+
+/**
+ * Count diagnostics by severity across all results.
+ */
+export function summarize(results: FileAnalysisResult[]): ReportSummary {
+  const summary: ReportSummary = {
+    filesAnalyzed: results.length,
+    filesWithProblems: 0,
+    errors: 0,
+    warnings: 0,
+    infos: 0,
+    hints: 0,
+  };
+
+  for (const result of results) {
+    if (result.diagnostics.length > 0) {
+      summary.filesWithProblems++;
+    }
+    for (const diag of result.diagnostics) {
+      switch (diag.severity) {
+        case 'error':
+          summary.errors++;
+          break;
+        case 'warning':
+          summary.warnings++;
+          break;
+        case 'info':
+          summary.infos++;
+          break;
+        case 'hint':
+          summary.hints++;
+          break;
+      }
+    }
+  }
+
+  return summary;
+}
+
+/**
+ * Render analysis results in the requested format.
+ *
+ * File paths are printed relative to `cwd` using forward slashes, which is
+ * what GitHub annotations, SARIF `%SRCROOT%` URIs and most CI tools expect.
+ *
+ * @param format - the output format
+ * @param results - per-file analysis results from AnalysisBridge
+ * @param cwd - directory that reported paths are relative to
+ * @returns the rendered report (always newline-terminated)
+ */
+export function formatReport(
+  format: ReportFormat,
+  results: FileAnalysisResult[],
+  cwd: string,
+): string {
+  switch (format) {
+    case 'pretty':
+      return formatPretty(results, cwd);
+    case 'json':
+      return formatJson(results, cwd);
+    case 'sarif':
+      return formatSarif(results, cwd);
+    case 'checkstyle':
+      return formatCheckstyle(results, cwd);
+    case 'github':
+      return formatGithub(results, cwd);
+  }
+}
+
+/**
+ * Human-readable output grouped by file, similar to ESLint's stylish format.
+ */
+function formatPretty(results: FileAnalysisResult[], cwd: string): string {
+  const lines: string[] = [];
+
+  for (const result of results) {
+    if (result.diagnostics.length === 0) {
+      continue;
+    }
+    lines.push(toDisplayPath(result.uri, cwd));
+    for (const diag of sortDiagnostics(result.diagnostics)) {
+      const location = `${diag.line}:${diag.column}`.padEnd(9);
+      const severity = diag.severity.padEnd(8);
+      const code = diag.code ? `  ${diag.code}` : '';
+      lines.push(`  ${location} ${severity} ${diag.message}${code} (${diag.source})`);
+    }
+    lines.push('');
+  }
+
+  const summary = summarize(results);
+  const problems = summary.errors + summary.warnings + summary.infos + summary.hints;
+  if (problems === 0) {
+    lines.push(`No problems found in ${summary.filesAnalyzed} file(s).`);
+  } else {
+    lines.push(
+      `${problems} problem(s) (${summary.errors} error(s), ${summary.warnings} warning(s)) ` +
+        `in ${summary.filesWithProblems} of ${summary.filesAnalyzed} file(s).`,
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Machine-readable JSON: per-file results plus a summary.
+ */
+function formatJson(results: FileAnalysisResult[], cwd: string): string {
+  const report = {
+    version: TOOL_VERSION,
+    summary: summarize(results),
+    files: results.map((result) => ({
+      path: toDisplayPath(result.uri, cwd),
+      uri: result.uri,
+      analysisTimeMs: result.analysisTimeMs,
+      contentHash: result.contentHash,
+      diagnostics: sortDiagnostics(result.diagnostics).map((diag) => ({
+        line: diag.line,
+        column: diag.column,
+        endLine: diag.endLine ?? diag.line,
+        endColumn: diag.endColumn ?? diag.column,
+        severity: diag.severity,
+        source: diag.source,
+        code: diag.code ?? null,
+        message: diag.message,
+      })),
+    })),
+  };
+  return JSON.stringify(report, null, 2) + '\n';
+}
+
+/**
+ * SARIF 2.1.0 log with one run per tool that produced diagnostics.
+ */
+function formatSarif(results: FileAnalysisResult[], cwd: string): string {
+  const bySource = new Map<DiagnosticSource, Array<{ uri: string; diag: TurbodiagnosticItem }>>();
+  for (const result of results) {
+    for (const diag of result.diagnostics) {
+      let list = bySource.get(diag.source);
+      if (!list) {
+        list = [];
+        bySource.set(diag.source, list);
+      }
+      list.push({ uri: result.uri, diag });
+    }
+  }
+
+  const sources: DiagnosticSource[] = ['tsgo', 'oxc', 'tsgo-turbo'];
+  const runs = sources
+    .filter((source) => bySource.has(source))
+    .map((source) => buildSarifRun(source, bySource.get(source) ?? [], cwd));
+
+  if (runs.length === 0) {
+    runs.push(buildSarifRun('tsgo-turbo', [], cwd));
+  }
+
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs,
+  };
+  return JSON.stringify(log, null, 2) + '\n';
+}
+
+function buildSarifRun(
+  source: DiagnosticSource,
+  entries: Array<{ uri: string; diag: TurbodiagnosticItem }>,
+  cwd: string,
+) {
+  const ruleIds = Array.from(
+    new Set(entries.map((e) => e.diag.code).filter((c): c is string => !!c)),
+  ).sort();
+
+  return {
+    tool: {
+      driver: {
+        name: source,
+        version: TOOL_VERSION,
+        rules: ruleIds.map((id) => ({ id })),
+      },
+    },
+    originalUriBaseIds: {
+      '%SRCROOT%': { uri: toFileUrl(cwd) },
+    },
+    results: entries.map(({ uri, diag }) => ({
+      ruleId: diag.code ?? source,
+      level: toSarifLevel(diag.severity),
+      message: { text: diag.message },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: {
+              uri: toDisplayPath(uri, cwd),
+              uriBaseId: '%SRCROOT%',
+            },
+            region: {
+              startLine: diag.line,
+              startColumn: diag.column,
+              endLine: diag.endLine ?? diag.line,
+              endColumn: diag.endColumn ?? diag.column,
+            },
+          },
+        },
+      ],
+    })),
+  };
+}
+
+/**
+ * Checkstyle XML, understood by Jenkins, reviewdog, GitLab and most CI viewers.
+ */
+function formatCheckstyle(results: FileAnalysisResult[], cwd: string): string {
+  const lines: string[] = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<checkstyle version="4.3">',
+  ];
+
+  for (const result of results) {
+    lines.push(`  <file name="${escapeXml(toDisplayPath(result.uri, cwd))}">`);
+    for (const diag of sortDiagnostics(result.diagnostics)) {
+      const source = diag.code ? `${diag.source}.${diag.code}` : diag.source;
+      lines.push(
+        `    <error line="${diag.line}" column="${diag.column}" ` +
+          `severity="${toCheckstyleSeverity(diag.severity)}" ` +
+          `message="${escapeXml(diag.message)}" source="${escapeXml(source)}"/>`,
+      );
+    }
+    lines.push('  </file>');
+  }
+
+  lines.push('</checkstyle>');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * GitHub Actions workflow commands, rendered as inline PR annotations.
+ */
+function formatGithub(results: FileAnalysisResult[], cwd: string): string {
+  const lines: string[] = [];
+
+  for (const result of results) {
+    const file = toDisplayPath(result.uri, cwd);
+    for (const diag of sortDiagnostics(result.diagnostics)) {
+      const command =
+        diag.severity === 'error'
+          ? 'error'
+          : diag.severity === 'warning'
+            ? 'warning'
+            : 'notice';
+      const title = diag.code ? `${diag.source}(${diag.code})` : diag.source;
+      const properties = [
+        `file=${escapeGithubProperty(file)}`,
+        `line=${diag.line}`,
+        `col=${diag.column}`,
+        `endLine=${diag.endLine ?? diag.line}`,
+        `endColumn=${diag.endColumn ?? diag.column}`,
+        `title=${escapeGithubProperty(title)}`,
+      ].join(',');
+      lines.push(`::${command} ${properties}::${escapeGithubData(diag.message)}`);
+    }
+  }
+
+  return lines.length > 0 ? lines.join('\n') + '\n' : '';
+}
+
+/**
+ * Sort diagnostics by position so output is stable across runs.
+ */
+function sortDiagnostics(diagnostics: TurbodiagnosticItem[]): TurbodiagnosticItem[] {
+  return [...diagnostics].sort(
+    (a, b) => a.line - b.line || a.column - b.column || a.message.localeCompare(b.message),
+  );
+}
+
+/**
+ * Convert a file URI to a forward-slash path relative to `cwd`.
+ */
+function toDisplayPath(uri: string, cwd: string): string {
+  let filePath = uri;
+  if (uri.startsWith('file://')) {
+    try {
+      filePath = fileURLToPath(uri);
+    } catch {
+      return uri;
+    }
+  }
+  const relative = path.isAbsolute(filePath) ? path.relative(cwd, filePath) : filePath;
+  return relative.split(path.sep).join('/');
+}
+
+function toFileUrl(dir: string): string {
+  const normalized = dir.split(path.sep).join('/');
+  const withSlash = normalized.endsWith('/') ? normalized : `${normalized}/`;
+  return withSlash.startsWith('/') ? `file://${withSlash}` : `file:///${withSlash}`;
+}
+
+function toSarifLevel(severity: DiagnosticSeverity): 'error' | 'warning' | 'note' {
+  switch (severity) {
+    case 'error':
+      return 'error';
+    case 'warning':
+      return 'warning';
+    default:
+      return 'note';
+  }
+}
+
+function toCheckstyleSeverity(severity: DiagnosticSeverity): 'error' | 'warning' | 'info' {
+  switch (severity) {
+    case 'error':
+      return 'error';
+    case 'warning':
+      return 'warning';
+    default:
+      return 'info';
+  }
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function escapeGithubData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeGithubProperty(value: string): string {
+  return escapeGithubData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
@@ -129,6 +129,38 @@ export function validateConfig(raw: unknown): ValidationResult {
         }
       }
 
+      if (tsgo['poolSize'] !== undefined) {
+        if (tsgo['poolSize'] !== 'auto' && (typeof tsgo['poolSize'] !== 'number' || !Number.isInteger(tsgo['poolSize']) || tsgo['poolSize'] < 1)) {
+          errors.push("tsgo.poolSize: must be a positive integer or 'auto'");
+        } else {
+          tsgoPartial['poolSize'] = tsgo['poolSize'];
+        }
+      }
+
+      if (tsgo['minProcesses'] !== undefined) {
+        if (typeof tsgo['minProcesses'] !== 'number' || !Number.isInteger(tsgo['minProcesses']) || tsgo['minProcesses'] < 1) {
+          errors.push('tsgo.minProcesses: must be a positive integer');
+        } else {
+          tsgoPartial['minProcesses'] = tsgo['minProcesses'];
+        }
+      }
+
+      if (tsgo['maxProcesses'] !== undefined) {
+        if (typeof tsgo['maxProcesses'] !== 'number' || !Number.isInteger(tsgo['maxProcesses']) || tsgo['maxProcesses'] < 1) {
+          errors.push('tsgo.maxProcesses: must be a positive integer');
+        } else {
+          tsgoPartial['maxProcesses'] = tsgo['maxProcesses'];
+        }
+      }
+
+      if (tsgo['idleTimeoutMs'] !== undefined) {
+        if (typeof tsgo['idleTimeoutMs'] !== 'number' || tsgo['idleTimeoutMs'] < 0) {
+          errors.push('tsgo.idleTimeoutMs: must be a non-negative number');
+        } else {
+          tsgoPartial['idleTimeoutMs'] = tsgo['idleTimeoutMs'];
+        }
+      }
+
       if (Object.keys(tsgoPartial).length > 0) {
         partial['tsgo'] = tsgoPartial;
       }
@@ -175,6 +207,14 @@ export function validateConfig(raw: unknown): ValidationResult {
         }
       }
 
+      if (oxc['maxConcurrency'] !== undefined) {
+        if (typeof oxc['maxConcurrency'] !== 'number' || !Number.isInteger(oxc['maxConcurrency']) || oxc['maxConcurrency'] < 1) {
+          errors.push('oxc.maxConcurrency: must be a positive integer');
+        } else {
+          oxcPartial['maxConcurrency'] = oxc['maxConcurrency'];
+        }
+      }
+
       if (oxc['rules'] !== undefined) {
         if (!isPlainObject(oxc['rules'])) {
           errors.push('oxc.rules: must be an object');
@@ -200,6 +240,60 @@ export function validateConfig(raw: unknown): ValidationResult {
     }
   }
 
+  // -- format section --
+  if (input['format'] !== undefined) {
+    if (!isPlainObject(input['format'])) {
+      errors.push('format: must be an object');
+    } else {
+      const format = input['format'] as Record<string, unknown>;
+      const formatPartial: Record<string, unknown> = {};
+
+      if (format['enabled'] !== undefined) {
+        if (typeof format['enabled'] !== 'boolean') {
+          errors.push('format.enabled: must be a boolean');
+        } else {
+          formatPartial['enabled'] = format['enabled'];
+        }
+      }
+
+      if (format['provider'] !== undefined) {
+        if (format['provider'] !== 'oxc') {
+          errors.push("format.provider: must be 'oxc'");
+        } else {
+          formatPartial['provider'] = format['provider'];
+        }
+      }
+
+      if (format['binaryPath'] !== undefined) {
+        if (typeof format['binaryPath'] !== 'string') {
+          errors.push('format.binaryPath: must be a string');
+        } else {
+          formatPartial['binaryPath'] = format['binaryPath'];
+        }
+      }
+
+      if (format['fileTimeoutMs'] !== undefined) {
+        if (typeof format['fileTimeoutMs'] !== 'number' || format['fileTimeoutMs'] < 100) {
+          errors.push('format.fileTimeoutMs: must be a number >= 100');
+        } else {
+          formatPartial['fileTimeoutMs'] = format['fileTimeoutMs'];
+        }
+      }
+
+      if (format['formatOnType'] !== undefined) {
+        if (typeof format['formatOnType'] !== 'boolean') {
+          errors.push('format.formatOnType: must be a boolean');
+        } else {
+          formatPartial['formatOnType'] = format['formatOnType'];
+        }
+      }
+
+      if (Object.keys(formatPartial).length > 0) {
+        partial['format'] = formatPartial;
+      }
+    }
+  }
+
   // -- logging section --
   if (input['logging'] !== undefined) {
     if (!isPlainObject(input['logging'])) {
@@ -299,6 +393,22 @@ export function validateConfig(raw: unknown): ValidationResult {
         }
       }
 
+      if (cache['persistent'] !== undefined) {
+        if (typeof cache['persistent'] !== 'boolean') {
+          errors.push('cache.persistent: must be a boolean');
+        } else {
+          cachePartial['persistent'] = cache['persistent'];
+        }
+      }
+
+      if (cache['diskMaxSizeMb'] !== undefined) {
+        if (typeof cache['diskMaxSizeMb'] !== 'number' || cache['diskMaxSizeMb'] < 1) {
+          errors.push('cache.diskMaxSizeMb: must be a number >= 1');
+        } else {
+          cachePartial['diskMaxSizeMb'] = cache['diskMaxSizeMb'];
+        }
+      }
+
       if (Object.keys(cachePartial).length > 0) {
         partial['cache'] = cachePartial;
       }
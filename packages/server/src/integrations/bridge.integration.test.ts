@@ -0,0 +1,365 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, readdirSync, realpathSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { URI } from 'vscode-uri';
+import { DEFAULT_CONFIG, type TsgoTurboConfig } from '@tsgo-turbo/shared';
+import { DiskCache } from '../cache/diskCache.js';
+import { Logger } from '../logger/index.js';
+import { PerfTracer } from '../logger/performance.js';
+import { FakeTools } from '../testing/fakeTools.js';
+import { AnalysisBridge, AnalysisPriority } from './bridge.js';
+
+const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+
+const uri = 'file:///project/src/a.ts';
+const content = [
+  "import { b } from './b.js';",
+  'const a: string = b; // @fake-error: Type number is not assignable to type string',
+  'debugger; // @fake-lint: Unexpected debugger statement',
+].join('\n');
+
+let tools: FakeTools | undefined;
+let bridge: AnalysisBridge | undefined;
+
+async function startBridge(config: TsgoTurboConfig): Promise<AnalysisBridge> {
+  bridge = new AnalysisBridge(config, logger, new PerfTracer());
+  await bridge.start();
+  return bridge;
+}
+
+/** Lints that sent content: per-file runs, or changes to the language server. */
+function lintedContents(tools: FakeTools): unknown[] {
+  return tools
+    .oxlintRequests()
+    .filter((r) => r.method !== 'textDocument/didOpen' && r.method !== 'textDocument/didClose');
+}
+
+function sources(diagnostics: Array<{ source: string }>): string[] {
+  return diagnostics.map((d) => d.source).sort();
+}
+
+describe('AnalysisBridge with fake tsgo and oxlint', { timeout: 20_000 }, () => {
+  afterEach(async () => {
+    await bridge?.shutdown();
+    bridge = undefined;
+    tools?.dispose();
+    tools = undefined;
+  });
+
+  it('merges diagnostics from both tools and records tsgo imports', async () => {
+    tools = new FakeTools();
+    const bridge = await startBridge(tools.config());
+    const imports = new Map<string, string[]>();
+    bridge.onImportsUpdated((file, resolved) => imports.set(file, resolved));
+
+    const result = await bridge.analyzeFile(uri, content, false, AnalysisPriority.Active);
+
+    expect(sources(result.diagnostics)).toEqual(['oxc', 'tsgo']);
+    expect(result.diagnostics.find((d) => d.source === 'tsgo')).toMatchObject({
+      line: 2,
+      message: 'Type number is not assignable to type string',
+      severity: 'error',
+    });
+    expect(result.diagnostics.find((d) => d.source === 'oxc')).toMatchObject({
+      line: 3,
+      code: 'fake/rule',
+      severity: 'warning',
+    });
+    await vi.waitFor(() => expect(imports.get(uri)).toEqual(['file:///project/src/b.ts']));
+    expect(tools.tsgoRequests().map((r) => r.type)).toEqual(['analyze']);
+    expect(lintedContents(tools)).toHaveLength(1);
+  });
+
+  it('respawns a crashed tsgo process and serves the next request from it', async () => {
+    tools = new FakeTools();
+    const bridge = await startBridge(tools.config({ tsgo: { fileTimeoutMs: 1_000 } }));
+
+    tools.setTsgo({ crashAfterRequests: 1 });
+    const crashed = await bridge.analyzeFile(uri, content, true);
+    expect(sources(crashed.diagnostics)).toEqual(['oxc']);
+
+    tools.setTsgo({});
+    const recovered = await bridge.analyzeFile(uri, content, true);
+    expect(sources(recovered.diagnostics)).toEqual(['oxc', 'tsgo']);
+
+    const pids = tools.tsgoRequests().map((r) => r.pid);
+    expect(pids).toHaveLength(2);
+    expect(pids[0]).not.toBe(pids[1]);
+  });
+
+  it('does not cache a result tsgo crashed on, so a retry runs tsgo again', async () => {
+    tools = new FakeTools();
+    const config = tools.config({ tsgo: { fileTimeoutMs: 1_000 } });
+    const bridge = await startBridge({ ...config, cache: { ...config.cache, enabled: true } });
+
+    tools.setTsgo({ crashAfterRequests: 1 });
+    const crashed = await bridge.analyzeFile(uri, content);
+    expect(crashed.partial).toBe(true);
+    expect(sources(crashed.diagnostics)).toEqual(['oxc']);
+
+    tools.setTsgo({});
+    const retried = await bridge.analyzeFile(uri, content);
+    expect(retried).toMatchObject({ cached: false });
+    expect(retried.partial).toBeUndefined();
+    expect(sources(retried.diagnostics)).toEqual(['oxc', 'tsgo']);
+    expect(tools.tsgoRequests().map((r) => r.type)).toEqual(['analyze', 'analyze']);
+
+    const repeated = await bridge.analyzeFile(uri, content);
+    expect(repeated.cached).toBe(true);
+  });
+
+  it('persists results across restarts until an import or the oxlint config changes', async () => {
+    tools = new FakeTools();
+    const dir = mkdtempSync(path.join(tmpdir(), 'tsgo-turbo-persist-'));
+    const configFile = path.join(dir, '.oxlintrc.json');
+    writeFileSync(configFile, '{}');
+    writeFileSync(path.join(dir, 'b.ts'), 'export const b = 1;\n');
+    const fileUri = URI.file(path.join(dir, 'a.ts')).toString();
+    const base = tools.config({ oxc: { configPath: configFile } });
+    const config = { ...base, cache: { ...base.cache, enabled: true } };
+    const cacheDir = path.join(dir, 'cache');
+    const disk = new DiskCache(cacheDir, 16, logger);
+    const analyses = () => tools?.tsgoRequests().filter((r) => r.type === 'analyze') ?? [];
+
+    try {
+      const first = await startBridge(config);
+      first.setDiskCache(disk);
+      await first.analyzeFile(fileUri, content);
+      // One tsgo and one oxc entry
+      await vi.waitFor(() =>
+        expect(readdirSync(cacheDir).filter((name) => !name.endsWith('.tmp'))).toHaveLength(2),
+      );
+      await first.shutdown();
+
+      const second = await startBridge(config);
+      second.setDiskCache(disk);
+      const restored = await second.analyzeFile(fileUri, content);
+      expect(sources(restored.diagnostics)).toEqual(['oxc', 'tsgo']);
+      expect(analyses()).toHaveLength(1);
+      expect(lintedContents(tools)).toHaveLength(1);
+
+      // tsgo runs again once an import changed; oxc's result still holds
+      writeFileSync(path.join(dir, 'b.ts'), 'export const b = "1";\n');
+      second.invalidateCache(fileUri);
+      await second.analyzeFile(fileUri, content);
+      expect(analyses()).toHaveLength(2);
+      expect(lintedContents(tools)).toHaveLength(1);
+
+      writeFileSync(configFile, '{ "rules": {} }');
+      second.refreshCacheNamespace();
+      const relinted = await second.analyzeFile(fileUri, content);
+      expect(relinted.cached).toBe(false);
+      expect(lintedContents(tools)).toHaveLength(2);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps oxc results when tsgo answers late or with malformed output', async () => {
+    tools = new FakeTools();
+    const bridge = await startBridge(tools.config({ tsgo: { fileTimeoutMs: 300 } }));
+
+    tools.setTsgo({ latencyMs: 800 });
+    const late = await bridge.analyzeFile(uri, content, true);
+    expect(sources(late.diagnostics)).toEqual(['oxc']);
+
+    // The worker is free again once its late answer arrives
+    tools.setTsgo({});
+    await vi.waitFor(() =>
+      expect(bridge.tsgoIntegration.getProcessInfo()[0]?.busy).toBe(false),
+    );
+    const onTime = await bridge.analyzeFile(uri, content, true);
+    expect(sources(onTime.diagnostics)).toEqual(['oxc', 'tsgo']);
+
+    tools.setTsgo({ malformed: true });
+    const malformed = await bridge.analyzeFile(uri, content, true);
+    expect(sources(malformed.diagnostics)).toEqual(['oxc']);
+  });
+
+  it('sends open documents once, then edits, and resyncs a restarted worker', async () => {
+    tools = new FakeTools();
+    const bridge = await startBridge(tools.config({ tsgo: { fileTimeoutMs: 1_000 } }));
+    bridge.openDocument(uri, 1, content);
+    await bridge.analyzeFile(uri, content, true);
+
+    // Append an error on a new last line
+    const lines = content.split('\n');
+    const addition = '\nlet c: number = a; // @fake-error: Type string is not assignable to type number';
+    const edited = content + addition;
+    const end = { line: lines.length - 1, character: lines.at(-1)?.length ?? 0 };
+    bridge.changeDocument(uri, 2, edited, [{ range: { start: end, end }, text: addition }]);
+    const result = await bridge.analyzeFile(uri, edited, true);
+    expect(result.diagnostics.filter((d) => d.source === 'tsgo').map((d) => d.line)).toEqual([2, 4]);
+
+    tools.setTsgo({ crashAfterRequests: 1 });
+    await bridge.analyzeFile(uri, edited, true);
+    tools.setTsgo({});
+    await bridge.analyzeFile(uri, edited, true);
+
+    const requests = tools.tsgoRequests();
+    const [first, second] = [...new Set(requests.map((r) => r.pid))];
+    expect(requests.filter((r) => r.pid === first).map((r) => [r.type, r.version])).toEqual([
+      ['open', 1],
+      ['analyze', 1],
+      ['change', 2],
+      ['analyze', 2],
+      ['analyze', 2],
+    ]);
+    expect(requests.filter((r) => r.pid === second).map((r) => [r.type, r.version])).toEqual([
+      ['open', 2],
+      ['analyze', 2],
+    ]);
+  });
+
+  it('lints through a persistent oxlint --lsp, or per file without it', async () => {
+    tools = new FakeTools();
+    const persistent = await startBridge(tools.config());
+    const edited = content.replace('debugger;', 'debugger; debugger;');
+    persistent.openDocument(uri, 1, content);
+    await persistent.analyzeFile(uri, content, true);
+    const result = await persistent.analyzeFile(uri, edited, true);
+    expect(result.diagnostics.find((d) => d.source === 'oxc')).toMatchObject({ line: 3, code: 'fake/rule' });
+
+    const lints = tools.oxlintRequests();
+    expect(lints.map((r) => r.method)).toEqual([
+      'textDocument/didOpen',
+      'textDocument/didChange',
+      'textDocument/didChange',
+    ]);
+    expect(new Set(lints.map((r) => r.pid)).size).toBe(1);
+    expect(persistent.getProcessInfo()).toContainEqual(
+      expect.objectContaining({ pid: lints[0]?.pid, tool: 'oxc' }),
+    );
+
+    // A file not open in the editor is closed in the server once linted
+    await persistent.analyzeFile('file:///project/src/closed.ts', content, true);
+    await vi.waitFor(() =>
+      expect(tools?.oxlintRequests().slice(3).map((r) => r.method)).toEqual([
+        'textDocument/didOpen',
+        'textDocument/didChange',
+        'textDocument/didClose',
+      ]),
+    );
+    await persistent.shutdown();
+
+    tools.dispose();
+    tools = new FakeTools();
+    tools.setOxlint({ noLsp: true });
+    const perFile = await startBridge(tools.config());
+    await perFile.analyzeFile(uri, content, true);
+    await perFile.analyzeFile(uri, edited, true);
+    const spawned = tools.oxlintRequests();
+    expect(spawned.map((r) => r.method)).toEqual([undefined, undefined]);
+    expect(spawned[0]?.pid).not.toBe(spawned[1]?.pid);
+  });
+
+  it('lints workspace files in one batch run and hands the results to their analyses', async () => {
+    tools = new FakeTools();
+    const bridge = await startBridge(tools.config());
+    const root = mkdtempSync(path.join(tmpdir(), 'tsgo-turbo-batch-'));
+    // oxlint runs there and names files relative to it
+    bridge.setWorkspaceRoots([root]);
+    const files = { 'a.ts': content, 'b.ts': 'export const b = 1;\n' };
+    const uris = Object.entries(files).map(([name, text]) => {
+      writeFileSync(path.join(root, name), text);
+      return URI.file(path.join(root, name)).toString();
+    });
+
+    try {
+      expect(await bridge.lintWorkspace(uris)).toBe(2);
+      const [a, b] = await Promise.all(
+        uris.map((fileUri, i) => bridge.analyzeFile(fileUri, Object.values(files)[i]!)),
+      );
+      expect(a?.diagnostics.filter((d) => d.source === 'oxc')).toMatchObject([
+        { line: 3, code: 'fake/rule' },
+      ]);
+      expect(b?.diagnostics.filter((d) => d.source === 'oxc')).toEqual([]);
+
+      const lints = tools.oxlintRequests();
+      expect(lints.map((r) => r.method)).toEqual(['batch', 'batch']);
+      expect(lints[0]?.pid).toBe(lints[1]?.pid);
+      expect(lints[0]?.cwd).toBe(realpathSync(root));
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('leaves out batch results for files changed during the run', async () => {
+    tools = new FakeTools();
+    const bridge = await startBridge(tools.config());
+    const root = mkdtempSync(path.join(tmpdir(), 'tsgo-turbo-batch-'));
+    const [a, b] = ['a.ts', 'b.ts'].map((name) => path.join(root, name));
+    writeFileSync(a!, content);
+    writeFileSync(b!, 'export const b = 1;\n');
+
+    try {
+      tools.setOxlint({ latencyMs: 300 });
+      const linted = bridge.lintWorkspace([a!, b!].map((file) => URI.file(file).toString()));
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      writeFileSync(a!, content.replace('debugger;', ''));
+      expect(await linted).toBe(1);
+    } finally {
+      rmSync(root, { recursive: true, force: true });
+    }
+  });
+
+  it('restarts the oxlint language server after it crashes', async () => {
+    tools = new FakeTools();
+    const bridge = await startBridge(tools.config());
+    await bridge.analyzeFile(uri, content, true);
+    const [first] = tools.oxlintRequests();
+
+    tools.setOxlint({ crash: true });
+    await bridge.analyzeFile(uri, content.replace('debugger;', 'debugger; '), true);
+    tools.setOxlint({});
+    await vi.waitFor(() =>
+      expect(bridge.oxcIntegration.getProcessInfo().map((p) => p.pid)).not.toContain(first?.pid),
+    );
+    await vi.waitFor(() => expect(bridge.oxcIntegration.getProcessInfo()).toHaveLength(1));
+
+    const result = await bridge.analyzeFile(uri, content, true);
+    expect(sources(result.diagnostics)).toEqual(['oxc', 'tsgo']);
+    const reopened = tools.oxlintRequests().slice(-2);
+    expect(reopened.map((r) => r.method)).toEqual(['textDocument/didOpen', 'textDocument/didChange']);
+    expect(reopened[0]?.pid).not.toBe(first?.pid);
+  });
+
+  it('turns off the features the tsgo binary does not list in the handshake', async () => {
+    tools = new FakeTools();
+    tools.setTsgo({ capabilities: ['definition', 'references'] });
+    const bridge = await startBridge(tools.config());
+    const tsgo = bridge.tsgoIntegration;
+
+    expect(tsgo.binaryInfo).toMatchObject({
+      path: tools.tsgoPath,
+      source: 'config',
+      version: 'fake-tsgo 0.0.0',
+    });
+    expect(tsgo.binaryInfo.unsupportedFeatures).toContain('completions');
+    expect(tsgo.supports('definition')).toBe(true);
+
+    expect(await tsgo.getTypeInfo(uri, content, 1, 6)).toBeUndefined();
+    expect(await tsgo.getCompletions(uri, content, 1, 6)).toEqual({ items: [], isIncomplete: false });
+    await tsgo.getDefinition(uri, content, 1, 6);
+    expect(tools.tsgoRequests().map((r) => r.type)).toEqual(['definition']);
+  });
+
+  it('stops using tsgo when its processes keep crashing', async () => {
+    tools = new FakeTools();
+    tools.setTsgo({ crashOnStart: true });
+    const bridge = await startBridge(tools.config());
+
+    await vi.waitFor(
+      () => expect(bridge.getSubsystemHealth()).toContainEqual(
+        expect.objectContaining({ tool: 'tsgo', status: 'down' }),
+      ),
+      { timeout: 10_000, interval: 50 },
+    );
+    expect(bridge.getSubsystemHealth()).toContainEqual({ tool: 'oxc', status: 'up' });
+
+    const result = await bridge.analyzeFile(uri, content, true);
+    expect(sources(result.diagnostics)).toEqual(['oxc']);
+    expect(tools.tsgoRequests()).toEqual([]);
+  });
+});
@@ -1,13 +1,40 @@
+import { readFileSync } from 'node:fs';
+import { readFile } from 'node:fs/promises';
+import * as path from 'node:path';
 import type {
   TsgoTurboConfig,
   FileAnalysisResult,
+  ProcessInfo,
+  SubsystemHealth,
   TurbodiagnosticItem,
 } from '@tsgo-turbo/shared';
+import {
+  CancellationTokenSource,
+  type CancellationToken,
+  type TextDocumentContentChangeEvent,
+} from 'vscode-languageserver';
+import { URI } from 'vscode-uri';
 import type { Logger } from '../logger/index.js';
 import type { PerfTracer } from '../logger/performance.js';
-import { TsgoIntegration } from './tsgo.js';
+import {
+  TsgoIntegration,
+  type TsgoAnalysisResult,
+  type TsgoDocumentSymbol,
+  type TsgoSemanticToken,
+} from './tsgo.js';
 import { OxcIntegration } from './oxc.js';
+import type { OxcRuleInfo } from './ruleInfo.js';
+import { poolBounds } from './poolSizing.js';
+import { createFormatter, type FormatterIntegration } from './formatter.js';
 import { FileCache } from '../cache/fileCache.js';
+import type { DiskCache } from '../cache/diskCache.js';
+import { CancelledError } from './cancellation.js';
+import {
+  UnavailableError,
+  type CircuitBreaker,
+  type CircuitState,
+} from './circuitBreaker.js';
+import { resolveRelativeImports } from '../workspace/imports.js';
 
 /**
  * Priority levels for analysis queue items.
@@ -22,6 +49,25 @@ export enum AnalysisPriority {
   Background = 2,
 }
 
+/**
+ * Listener notified whenever a file's outline is (re)computed.
+ */
+export type SymbolsListener = (uri: string, symbols: TsgoDocumentSymbol[]) => void;
+
+/**
+ * Listener notified with the URIs a file imports each time it is analyzed.
+ */
+export type ImportsListener = (uri: string, imports: string[]) => void;
+
+/**
+ * Listener notified when a tool's circuit breaker changes state.
+ */
+export type HealthListener = (
+  tool: SubsystemHealth['tool'],
+  state: CircuitState,
+  previous: CircuitState,
+) => void;
+
 /**
  * An item in the analysis queue.
  */
@@ -33,6 +79,19 @@ interface QueueItem {
   resolve: (result: FileAnalysisResult) => void;
   reject: (error: Error) => void;
   enqueuedAt: number;
+  /** Callers still waiting for the result; cancelled when it drops to 0. */
+  waiters: number;
+  /** Cancels the tool requests once every waiter has cancelled. */
+  cancellation: CancellationTokenSource;
+}
+
+/**
+ * A stored tsgo result, with the content hashes of the files it imports as
+ * they were when it was stored (null for a file that could not be read).
+ */
+interface StoredTsgoResult {
+  result: TsgoAnalysisResult;
+  importHashes: Record<string, string | null>;
 }
 
 /**
@@ -57,13 +116,37 @@ interface QueueItem {
 export class AnalysisBridge {
   private readonly tsgo: TsgoIntegration;
   private readonly oxc: OxcIntegration;
+  private readonly formatter: FormatterIntegration;
   private readonly cache: FileCache<FileAnalysisResult>;
+  private readonly semanticTokensCache: FileCache<TsgoSemanticToken[]>;
+  private readonly symbolsCache: FileCache<TsgoDocumentSymbol[]>;
+  /** oxc results from a batch lint, used once by the file's next analysis. */
+  private readonly batchLintCache: FileCache<FileAnalysisResult>;
+  /**
+   * oxc results on their own, persisted to disk. They depend on nothing but
+   * the file and the config.
+   */
+  private readonly oxcCache: FileCache<FileAnalysisResult>;
+  /**
+   * tsgo results on their own, persisted to disk. They also depend on the
+   * files a file imports, so each is reused only while those are unchanged.
+   */
+  private readonly tsgoCache: FileCache<StoredTsgoResult>;
+  private readonly symbolsListeners: SymbolsListener[] = [];
+  private readonly importsListeners: ImportsListener[] = [];
+  private readonly healthListeners: HealthListener[] = [];
+  private diskCache: DiskCache | undefined;
+  private workspaceRoots: string[] = [];
   private readonly logger: Logger;
   private readonly perfTracer: PerfTracer;
   private config: TsgoTurboConfig;
   private readonly queue: QueueItem[] = [];
+  /** Queued or running analyses per URI, so identical requests can share a result. */
+  private readonly inFlight = new Map<
+    string,
+    { contentHash: string; promise: Promise<FileAnalysisResult>; item: QueueItem }
+  >();
   private processing = false;
-  private readonly maxConcurrentAnalyses: number;
   private activeAnalyses = 0;
   private filesAnalyzedCount = 0;
   private started = false;
@@ -72,18 +155,11 @@ export class AnalysisBridge {
    * @param config - full TsgoTurboConfig
    * @param logger - logger instance
    * @param perfTracer - performance tracer
-   * @param maxConcurrentAnalyses - max files analyzed simultaneously (default 4)
-   */
-  constructor(
-    config: TsgoTurboConfig,
-    logger: Logger,
-    perfTracer: PerfTracer,
-    maxConcurrentAnalyses = 4,
-  ) {
+   */
+  constructor(config: TsgoTurboConfig, logger: Logger, perfTracer: PerfTracer) {
     this.config = config;
     this.logger = logger;
     this.perfTracer = perfTracer;
-    this.maxConcurrentAnalyses = maxConcurrentAnalyses;
 
     this.tsgo = new TsgoIntegration(
       config.tsgo,
@@ -93,7 +169,24 @@ export class AnalysisBridge {
       config.oxc,
       logger.child({ component: 'oxc' }),
     );
+    this.formatter = createFormatter(
+      config.format,
+      logger.child({ component: 'format' }),
+    );
     this.cache = new FileCache<FileAnalysisResult>(config.cache);
+    this.semanticTokensCache = new FileCache<TsgoSemanticToken[]>(config.cache);
+    this.symbolsCache = new FileCache<TsgoDocumentSymbol[]>(config.cache);
+    this.batchLintCache = new FileCache<FileAnalysisResult>(config.cache);
+    this.oxcCache = new FileCache<FileAnalysisResult>(config.cache);
+    this.tsgoCache = new FileCache<StoredTsgoResult>(config.cache);
+
+    for (const [tool, breaker] of this.circuits()) {
+      breaker.onStateChange((state, previous) => {
+        for (const listener of this.healthListeners) {
+          listener(tool, state, previous);
+        }
+      });
+    }
   }
 
   /** Get the tsgo integration for direct access (hover, completions). */
@@ -106,6 +199,11 @@ export class AnalysisBridge {
     return this.oxc;
   }
 
+  /** Get the formatter integration for document formatting. */
+  get formatterIntegration(): FormatterIntegration {
+    return this.formatter;
+  }
+
   /** Total number of files analyzed since server start. */
   get totalFilesAnalyzed(): number {
     return this.filesAnalyzedCount;
@@ -139,6 +237,9 @@ export class AnalysisBridge {
     if (this.config.oxc.enabled) {
       startPromises.push(this.oxc.start());
     }
+    if (this.config.format.enabled) {
+      startPromises.push(this.formatter.start());
+    }
 
     const results = await Promise.allSettled(startPromises);
     for (const result of results) {
@@ -162,10 +263,16 @@ export class AnalysisBridge {
    * Checks cache first (unless force=true). Deduplicates concurrent requests
    * for the same file. Returns merged diagnostics from both tools.
    *
+   * Cancelling the token rejects this call with a CancelledError. The
+   * analysis itself is only dropped from the queue (or cancelled in tsgo)
+   * once every caller sharing it has cancelled; cancelled results are
+   * never cached.
+   *
    * @param uri - file URI
    * @param content - file content
    * @param force - skip cache and force re-analysis
    * @param priority - queue priority (default: Open)
+   * @param token - cancellation token of the requesting caller
    * @returns merged analysis result
    */
   async analyzeFile(
@@ -173,6 +280,7 @@ export class AnalysisBridge {
     content: string,
     force = false,
     priority: AnalysisPriority = AnalysisPriority.Open,
+    token?: CancellationToken,
   ): Promise<FileAnalysisResult> {
     const contentHash = FileCache.computeHash(content);
 
@@ -185,6 +293,12 @@ export class AnalysisBridge {
       }
     }
 
+    // Join an in-flight analysis of the same content rather than starting another
+    const inFlight = this.inFlight.get(uri);
+    if (!force && inFlight && inFlight.contentHash === contentHash) {
+      return this.waitFor(inFlight.item, inFlight.promise, token);
+    }
+
     // Deduplicate: if there's already a pending request for this URI, replace it
     const existingIdx = this.queue.findIndex((item) => item.uri === uri);
     if (existingIdx >= 0) {
@@ -195,8 +309,9 @@ export class AnalysisBridge {
     }
 
     // Enqueue the analysis
-    return new Promise<FileAnalysisResult>((resolve, reject) => {
-      this.queue.push({
+    let item!: QueueItem;
+    const promise = new Promise<FileAnalysisResult>((resolve, reject) => {
+      item = {
         uri,
         content,
         priority,
@@ -204,7 +319,10 @@ export class AnalysisBridge {
         resolve,
         reject,
         enqueuedAt: Date.now(),
-      });
+        waiters: 0,
+        cancellation: new CancellationTokenSource(),
+      };
+      this.queue.push(item);
 
       // Sort queue by priority (lower number = higher priority)
       this.queue.sort((a, b) => a.priority - b.priority);
@@ -212,6 +330,277 @@ export class AnalysisBridge {
       // Try to process
       this.processQueue();
     });
+
+    const entry = { contentHash, promise, item };
+    this.inFlight.set(uri, entry);
+    const clear = () => {
+      if (this.inFlight.get(uri) === entry) {
+        this.inFlight.delete(uri);
+      }
+      item.cancellation.dispose();
+    };
+    promise.then(clear, clear);
+
+    return this.waitFor(item, promise, token);
+  }
+
+  /**
+   * Register a caller waiting for a queued or running analysis. The
+   * returned promise rejects as soon as the caller's token is cancelled.
+   */
+  private waitFor(
+    item: QueueItem,
+    promise: Promise<FileAnalysisResult>,
+    token: CancellationToken | undefined,
+  ): Promise<FileAnalysisResult> {
+    item.waiters++;
+    if (!token) {
+      return promise;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onCancel = () => {
+        this.releaseWaiter(item);
+        reject(new CancelledError(`Analysis of ${item.uri} cancelled`));
+      };
+      if (token.isCancellationRequested) {
+        onCancel();
+        return;
+      }
+
+      const subscription = token.onCancellationRequested(() => {
+        subscription.dispose();
+        onCancel();
+      });
+      promise.then(
+        (result) => {
+          subscription.dispose();
+          resolve(result);
+        },
+        (err: Error) => {
+          subscription.dispose();
+          reject(err);
+        },
+      );
+    });
+  }
+
+  /**
+   * Drop a cancelled caller. When no caller is left, a queued analysis is
+   * removed without running and a running one is cancelled.
+   */
+  private releaseWaiter(item: QueueItem): void {
+    item.waiters--;
+    if (item.waiters > 0) {
+      return;
+    }
+
+    const idx = this.queue.indexOf(item);
+    if (idx >= 0) {
+      this.queue.splice(idx, 1);
+      item.reject(new CancelledError(`Analysis of ${item.uri} cancelled`));
+      this.logger.debug('Dropped queued analysis', { uri: item.uri });
+    } else {
+      item.cancellation.cancel();
+    }
+  }
+
+  /**
+   * Get semantic tokens for a file from tsgo.
+   *
+   * Token arrays are cached by content hash like analysis results, so
+   * re-requests for unchanged content (tab switches, delta requests) never
+   * reach tsgo. Failed requests are not cached.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @returns semantic tokens (empty when tsgo is disabled or fails)
+   */
+  async getSemanticTokens(
+    uri: string,
+    content: string,
+  ): Promise<TsgoSemanticToken[]> {
+    if (!this.config.tsgo.enabled) {
+      return [];
+    }
+
+    const contentHash = FileCache.computeHash(content);
+    if (this.config.cache.enabled) {
+      const cached = this.semanticTokensCache.get(uri, contentHash);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const tokens = await this.tsgo.getSemanticTokens(uri, content);
+    if (!tokens) {
+      return [];
+    }
+    if (this.config.cache.enabled) {
+      this.semanticTokensCache.set(uri, contentHash, tokens);
+    }
+    return tokens;
+  }
+
+  /**
+   * Get the hierarchical outline of a file from tsgo, cached by content hash.
+   *
+   * Outlines also arrive as a by-product of analysis; both paths notify
+   * {@link onSymbolsUpdated} listeners.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @returns document symbols (empty when tsgo is disabled or fails)
+   */
+  async getDocumentSymbols(
+    uri: string,
+    content: string,
+  ): Promise<TsgoDocumentSymbol[]> {
+    if (!this.config.tsgo.enabled) {
+      return [];
+    }
+
+    const contentHash = FileCache.computeHash(content);
+    if (this.config.cache.enabled) {
+      const cached = this.symbolsCache.get(uri, contentHash);
+      if (cached) {
+        return cached;
+      }
+    }
+
+    const symbols = await this.tsgo.getDocumentSymbols(uri, content);
+    if (!symbols) {
+      return [];
+    }
+    this.recordSymbols(uri, contentHash, symbols);
+    return symbols;
+  }
+
+  /**
+   * Register a listener for outline updates, e.g. to maintain a workspace
+   * symbol index.
+   *
+   * @returns a function that unregisters the listener
+   */
+  onSymbolsUpdated(listener: SymbolsListener): () => void {
+    this.symbolsListeners.push(listener);
+    return () => {
+      const idx = this.symbolsListeners.indexOf(listener);
+      if (idx >= 0) {
+        this.symbolsListeners.splice(idx, 1);
+      }
+    };
+  }
+
+  /**
+   * Register a listener for import edges, e.g. to maintain a dependency
+   * graph. Imports come from tsgo's module resolution when available and
+   * otherwise from a scan of the file's relative imports.
+   *
+   * @returns a function that unregisters the listener
+   */
+  onImportsUpdated(listener: ImportsListener): () => void {
+    this.importsListeners.push(listener);
+    return () => {
+      const idx = this.importsListeners.indexOf(listener);
+      if (idx >= 0) {
+        this.importsListeners.splice(idx, 1);
+      }
+    };
+  }
+
+  /**
+   * Register a listener for tools going down, being probed, or recovering.
+   *
+   * @returns a function that unregisters the listener
+   */
+  onHealthChanged(listener: HealthListener): () => void {
+    this.healthListeners.push(listener);
+    return () => {
+      const idx = this.healthListeners.indexOf(listener);
+      if (idx >= 0) {
+        this.healthListeners.splice(idx, 1);
+      }
+    };
+  }
+
+  /**
+   * Health of each enabled tool, derived from its circuit breaker.
+   */
+  getSubsystemHealth(): SubsystemHealth[] {
+    const health: SubsystemHealth[] = [];
+    for (const [tool, breaker] of this.circuits()) {
+      if (!this.config[tool].enabled) {
+        continue;
+      }
+      const entry: SubsystemHealth = {
+        tool,
+        status:
+          breaker.state === 'closed' ? 'up' : breaker.state === 'open' ? 'down' : 'probing',
+      };
+      if (breaker.reason !== undefined) {
+        entry.reason = breaker.reason;
+      }
+      if (breaker.retryAt !== undefined) {
+        entry.retryAt = breaker.retryAt;
+      }
+      health.push(entry);
+    }
+    return health;
+  }
+
+  /**
+   * Persist tsgo and oxc results to disk, or stop persisting them. Call
+   * after {@link start} so the tool versions are known. A tsgo result is
+   * stored with the content hashes of the files it imports and reused only
+   * while they match: a change further down the import chain is not seen.
+   *
+   * @param disk - the disk store, or undefined to keep results in memory only
+   */
+  setDiskCache(disk: DiskCache | undefined): void {
+    this.diskCache = disk;
+    this.refreshCacheNamespace();
+  }
+
+  /**
+   * Re-read the config files behind {@link cacheNamespace}, so results
+   * produced under a previous version of them are no longer reused. Call
+   * when a tsconfig or oxlint config file changes.
+   */
+  refreshCacheNamespace(): void {
+    const namespace = this.cacheNamespace;
+    // Merged results stay in memory, under the namespace so they go with it
+    this.cache.setPersistence(undefined, namespace);
+    // Both tools store results under the same URIs and content hashes
+    this.oxcCache.setPersistence(this.diskCache, `${namespace}:oxc`);
+    this.tsgoCache.setPersistence(this.diskCache, `${namespace}:tsgo`);
+  }
+
+  /**
+   * Identifies what produced an analysis result: the tool versions, the
+   * config affecting diagnostics and the contents of the tsconfig and
+   * oxlint config files. Persisted results are only reused under the same
+   * namespace.
+   */
+  get cacheNamespace(): string {
+    return FileCache.computeHash(
+      JSON.stringify({
+        tsgo: this.config.tsgo.enabled && {
+          version: this.tsgo.version ?? this.tsgo.binaryInfo.path,
+          flags: this.config.tsgo.flags,
+          maxTypeDepth: this.config.tsgo.maxTypeDepth,
+          tsconfigs: this.workspaceRoots.map((root) =>
+            hashFile(path.join(root, 'tsconfig.json')),
+          ),
+        },
+        oxc: this.config.oxc.enabled && {
+          version: this.oxc.version ?? this.config.oxc.binaryPath ?? null,
+          configPath: this.config.oxc.configPath ?? null,
+          configFile: hashFile(this.oxc.configFile),
+          rules: this.config.oxc.rules ?? null,
+        },
+      }),
+    );
   }
 
   /**
@@ -219,6 +608,9 @@ export class AnalysisBridge {
    */
   invalidateCache(uri: string): void {
     this.cache.invalidate(uri);
+    this.semanticTokensCache.invalidate(uri);
+    this.symbolsCache.invalidate(uri);
+    this.batchLintCache.invalidate(uri);
   }
 
   /**
@@ -226,6 +618,11 @@ export class AnalysisBridge {
    */
   clearCache(): void {
     this.cache.clear();
+    this.semanticTokensCache.clear();
+    this.symbolsCache.clear();
+    this.batchLintCache.clear();
+    this.oxcCache.clear();
+    this.tsgoCache.clear();
     this.logger.info('All caches cleared');
   }
 
@@ -243,31 +640,141 @@ export class AnalysisBridge {
     this.config = config;
     this.tsgo.updateConfig(config.tsgo);
     this.oxc.updateConfig(config.oxc);
+    // Batch results may be for the old rules
+    this.batchLintCache.clear();
+    this.formatter.updateConfig(config.format);
+    // Results from the previous config are kept on disk under their namespace
+    this.refreshCacheNamespace();
+    // The concurrency limit follows the pool sizes
+    this.processQueue();
     this.logger.info('Analysis bridge configuration updated');
   }
 
+  /**
+   * Track a document opened in the editor, so tsgo workers can keep a
+   * snapshot of it and the oxlint language server keeps it open.
+   */
+  openDocument(uri: string, version: number, content: string): void {
+    this.tsgo.openDocument(uri, version, content);
+    this.oxc.openDocument(uri);
+  }
+
+  /**
+   * Forward an edit of an open document to the tsgo workers.
+   *
+   * @param uri - document URI
+   * @param version - version after the edit
+   * @param content - content after the edit
+   * @param changes - the edit, as received from the client
+   */
+  changeDocument(
+    uri: string,
+    version: number,
+    content: string,
+    changes: TextDocumentContentChangeEvent[],
+  ): void {
+    this.tsgo.changeDocument(uri, version, content, changes);
+  }
+
+  /**
+   * Lint files on disk with oxc in as few runs as possible, ahead of
+   * analyzing them. Each file's result is held until its next analysis,
+   * which uses it instead of linting the file on its own as long as the
+   * content still matches. This hand-off works with `cache.enabled` off too.
+   *
+   * @param uris - file URIs to lint
+   * @param token - cancels the remaining runs
+   * @returns the number of files linted
+   */
+  async lintWorkspace(uris: string[], token?: CancellationToken): Promise<number> {
+    if (!this.config.oxc.enabled || this.oxc.circuit.isOpen) {
+      return 0;
+    }
+
+    const results = await this.oxc.lintBatch(uris, token);
+    for (const [uri, result] of results) {
+      this.batchLintCache.set(uri, result.contentHash, result);
+    }
+    return results.size;
+  }
+
+  /**
+   * Lint content with oxc for its auto-fixes.
+   *
+   * @param uri - document URI
+   * @param content - content to lint
+   * @returns oxc diagnostics, or none when oxc is disabled or down
+   */
+  async lintForFixes(uri: string, content: string): Promise<TurbodiagnosticItem[]> {
+    if (!this.config.oxc.enabled || this.oxc.circuit.isOpen) {
+      return [];
+    }
+    return this.oxc.lintForFixes(uri, content);
+  }
+
+  /**
+   * Describe the oxc rule behind a diagnostic code.
+   *
+   * @param code - the diagnostic code
+   * @returns the rule, or undefined when oxc is disabled or the code names none
+   */
+  async oxcRuleInfo(code: string): Promise<OxcRuleInfo | undefined> {
+    if (!this.config.oxc.enabled) {
+      return undefined;
+    }
+    return this.oxc.ruleInfo(code);
+  }
+
+  /**
+   * Stop tracking a document closed in the editor, in tsgo and in the
+   * oxlint language server.
+   */
+  closeDocument(uri: string): void {
+    this.tsgo.closeDocument(uri);
+    this.oxc.closeDocument(uri);
+  }
+
+  /**
+   * Set the workspace folders, which may hold the tsgo binary to use and
+   * root the oxlint language server.
+   *
+   * @param roots - file system paths of the workspace folders
+   */
+  setWorkspaceRoots(roots: string[]): void {
+    this.tsgo.setWorkspaceRoots(roots);
+    this.oxc.setWorkspaceRoots(roots);
+    this.workspaceRoots = roots;
+    this.refreshCacheNamespace();
+  }
+
   /**
    * Get information about active tool processes.
+   *
+   * oxc processes live for a single lint, too briefly to sample, so only
+   * tsgo processes report memory and CPU usage.
    */
-  getProcessInfo() {
-    return [
-      ...this.tsgo.getProcessInfo().map((p) => ({
-        ...p,
-        tool: 'tsgo' as const,
-        memoryMb: 0,
-        cpuPercent: 0,
-      })),
-      ...this.oxc.getProcessInfo().map((p) => ({
-        ...p,
-        memoryMb: 0,
-        cpuPercent: 0,
-        activeFile: undefined,
-      })),
-    ];
+  getProcessInfo(): ProcessInfo[] {
+    const tsgoProcesses = this.tsgo.getProcessInfo().map((p) => {
+      const info: ProcessInfo = {
+        pid: p.pid,
+        tool: 'tsgo',
+        memoryMb: p.memoryMb,
+        cpuPercent: p.cpuPercent,
+        startedAt: p.startedAt,
+      };
+      if (p.activeFile) {
+        info.activeFile = p.activeFile;
+      }
+      return info;
+    });
+    const oxcProcesses = this.oxc.getProcessInfo().map(
+      (p): ProcessInfo => ({ ...p, memoryMb: 0, cpuPercent: 0 }),
+    );
+    return [...tsgoProcesses, ...oxcProcesses];
   }
 
   /**
-   * Gracefully shut down both integrations.
+   * Gracefully shut down all integrations.
    */
   async shutdown(): Promise<void> {
     this.logger.info('Shutting down analysis bridge');
@@ -281,6 +788,7 @@ export class AnalysisBridge {
     await Promise.allSettled([
       this.tsgo.shutdown(),
       this.oxc.shutdown(),
+      this.formatter.shutdown(),
     ]);
 
     this.started = false;
@@ -314,6 +822,23 @@ export class AnalysisBridge {
     }
   }
 
+  private circuits(): Array<[SubsystemHealth['tool'], CircuitBreaker]> {
+    return [
+      ['tsgo', this.tsgo.circuit],
+      ['oxc', this.oxc.circuit],
+    ];
+  }
+
+  /**
+   * Files analyzed at once: as many as the tsgo pool can grow to, or the
+   * oxc concurrency when tsgo is disabled.
+   */
+  private get maxConcurrentAnalyses(): number {
+    return this.config.tsgo.enabled
+      ? poolBounds(this.config.tsgo).max
+      : this.config.oxc.maxConcurrency;
+  }
+
   /**
    * Execute analysis for a single queue item.
    * Runs tsgo and oxc in parallel and merges the results.
@@ -329,48 +854,75 @@ export class AnalysisBridge {
 
     try {
       const promises: Promise<FileAnalysisResult>[] = [];
+      let tsgoImports: string[] | undefined;
+      // A tool skipped while its circuit is open, or failing, leaves the
+      // result partial
+      let partial = false;
 
-      // Run tsgo if enabled
-      if (this.config.tsgo.enabled) {
+      // Run tsgo if enabled and not down
+      if (this.config.tsgo.enabled && this.tsgo.circuit.isOpen) {
+        partial = true;
+      } else if (this.config.tsgo.enabled) {
         const tsgoSpanId = this.perfTracer.startSpan('tsgo.analyze', spanId, {
           uri: item.uri,
         });
         promises.push(
-          this.tsgo
-            .analyze(item.uri, item.content)
+          this.check(item, contentHash)
+            .then((result) => {
+              if (result.symbols) {
+                this.recordSymbols(item.uri, contentHash, result.symbols);
+              }
+              tsgoImports = result.imports;
+              return result;
+            })
             .finally(() => this.perfTracer.endSpan(tsgoSpanId)),
         );
       }
 
-      // Run oxc if enabled
-      if (this.config.oxc.enabled) {
-        const oxcSpanId = this.perfTracer.startSpan('oxc.lint', spanId, {
-          uri: item.uri,
-        });
-        promises.push(
-          this.oxc
-            .lint(item.uri, item.content)
-            .finally(() => this.perfTracer.endSpan(oxcSpanId)),
-        );
+      // Run oxc if enabled and not down
+      if (this.config.oxc.enabled && this.oxc.circuit.isOpen) {
+        partial = true;
+      } else if (this.config.oxc.enabled) {
+        const batched = this.batchLintCache.get(item.uri, contentHash);
+        if (batched) {
+          this.batchLintCache.invalidate(item.uri);
+          promises.push(Promise.resolve(batched));
+        } else {
+          promises.push(this.lint(item, contentHash, spanId));
+        }
       }
 
       // Wait for all tools to complete
       const results = await Promise.allSettled(promises);
       const analysisTimeMs = Date.now() - startTime;
 
+      if (item.cancellation.token.isCancellationRequested) {
+        this.perfTracer.endSpan(spanId, { cancelled: true });
+        item.reject(new CancelledError(`Analysis of ${item.uri} cancelled`));
+        return;
+      }
+
+      void this.recordImports(item.uri, item.content, tsgoImports);
+
       // Merge diagnostics from all successful results
       const allDiagnostics: TurbodiagnosticItem[] = [];
       for (const result of results) {
         if (result.status === 'fulfilled') {
           allDiagnostics.push(...result.value.diagnostics);
+          if (result.value.partial) {
+            partial = true;
+          }
         } else {
-          this.logger.warn('Tool analysis failed', {
-            uri: item.uri,
-            error:
-              result.reason instanceof Error
-                ? result.reason.message
-                : String(result.reason),
-          });
+          partial = true;
+          if (!(result.reason instanceof UnavailableError)) {
+            this.logger.warn('Tool analysis failed', {
+              uri: item.uri,
+              error:
+                result.reason instanceof Error
+                  ? result.reason.message
+                  : String(result.reason),
+            });
+          }
         }
       }
 
@@ -384,9 +936,12 @@ export class AnalysisBridge {
         cached: false,
         contentHash,
       };
+      if (partial) {
+        mergedResult.partial = true;
+      }
 
-      // Cache the result
-      if (this.config.cache.enabled) {
+      // Cache the result, unless a tool's diagnostics are missing from it
+      if (this.config.cache.enabled && !partial) {
         this.cache.set(item.uri, contentHash, mergedResult);
       }
 
@@ -414,10 +969,154 @@ export class AnalysisBridge {
         analysisTimeMs: Date.now() - startTime,
         cached: false,
         contentHash,
+        partial: true,
       });
     }
   }
 
+  /**
+   * Cache a file's outline and notify listeners.
+   */
+  private recordSymbols(
+    uri: string,
+    contentHash: string,
+    symbols: TsgoDocumentSymbol[],
+  ): void {
+    if (this.config.cache.enabled) {
+      this.symbolsCache.set(uri, contentHash, symbols);
+    }
+    for (const listener of this.symbolsListeners) {
+      try {
+        listener(uri, symbols);
+      } catch (err) {
+        this.logger.warn('Symbols listener failed', {
+          uri,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+
+  /**
+   * Lint a queued file with oxc, reusing a stored result for the same
+   * content unless the analysis is forced.
+   */
+  private async lint(
+    item: QueueItem,
+    contentHash: string,
+    parentSpanId: string,
+  ): Promise<FileAnalysisResult> {
+    const useCache = this.config.cache.enabled && !item.force;
+    if (useCache) {
+      const stored = await this.oxcCache.load(item.uri, contentHash);
+      if (stored) {
+        return stored;
+      }
+    }
+
+    const spanId = this.perfTracer.startSpan('oxc.lint', parentSpanId, { uri: item.uri });
+    try {
+      const result = await this.oxc.lint(item.uri, item.content);
+      if (this.config.cache.enabled && !result.partial) {
+        this.oxcCache.set(item.uri, contentHash, result);
+      }
+      return result;
+    } finally {
+      this.perfTracer.endSpan(spanId);
+    }
+  }
+
+  /**
+   * Analyze a queued file with tsgo, reusing a stored result for the same
+   * content whose imports are unchanged, unless the analysis is forced.
+   */
+  private async check(item: QueueItem, contentHash: string): Promise<TsgoAnalysisResult> {
+    const useCache = this.config.cache.enabled && !item.force;
+    if (useCache) {
+      const stored = await this.tsgoCache.load(item.uri, contentHash);
+      if (stored && (await this.importsUnchanged(stored.importHashes))) {
+        return stored.result;
+      }
+    }
+
+    const result = await this.tsgo.analyze(item.uri, item.content, item.cancellation.token);
+    // Without its imports a result cannot be checked against them
+    if (this.config.cache.enabled && !result.partial && result.imports) {
+      const importHashes: Record<string, string | null> = {};
+      for (const uri of result.imports) {
+        importHashes[uri] = await this.hashDocument(uri);
+      }
+      this.tsgoCache.set(item.uri, contentHash, { result, importHashes });
+    }
+    return result;
+  }
+
+  /**
+   * Whether every file in `importHashes` still has the recorded content.
+   */
+  private async importsUnchanged(importHashes: Record<string, string | null>): Promise<boolean> {
+    for (const [uri, hash] of Object.entries(importHashes)) {
+      if ((await this.hashDocument(uri)) !== hash) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Hash of a file's content: that of the open document, else that on disk,
+   * or null when it cannot be read.
+   */
+  private async hashDocument(uri: string): Promise<string | null> {
+    const open = this.tsgo.documentContent(uri);
+    if (open !== undefined) {
+      return FileCache.computeHash(open);
+    }
+    try {
+      return FileCache.computeHash(await readFile(URI.parse(uri).fsPath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Notify listeners of a file's imports, scanning its relative imports when
+   * tsgo did not report them.
+   */
+  private async recordImports(
+    uri: string,
+    content: string,
+    tsgoImports: string[] | undefined,
+  ): Promise<void> {
+    if (this.importsListeners.length === 0) {
+      return;
+    }
+
+    let imports = tsgoImports;
+    if (!imports) {
+      try {
+        imports = await resolveRelativeImports(uri, content);
+      } catch (err) {
+        this.logger.warn('Import scan failed', {
+          uri,
+          error: err instanceof Error ? err.message : String(err),
+        });
+        return;
+      }
+    }
+
+    for (const listener of this.importsListeners) {
+      try {
+        listener(uri, imports);
+      } catch (err) {
+        this.logger.warn('Imports listener failed', {
+          uri,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+
   /**
    * Deduplicate diagnostics that have the same file, line, column, and message.
    * Prefers the version from the more authoritative source (tsgo > oxc).
@@ -441,3 +1140,14 @@ export class AnalysisBridge {
     return Array.from(seen.values());
   }
 }
+
+/**
+ * Hash of a file's contents, or null when it cannot be read.
+ */
+function hashFile(filePath: string): string | null {
+  try {
+    return FileCache.computeHash(readFileSync(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
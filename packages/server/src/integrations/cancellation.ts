@@ -0,0 +1,13 @@
+/**
+ * Error raised when a tool request is cancelled before it completes, e.g.
+ * because the LSP client cancelled the request that needed it.
+ *
+ * Callers should treat it as a normal outcome: log at debug level and
+ * never cache or publish anything derived from the cancelled request.
+ */
+export class CancelledError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CancelledError';
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { DEFAULT_CONFIG } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import { CircuitBreaker, type CircuitState } from './circuitBreaker.js';
+
+const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+
+const options = {
+  failureThreshold: 3,
+  windowMs: 1_000,
+  initialBackoffMs: 100,
+  maxBackoffMs: 300,
+};
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('opens after repeated failures within the window and closes on a successful probe', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker('tsgo', logger, options);
+    const states: CircuitState[] = [];
+    breaker.onStateChange((state) => states.push(state));
+
+    breaker.recordFailure('crash 1');
+    vi.advanceTimersByTime(1_500);
+    breaker.recordFailure('crash 2');
+    breaker.recordFailure('crash 3');
+    expect(breaker.state).toBe('closed');
+
+    breaker.recordFailure('crash 4');
+    expect(breaker.isOpen).toBe(true);
+    expect(breaker.reason).toBe('crash 4');
+    expect(breaker.retryAt).toBe(Date.now() + 100);
+
+    vi.advanceTimersByTime(100);
+    expect(breaker.state).toBe('halfOpen');
+    breaker.recordSuccess();
+    expect(breaker.state).toBe('closed');
+    expect(breaker.reason).toBeUndefined();
+    expect(states).toEqual(['open', 'halfOpen', 'closed']);
+  });
+
+  it('backs off exponentially while probes fail', () => {
+    vi.useFakeTimers();
+    const breaker = new CircuitBreaker('oxc', logger, { ...options, failureThreshold: 1 });
+
+    breaker.recordFailure('missing binary');
+    const delays: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      delays.push(breaker.retryAt! - Date.now());
+      vi.advanceTimersByTime(delays[i]);
+      expect(breaker.state).toBe('halfOpen');
+      breaker.recordFailure('missing binary');
+    }
+
+    expect(delays).toEqual([100, 200, 300]);
+    breaker.dispose();
+  });
+});
@@ -0,0 +1,240 @@
+import type { Logger } from '../logger/index.js';
+
+/**
+ * State of a {@link CircuitBreaker}:
+ * - `closed` — the tool is in use.
+ * - `open` — the tool failed too often and is not used until the next probe.
+ * - `halfOpen` — probing: the tool is tried again, and the next success
+ *   closes the circuit while the next failure opens it for longer.
+ */
+export type CircuitState = 'closed' | 'open' | 'halfOpen';
+
+/**
+ * Thresholds and backoff of a {@link CircuitBreaker}.
+ */
+export interface CircuitBreakerOptions {
+  /** Failures within `windowMs` that open the circuit */
+  failureThreshold: number;
+  /** Sliding window (ms) in which failures are counted */
+  windowMs: number;
+  /** Delay (ms) before the first probe after the circuit opens */
+  initialBackoffMs: number;
+  /** Upper bound (ms) on the delay between probes */
+  maxBackoffMs: number;
+}
+
+/** Options used by the tsgo and oxc integrations. */
+export const DEFAULT_CIRCUIT_BREAKER_OPTIONS: CircuitBreakerOptions = {
+  failureThreshold: 5,
+  windowMs: 60_000,
+  initialBackoffMs: 5_000,
+  maxBackoffMs: 5 * 60_000,
+};
+
+/**
+ * Error raised for a request to a tool whose circuit is open.
+ *
+ * Callers should skip the tool rather than retry; it is probed again on
+ * its own once the backoff expires.
+ */
+export class UnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnavailableError';
+  }
+}
+
+/**
+ * Listener for circuit state changes.
+ */
+export type CircuitStateListener = (
+  state: CircuitState,
+  previous: CircuitState,
+) => void;
+
+/**
+ * CircuitBreaker stops using a tool that keeps failing.
+ *
+ * The owning integration reports each failure and success. Once
+ * `failureThreshold` failures fall within `windowMs`, the circuit opens:
+ * callers skip the tool, and after a backoff the circuit moves to
+ * `halfOpen` so the tool is probed again. A failed probe re-opens the
+ * circuit with the backoff doubled (up to `maxBackoffMs`); a successful one
+ * closes it and resets the backoff.
+ *
+ * @example
+ * ```ts
+ * const breaker = new CircuitBreaker('tsgo', logger);
+ * breaker.onStateChange((state) => logger.info('tsgo circuit', { state }));
+ * if (!breaker.isOpen) {
+ *   try {
+ *     await run();
+ *     breaker.recordSuccess();
+ *   } catch (err) {
+ *     breaker.recordFailure(String(err));
+ *   }
+ * }
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly name: string;
+  private readonly logger: Logger;
+  private readonly options: CircuitBreakerOptions;
+  private currentState: CircuitState = 'closed';
+  private failureTimes: number[] = [];
+  private backoffMs: number;
+  private lastFailure: string | undefined;
+  private nextProbeAt: number | undefined;
+  private probeTimer: ReturnType<typeof setTimeout> | undefined;
+  private readonly listeners: CircuitStateListener[] = [];
+
+  /**
+   * @param name - tool name, used in logs
+   * @param logger - logger instance
+   * @param options - thresholds and backoff
+   */
+  constructor(
+    name: string,
+    logger: Logger,
+    options: CircuitBreakerOptions = DEFAULT_CIRCUIT_BREAKER_OPTIONS,
+  ) {
+    this.name = name;
+    this.logger = logger;
+    this.options = options;
+    this.backoffMs = options.initialBackoffMs;
+  }
+
+  get state(): CircuitState {
+    return this.currentState;
+  }
+
+  /** Whether callers should skip the tool. */
+  get isOpen(): boolean {
+    return this.currentState === 'open';
+  }
+
+  /** The failure that opened the circuit, while it is not closed. */
+  get reason(): string | undefined {
+    return this.currentState === 'closed' ? undefined : this.lastFailure;
+  }
+
+  /** When the next probe starts (epoch ms), while the circuit is open. */
+  get retryAt(): number | undefined {
+    return this.currentState === 'open' ? this.nextProbeAt : undefined;
+  }
+
+  /**
+   * Record a successful use of the tool. Closes a probing circuit.
+   */
+  recordSuccess(): void {
+    if (this.currentState !== 'halfOpen') {
+      return;
+    }
+    this.logger.info(`${this.name} recovered`);
+    this.failureTimes = [];
+    this.backoffMs = this.options.initialBackoffMs;
+    this.lastFailure = undefined;
+    this.setState('closed');
+  }
+
+  /**
+   * Record a failure of the tool. Opens the circuit when the threshold is
+   * reached, or at once while probing.
+   *
+   * @param reason - what failed, shown to the user while the circuit is open
+   */
+  recordFailure(reason: string): void {
+    this.lastFailure = reason;
+
+    if (this.currentState === 'open') {
+      return;
+    }
+    if (this.currentState === 'halfOpen') {
+      this.backoffMs = Math.min(this.backoffMs * 2, this.options.maxBackoffMs);
+      this.open();
+      return;
+    }
+
+    const now = Date.now();
+    this.failureTimes = this.failureTimes.filter(
+      (time) => now - time < this.options.windowMs,
+    );
+    this.failureTimes.push(now);
+    if (this.failureTimes.length >= this.options.failureThreshold) {
+      this.open();
+    }
+  }
+
+  /**
+   * Register a listener for state changes.
+   *
+   * @returns a function that unregisters the listener
+   */
+  onStateChange(listener: CircuitStateListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const idx = this.listeners.indexOf(listener);
+      if (idx >= 0) {
+        this.listeners.splice(idx, 1);
+      }
+    };
+  }
+
+  /**
+   * Close the circuit and forget past failures, e.g. after the tool's
+   * configuration changed.
+   */
+  reset(): void {
+    this.clearProbeTimer();
+    this.failureTimes = [];
+    this.backoffMs = this.options.initialBackoffMs;
+    this.lastFailure = undefined;
+    if (this.currentState !== 'closed') {
+      this.setState('closed');
+    }
+  }
+
+  /**
+   * Stop the pending probe timer.
+   */
+  dispose(): void {
+    this.clearProbeTimer();
+  }
+
+  private open(): void {
+    this.clearProbeTimer();
+    this.nextProbeAt = Date.now() + this.backoffMs;
+    this.logger.warn(`${this.name} disabled after repeated failures`, {
+      reason: this.lastFailure,
+      retryInMs: this.backoffMs,
+    });
+    this.probeTimer = setTimeout(() => {
+      this.probeTimer = undefined;
+      this.logger.info(`Probing ${this.name}`);
+      this.setState('halfOpen');
+    }, this.backoffMs);
+    this.setState('open');
+  }
+
+  private clearProbeTimer(): void {
+    if (this.probeTimer) {
+      clearTimeout(this.probeTimer);
+      this.probeTimer = undefined;
+    }
+  }
+
+  private setState(state: CircuitState): void {
+    const previous = this.currentState;
+    this.currentState = state;
+    for (const listener of this.listeners) {
+      try {
+        listener(state, previous);
+      } catch (err) {
+        this.logger.warn('Circuit state listener failed', {
+          tool: this.name,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { DocumentSync } from './documentSync.js';
+
+const uri = 'file:///project/src/a.ts';
+const edit = {
+  range: { start: { line: 0, character: 6 }, end: { line: 0, character: 7 } },
+  text: 'b',
+};
+
+describe('DocumentSync', () => {
+  it('sends a document once per worker, then only its edits', () => {
+    const sync = new DocumentSync();
+    sync.open(uri, 1, 'const a = 1;');
+
+    expect(sync.syncFor(10, uri, 'const a = 1;')).toEqual({
+      messages: [{ type: 'open', uri, version: 1, content: 'const a = 1;' }],
+      version: 1,
+    });
+    expect(sync.syncFor(10, uri, 'const a = 1;')).toEqual({ messages: [], version: 1 });
+
+    expect(sync.change(uri, 2, 'const b = 1;', [edit])).toEqual([
+      {
+        pid: 10,
+        message: {
+          type: 'change',
+          uri,
+          version: 2,
+          changes: [{ line: 0, column: 6, endLine: 0, endColumn: 7, newText: 'b' }],
+        },
+      },
+    ]);
+    expect(sync.syncFor(10, uri, 'const b = 1;')).toEqual({ messages: [], version: 2 });
+    // Stale content, e.g. from a request that raced the edit, is sent inline
+    expect(sync.syncFor(10, uri, 'const a = 1;')).toEqual({ messages: [], version: undefined });
+
+    expect(sync.close(uri)).toEqual([{ pid: 10, message: { type: 'close', uri } }]);
+    expect(sync.syncFor(10, uri, 'const b = 1;').version).toBeUndefined();
+  });
+
+  it('resyncs workers that restarted or missed a full-document change', () => {
+    const sync = new DocumentSync();
+    sync.open(uri, 1, 'const a = 1;');
+    sync.syncFor(10, uri, 'const a = 1;');
+    sync.syncFor(11, uri, 'const a = 1;');
+
+    expect(sync.change(uri, 2, 'let a = 2;', [{ text: 'let a = 2;' }])).toEqual([]);
+    expect(sync.syncFor(10, uri, 'let a = 2;').messages).toEqual([
+      { type: 'open', uri, version: 2, content: 'let a = 2;' },
+    ]);
+
+    sync.forgetWorker(10);
+    expect(sync.syncFor(10, uri, 'let a = 2;').messages).toHaveLength(1);
+  });
+});
@@ -0,0 +1,180 @@
+import type { TextDocumentContentChangeEvent } from 'vscode-languageserver';
+import { IPC_MESSAGES } from '@tsgo-turbo/shared';
+import type { TsgoTextEdit } from './tsgo.js';
+
+/**
+ * Document notification for a tsgo worker. Workers keep a snapshot of each
+ * opened document, so requests can refer to it by version instead of
+ * carrying the content.
+ */
+export type DocumentSyncMessage =
+  | { type: typeof IPC_MESSAGES.OPEN; uri: string; version: number; content: string }
+  | { type: typeof IPC_MESSAGES.CHANGE; uri: string; version: number; changes: TsgoTextEdit[] }
+  | { type: typeof IPC_MESSAGES.CLOSE; uri: string };
+
+/** A notification addressed to one worker. */
+export interface WorkerMessage {
+  pid: number;
+  message: DocumentSyncMessage;
+}
+
+/**
+ * How to send a document to a worker along with a request.
+ */
+export interface WorkerSync {
+  /** Notifications to send first, to bring the worker up to date */
+  messages: DocumentSyncMessage[];
+  /** Version the request can refer to, or undefined to send the content */
+  version: number | undefined;
+}
+
+/**
+ * DocumentSync tracks the documents open in the editor and which version of
+ * each every tsgo worker holds.
+ *
+ * A worker receives a document in full the first time a request for it is
+ * sent there, and incremental edits from then on. A worker that missed an
+ * edit, or a replacement for one that exited, gets the full document again
+ * on its next request.
+ *
+ * @example
+ * ```ts
+ * const sync = new DocumentSync();
+ * sync.open(uri, 1, text);
+ * const { messages, version } = sync.syncFor(pid, uri, text);
+ * // write messages, then the request with `version` instead of `content`
+ * ```
+ */
+export class DocumentSync {
+  /** Latest version and content of each open document. */
+  private readonly documents = new Map<string, { version: number; content: string }>();
+  /** Document versions held per worker pid. */
+  private readonly workers = new Map<number, Map<string, number>>();
+
+  /**
+   * Start tracking an opened document. Workers receive it when first asked
+   * about it.
+   */
+  open(uri: string, version: number, content: string): void {
+    this.documents.set(uri, { version, content });
+    for (const held of this.workers.values()) {
+      held.delete(uri);
+    }
+  }
+
+  /**
+   * Latest content of an open document, or undefined when it is not open.
+   */
+  content(uri: string): string | undefined {
+    return this.documents.get(uri)?.content;
+  }
+
+  /**
+   * Record an edit of an open document.
+   *
+   * @param uri - document URI
+   * @param version - version after the edit
+   * @param content - content after the edit
+   * @param changes - the edit, as received from the client
+   * @returns edits for the workers holding the previous version; the
+   *   others will be resynced
+   */
+  change(
+    uri: string,
+    version: number,
+    content: string,
+    changes: TextDocumentContentChangeEvent[],
+  ): WorkerMessage[] {
+    const previous = this.documents.get(uri)?.version;
+    this.documents.set(uri, { version, content });
+
+    const edits = toEdits(changes);
+    const messages: WorkerMessage[] = [];
+    for (const [pid, held] of this.workers) {
+      const heldVersion = held.get(uri);
+      if (heldVersion === undefined) {
+        continue;
+      }
+      if (edits && heldVersion === previous) {
+        held.set(uri, version);
+        messages.push({ pid, message: { type: IPC_MESSAGES.CHANGE, uri, version, changes: edits } });
+      } else {
+        held.delete(uri);
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * Stop tracking a closed document.
+   *
+   * @returns close notifications for the workers holding it
+   */
+  close(uri: string): WorkerMessage[] {
+    this.documents.delete(uri);
+    const messages: WorkerMessage[] = [];
+    for (const [pid, held] of this.workers) {
+      if (held.delete(uri)) {
+        messages.push({ pid, message: { type: IPC_MESSAGES.CLOSE, uri } });
+      }
+    }
+    return messages;
+  }
+
+  /**
+   * Decide how a request about `uri` reaches a worker. Content that is not
+   * the latest version of an open document is sent with the request.
+   *
+   * @param pid - worker the request goes to
+   * @param uri - document the request is about
+   * @param content - content the request is for
+   */
+  syncFor(pid: number, uri: string, content: string): WorkerSync {
+    const document = this.documents.get(uri);
+    if (!document || document.content !== content) {
+      return { messages: [], version: undefined };
+    }
+
+    let held = this.workers.get(pid);
+    if (!held) {
+      held = new Map();
+      this.workers.set(pid, held);
+    }
+    if (held.get(uri) === document.version) {
+      return { messages: [], version: document.version };
+    }
+    held.set(uri, document.version);
+    return {
+      messages: [{ type: IPC_MESSAGES.OPEN, uri, version: document.version, content }],
+      version: document.version,
+    };
+  }
+
+  /**
+   * Forget what a worker that has exited held.
+   */
+  forgetWorker(pid: number): void {
+    this.workers.delete(pid);
+  }
+}
+
+/**
+ * Convert client edits to zero-based tsgo edits. A change that replaces
+ * the whole document has no range, and is resynced in full instead.
+ */
+function toEdits(changes: TextDocumentContentChangeEvent[]): TsgoTextEdit[] | undefined {
+  const edits: TsgoTextEdit[] = [];
+  for (const change of changes) {
+    if (!('range' in change)) {
+      return undefined;
+    }
+    edits.push({
+      line: change.range.start.line,
+      column: change.range.start.character,
+      endLine: change.range.end.line,
+      endColumn: change.range.end.character,
+      newText: change.text,
+    });
+  }
+  return edits;
+}
@@ -0,0 +1,50 @@
+import type { TsgoTurboConfig } from '@tsgo-turbo/shared';
+import type { Logger } from '../logger/index.js';
+import { OxcFormatterIntegration } from './oxcFormatter.js';
+
+/**
+ * A code formatter backing the formatting providers.
+ *
+ * Implementations format whole files; the formatting provider turns the
+ * result into minimal edits and narrows them to a range when needed, so a
+ * formatter does not have to support range formatting itself.
+ */
+export interface FormatterIntegration {
+  /** Name shown in logs, e.g. `oxfmt`. */
+  readonly name: string;
+
+  /** Validate the formatter is available. Never throws. */
+  start(): Promise<void>;
+
+  /**
+   * Format a file.
+   *
+   * @param uri - file URI, used to pick the language from its extension
+   * @param content - file content
+   * @returns the formatted content
+   * @throws if the formatter fails, e.g. on a syntax error or timeout
+   */
+  format(uri: string, content: string): Promise<string>;
+
+  /** Update the formatter configuration at runtime. */
+  updateConfig(config: TsgoTurboConfig['format']): void;
+
+  /** Kill any running formatter processes. */
+  shutdown(): Promise<void>;
+}
+
+/**
+ * Create the formatter integration selected by `format.provider`.
+ *
+ * @param config - format section of TsgoTurboConfig
+ * @param logger - logger instance
+ */
+export function createFormatter(
+  config: TsgoTurboConfig['format'],
+  logger: Logger,
+): FormatterIntegration {
+  switch (config.provider) {
+    case 'oxc':
+      return new OxcFormatterIntegration(config, logger);
+  }
+}
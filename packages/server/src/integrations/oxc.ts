@@ -1,12 +1,38 @@
 import { spawn, type ChildProcess } from 'node:child_process';
+import { readFile, stat } from 'node:fs/promises';
+import * as path from 'node:path';
+import type { CancellationToken, Diagnostic } from 'vscode-languageserver';
+import { URI } from 'vscode-uri';
 import type {
   TsgoTurboConfig,
   FileAnalysisResult,
   TurbodiagnosticItem,
+  TurbodiagnosticRelated,
   DiagnosticSeverity,
 } from '@tsgo-turbo/shared';
 import type { Logger } from '../logger/index.js';
 import { FileCache } from '../cache/fileCache.js';
+import { LineIndex } from '../positions/lineIndex.js';
+import { CircuitBreaker, UnavailableError } from './circuitBreaker.js';
+import { OxlintLanguageServer } from './oxlintServer.js';
+import {
+  oxcRuleUrl,
+  parseOxcRuleCode,
+  parseRuleList,
+  readOxlintConfig,
+  resolveRuleSetting,
+  type OxcRuleInfo,
+  type OxcRuleMeta,
+} from './ruleInfo.js';
+
+/** Config file oxlint reads from its working directory when none is given. */
+const DEFAULT_CONFIG_FILE = '.oxlintrc.json';
+
+/** Most paths passed to one batch run, to stay within command line limits. */
+const BATCH_MAX_PATHS = 500;
+
+/** Time a batch run gets per path, on top of `fileTimeoutMs`. */
+const BATCH_MS_PER_PATH = 100;
 
 /**
  * Raw JSON diagnostic from oxc lint output.
@@ -35,6 +61,9 @@ interface OxcRawDiagnostic {
   help?: string;
 }
 
+/** What the oxlint language server puts between a message and its help. */
+const LSP_HELP_SEPARATOR = '\nhelp: ';
+
 /**
  * Pending lint request in the dispatch queue.
  */
@@ -54,9 +83,15 @@ interface PendingLintRequest {
  * a long-running server), but we pool them to avoid spawn overhead for rapid
  * sequential requests.
  *
- * For simplicity and reliability, each lint invocation spawns a fresh process
- * since oxc is fast enough that the spawn overhead is negligible compared to
- * the analysis time for other tools.
+ * When the installed oxlint ships a language server (`oxc_language_server`,
+ * or `oxlint --lsp` in newer versions), lints go through one long-running
+ * {@link OxlintLanguageServer} instead, saving the spawn on every
+ * keystroke. Binaries without one, and configs with per-rule
+ * overrides (which only the command line takes), fall back to a fresh
+ * process per lint, as does any lint while the server restarts.
+ *
+ * Lints that keep failing (e.g. a missing or crashing binary) trip a
+ * {@link CircuitBreaker}; oxc is then skipped until a probe succeeds.
  *
  * @example
  * ```ts
@@ -69,26 +104,47 @@ interface PendingLintRequest {
 export class OxcIntegration {
   private config: TsgoTurboConfig['oxc'];
   private readonly logger: Logger;
-  private readonly maxConcurrency: number;
   private activeLints = 0;
   private readonly pendingQueue: PendingLintRequest[] = [];
   private started = false;
   private shuttingDown = false;
   private readonly activeProcesses = new Set<ChildProcess>();
+  private toolVersion: string | undefined;
+  private readonly breaker: CircuitBreaker;
+  private readonly server: OxlintLanguageServer;
+  /** Documents open in the editor, which stay open in the language server. */
+  private readonly openDocuments = new Set<string>();
+  private workspaceRoots: string[] = [];
+  /** Rules listed by the binary, loaded on first use. */
+  private ruleList: Promise<Map<string, OxcRuleMeta>> | undefined;
 
   /**
    * @param config - oxc section of TsgoTurboConfig
    * @param logger - logger instance
-   * @param maxConcurrency - maximum concurrent lint processes (default 8)
    */
-  constructor(
-    config: TsgoTurboConfig['oxc'],
-    logger: Logger,
-    maxConcurrency = 8,
-  ) {
+  constructor(config: TsgoTurboConfig['oxc'], logger: Logger) {
     this.config = config;
     this.logger = logger;
-    this.maxConcurrency = maxConcurrency;
+    this.breaker = new CircuitBreaker('oxc', logger);
+    this.server = new OxlintLanguageServer(config, logger, this.breaker);
+    this.breaker.onStateChange((state) => {
+      if (state === 'open') {
+        this.rejectPending(new UnavailableError(`oxc is unavailable: ${this.breaker.reason}`));
+      } else if (state === 'halfOpen' && this.started && !this.shuttingDown && !this.server.running) {
+        // Probe with a fresh server; spawned lints probe on their own
+        void this.startServer();
+      }
+    });
+  }
+
+  /** Version reported by the oxc binary, once started. */
+  get version(): string | undefined {
+    return this.toolVersion;
+  }
+
+  /** Circuit breaker tracking lint failures. */
+  get circuit(): CircuitBreaker {
+    return this.breaker;
   }
 
   /**
@@ -100,13 +156,13 @@ export class OxcIntegration {
     }
 
     this.logger.info('Starting oxc integration', {
-      maxConcurrency: this.maxConcurrency,
+      maxConcurrency: this.config.maxConcurrency,
     });
 
     // Validate binary availability by running --version
     try {
-      await this.runOxcCommand(['--version']);
-      this.logger.info('oxc binary validated');
+      this.toolVersion = (await this.runOxcCommand(['--version'])).trim();
+      this.logger.info('oxc binary validated', { version: this.toolVersion });
     } catch (err) {
       this.logger.warn('oxc binary not found or not working, linting will be unavailable', {
         binaryPath: this.config.binaryPath ?? 'oxlint',
@@ -116,13 +172,31 @@ export class OxcIntegration {
     }
 
     this.started = true;
+    await this.startServer();
+  }
+
+  /**
+   * Start the oxlint language server, unless per-rule overrides need the
+   * command line. When it does not start, each lint spawns oxlint.
+   */
+  private async startServer(): Promise<void> {
+    if (this.config.rules && Object.keys(this.config.rules).length > 0) {
+      this.logger.info('oxc rule overrides need the command line; linting each file in a new process');
+      return;
+    }
+    if (await this.server.start()) {
+      this.logger.info('Linting through the oxlint language server');
+    } else {
+      this.logger.info('No oxlint language server available; linting each file in a new process');
+    }
   }
 
   /**
    * Lint a file using oxc.
    *
-   * Spawns a short-lived oxc process with the file content piped via stdin.
-   * Parses the JSON output into TurbodiagnosticItem format.
+   * Goes through the oxlint language server when it is running; otherwise
+   * spawns a short-lived oxc process with the file content piped via stdin
+   * and parses its JSON output into TurbodiagnosticItem format.
    *
    * @param uri - file URI
    * @param content - file content
@@ -132,11 +206,14 @@ export class OxcIntegration {
     if (!this.started || this.shuttingDown) {
       throw new Error('OxcIntegration is not running');
     }
+    if (this.breaker.isOpen) {
+      throw new UnavailableError(`oxc is unavailable: ${this.breaker.reason}`);
+    }
 
     const contentHash = FileCache.computeHash(content);
 
     // If at max concurrency, queue the request
-    if (this.activeLints >= this.maxConcurrency) {
+    if (this.activeLints >= this.config.maxConcurrency) {
       return new Promise<FileAnalysisResult>((resolve, reject) => {
         const timeoutHandle = setTimeout(() => {
           const idx = this.pendingQueue.findIndex((p) => p.uri === uri && p.resolve === resolve);
@@ -153,11 +230,186 @@ export class OxcIntegration {
     return this.executeLint(uri, content, contentHash);
   }
 
+  /**
+   * Lint many files from disk in one oxlint run per {@link BATCH_MAX_PATHS}
+   * paths, leaving oxlint to spread them over its threads. Meant for
+   * workspace scans; interactive lints keep going through {@link lint}.
+   *
+   * @param uris - URIs of files or directories on disk; others are skipped
+   * @param token - stops before the next run when cancelled
+   * @returns results keyed by file URI: one per listed file, under the URI
+   *   it was listed with, and one per file with diagnostics in a listed
+   *   directory
+   */
+  async lintBatch(
+    uris: string[],
+    token?: CancellationToken,
+  ): Promise<Map<string, FileAnalysisResult>> {
+    if (!this.started || this.shuttingDown) {
+      throw new Error('OxcIntegration is not running');
+    }
+    if (this.breaker.isOpen) {
+      throw new UnavailableError(`oxc is unavailable: ${this.breaker.reason}`);
+    }
+
+    const results = new Map<string, FileAnalysisResult>();
+    // Listed paths are absolute; reported file names are relative to this
+    const cwd = this.workspaceRoots[0] ?? process.cwd();
+    const uriByPath = new Map<string, string>();
+    for (const uri of uris) {
+      const parsed = URI.parse(uri);
+      if (parsed.scheme === 'file') {
+        uriByPath.set(path.resolve(parsed.fsPath), uri);
+      }
+    }
+    const resolved = Array.from(uriByPath.keys());
+    this.activeLints++;
+    try {
+      for (let i = 0; i < resolved.length; i += BATCH_MAX_PATHS) {
+        if (token?.isCancellationRequested) {
+          break;
+        }
+        const chunk = resolved.slice(i, i + BATCH_MAX_PATHS);
+        const startTime = Date.now();
+        const before = await readFiles(chunk);
+        const output = await this.runOxcWithStdin(
+          [...this.lintArgs(), ...chunk],
+          '',
+          this.config.fileTimeoutMs + chunk.length * BATCH_MS_PER_PATH,
+          cwd,
+        );
+        await this.splitBatchOutput(chunk, uriByPath, cwd, before, startTime, output, results);
+      }
+    } finally {
+      this.activeLints--;
+      this.dispatchPending();
+    }
+
+    this.logger.info('oxc batch lint finished', {
+      paths: resolved.length,
+      files: results.size,
+    });
+    return results;
+  }
+
+  /**
+   * Lint content for its auto-fixes. The fix edits only come with oxlint's
+   * JSON output, so this always runs a fresh process, even when the
+   * language server is up.
+   *
+   * @param uri - file URI
+   * @param content - content to lint, which need not be the open document's
+   * @returns diagnostics, with their fixes in `data.fix`
+   */
+  async lintForFixes(uri: string, content: string): Promise<TurbodiagnosticItem[]> {
+    if (!this.started || this.shuttingDown) {
+      throw new Error('OxcIntegration is not running');
+    }
+    if (this.breaker.isOpen) {
+      throw new UnavailableError(`oxc is unavailable: ${this.breaker.reason}`);
+    }
+
+    this.activeLints++;
+    try {
+      return await this.lintWithProcess(uri, content, Date.now());
+    } finally {
+      this.activeLints--;
+      this.dispatchPending();
+    }
+  }
+
+  /**
+   * Describe the rule behind an oxc diagnostic code: its category and
+   * description as listed by `oxlint --rules`, its documentation link, and
+   * the severity currently set for it by `oxc.rules` or the oxlint config
+   * file.
+   *
+   * @param code - the diagnostic code, e.g. `eslint(no-debugger)`
+   * @returns the rule, or undefined when the code does not name one
+   */
+  async ruleInfo(code: string): Promise<OxcRuleInfo | undefined> {
+    const id = parseOxcRuleCode(code);
+    if (!id) {
+      return undefined;
+    }
+
+    this.ruleList ??= this.runOxcCommand(['--rules', '--format=json']).then(
+      parseRuleList,
+      (err: unknown) => {
+        this.logger.debug('Failed to list oxc rules', {
+          error: err instanceof Error ? err.message : String(err),
+        });
+        return new Map<string, OxcRuleMeta>();
+      },
+    );
+    const meta = (await this.ruleList).get(`${id.scope}/${id.rule}`) ?? {};
+    const configFile = readOxlintConfig(this.configFile);
+
+    return {
+      ...meta,
+      id,
+      url: meta.url ?? oxcRuleUrl(id),
+      setting: resolveRuleSetting(id, meta.category, this.config.rules, configFile),
+    };
+  }
+
+  /** Path of the oxlint config file in effect, which may not exist. */
+  get configFile(): string {
+    return path.resolve(this.config.configPath ?? DEFAULT_CONFIG_FILE);
+  }
+
+  /**
+   * Track a document opened in the editor. It stays open in the oxlint
+   * language server between lints; other files are closed once linted.
+   */
+  openDocument(uri: string): void {
+    this.openDocuments.add(uri);
+  }
+
+  /**
+   * Close a document in the oxlint language server.
+   */
+  closeDocument(uri: string): void {
+    this.openDocuments.delete(uri);
+    this.server.close(uri);
+  }
+
+  /**
+   * Set the workspace folders the oxlint language server runs in. A running
+   * server is restarted in the new root.
+   *
+   * @param roots - file system paths of the workspace folders
+   */
+  setWorkspaceRoots(roots: string[]): void {
+    const rootChanged = roots[0] !== this.workspaceRoots[0];
+    this.workspaceRoots = roots;
+    this.server.setWorkspaceRoots(roots);
+    if (rootChanged && this.server.running && !this.shuttingDown) {
+      void this.server.stop().then(() => this.startServer());
+    }
+  }
+
   /**
    * Update the oxc configuration at runtime.
    */
   updateConfig(config: TsgoTurboConfig['oxc']): void {
+    const binaryChanged = config.binaryPath !== this.config.binaryPath;
+    const serverChanged =
+      binaryChanged ||
+      config.configPath !== this.config.configPath ||
+      JSON.stringify(config.rules) !== JSON.stringify(this.config.rules);
     this.config = config;
+    this.server.updateConfig(config);
+    if (binaryChanged) {
+      // A different binary deserves a fresh start
+      this.breaker.reset();
+      this.ruleList = undefined;
+    }
+    if (serverChanged && this.started && !this.shuttingDown) {
+      void this.server.stop().then(() => this.startServer());
+    }
+    // A raised limit frees slots for queued lints
+    this.dispatchPending();
     this.logger.info('oxc configuration updated');
   }
 
@@ -170,6 +422,10 @@ export class OxcIntegration {
     startedAt: number;
   }> {
     const result: Array<{ pid: number; tool: 'oxc'; startedAt: number }> = [];
+    const server = this.server.processInfo;
+    if (server) {
+      result.push({ ...server, tool: 'oxc' });
+    }
     for (const proc of this.activeProcesses) {
       if (proc.pid) {
         result.push({
@@ -192,12 +448,9 @@ export class OxcIntegration {
     this.shuttingDown = true;
     this.logger.info('Shutting down oxc integration');
 
-    // Reject all pending requests
-    for (const pending of this.pendingQueue) {
-      clearTimeout(pending.timeoutHandle);
-      pending.reject(new Error('OxcIntegration shutting down'));
-    }
-    this.pendingQueue.length = 0;
+    this.breaker.dispose();
+    this.rejectPending(new Error('OxcIntegration shutting down'));
+    await this.server.stop();
 
     // Kill active processes
     for (const proc of this.activeProcesses) {
@@ -214,25 +467,6 @@ export class OxcIntegration {
     this.logger.info('oxc integration shut down');
   }
 
-  /**
-   * Convert a byte offset in file content to a line/column position.
-   * Both line and column are 1-based.
-   */
-  private byteOffsetToPosition(
-    content: string,
-    byteOffset: number,
-  ): { line: number; column: number } {
-    const buf = Buffer.from(content, 'utf-8');
-    // Clamp to content length
-    const offset = Math.min(byteOffset, buf.length);
-    const prefix = buf.subarray(0, offset).toString('utf-8');
-    const lines = prefix.split('\n');
-    return {
-      line: lines.length,
-      column: (lines[lines.length - 1]?.length ?? 0) + 1,
-    };
-  }
-
   /**
    * Execute a lint operation for a single file.
    */
@@ -245,37 +479,11 @@ export class OxcIntegration {
     const startTime = Date.now();
 
     try {
-      // Determine the filename from URI for oxc (it uses extension for language detection)
-      const filename = this.uriToFilename(uri);
-
-      const args = [
-        '--format=json',
-        `--stdin-filename=${filename}`,
-        '-',
-      ];
-
-      // Add config path if specified
-      if (this.config.configPath) {
-        args.unshift(`--config=${this.config.configPath}`);
-      }
-
-      // Add rule overrides
-      if (this.config.rules) {
-        for (const [rule, setting] of Object.entries(this.config.rules)) {
-          if (setting === 'off') {
-            args.push(`--disable=${rule}`);
-          } else if (setting === 'warn') {
-            args.push(`--warn=${rule}`);
-          } else if (setting === 'error') {
-            args.push(`--deny=${rule}`);
-          }
-        }
-      }
-
-      const output = await this.runOxcWithStdin(args, content);
+      const diagnostics = this.server.running
+        ? await this.lintWithServer(uri, content, startTime)
+        : await this.lintWithProcess(uri, content, startTime);
       const analysisTimeMs = Date.now() - startTime;
-
-      const diagnostics = this.parseOutput(uri, output, analysisTimeMs, content);
+      this.breaker.recordSuccess();
 
       return {
         uri,
@@ -286,11 +494,13 @@ export class OxcIntegration {
       };
     } catch (err) {
       const analysisTimeMs = Date.now() - startTime;
+      const error = err instanceof Error ? err.message : String(err);
       this.logger.warn('oxc lint failed', {
         uri,
-        error: err instanceof Error ? err.message : String(err),
+        error,
         durationMs: analysisTimeMs,
       });
+      this.breaker.recordFailure(`oxc lint failed: ${error}`);
 
       return {
         uri,
@@ -298,6 +508,7 @@ export class OxcIntegration {
         analysisTimeMs,
         cached: false,
         contentHash,
+        partial: true,
       };
     } finally {
       this.activeLints--;
@@ -305,13 +516,169 @@ export class OxcIntegration {
     }
   }
 
+  /**
+   * Lint a file through the oxlint language server. A lint interrupted by
+   * the server exiting is redone in a fresh process. Files not open in the
+   * editor are closed in the server again, so it holds only those.
+   */
+  private async lintWithServer(
+    uri: string,
+    content: string,
+    startTime: number,
+  ): Promise<TurbodiagnosticItem[]> {
+    let published: Diagnostic[];
+    try {
+      published = await this.server.lint(uri, content, this.openDocuments.has(uri));
+    } catch (err) {
+      if (this.server.running) {
+        throw err;
+      }
+      return this.lintWithProcess(uri, content, startTime);
+    }
+    const computeTimeMs = Date.now() - startTime;
+    return published.map((d) => this.convertLspDiagnostic(uri, d, computeTimeMs));
+  }
+
+  /**
+   * Lint a file in a fresh oxc process.
+   */
+  private async lintWithProcess(
+    uri: string,
+    content: string,
+    startTime: number,
+  ): Promise<TurbodiagnosticItem[]> {
+    // Determine the filename from URI for oxc (it uses extension for language detection)
+    const filename = this.uriToFilename(uri);
+
+    const args = [...this.lintArgs(), `--stdin-filename=${filename}`, '-'];
+
+    const output = await this.runOxcWithStdin(args, content);
+    return this.parseOutput(uri, output, Date.now() - startTime, content);
+  }
+
+  /**
+   * Command line options shared by every lint run: JSON output, the config
+   * file and the rule overrides.
+   */
+  private lintArgs(): string[] {
+    const args = ['--format=json'];
+
+    // Add config path if specified
+    if (this.config.configPath) {
+      args.unshift(`--config=${this.config.configPath}`);
+    }
+
+    // Add rule overrides
+    if (this.config.rules) {
+      for (const [rule, setting] of Object.entries(this.config.rules)) {
+        if (setting === 'off') {
+          args.push(`--disable=${rule}`);
+        } else if (setting === 'warn') {
+          args.push(`--warn=${rule}`);
+        } else if (setting === 'error') {
+          args.push(`--deny=${rule}`);
+        }
+      }
+    }
+
+    return args;
+  }
+
+  /**
+   * Split the JSON output of a batch run into a result per file. Each file
+   * is read back from disk for its content hash and to place byte offsets.
+   * Files that can no longer be read, or that changed since the run started,
+   * are left out rather than cached under content oxlint may not have seen.
+   *
+   * @param listed - absolute paths passed to the run
+   * @param uriByPath - URIs the listed paths were given as
+   * @param cwd - working directory of the run
+   * @param before - content of the listed files, read before the run
+   * @param startTime - when the run started
+   * @param output - the run's stdout
+   * @param results - map to add the results to, by file URI
+   */
+  private async splitBatchOutput(
+    listed: string[],
+    uriByPath: Map<string, string>,
+    cwd: string,
+    before: Map<string, string>,
+    startTime: number,
+    output: string,
+    results: Map<string, FileAnalysisResult>,
+  ): Promise<void> {
+    const computeTimeMs = Date.now() - startTime;
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(output.trim() || '[]');
+    } catch {
+      throw new Error('oxc batch output is not JSON');
+    }
+
+    const byFile = new Map<string, OxcRawDiagnostic[]>();
+    for (const file of listed) {
+      byFile.set(file, []);
+    }
+    for (const raw of (Array.isArray(parsed) ? parsed : [parsed]).filter(isRawDiagnostic)) {
+      if (!raw.filename) {
+        continue;
+      }
+      const file = path.resolve(cwd, raw.filename);
+      const diagnostics = byFile.get(file) ?? [];
+      diagnostics.push(raw);
+      byFile.set(file, diagnostics);
+    }
+
+    await Promise.all(
+      Array.from(byFile, async ([file, raws]) => {
+        let content: string;
+        try {
+          content = await readFile(file, 'utf-8');
+          // oxlint may have seen either version of a file changed during
+          // the run; one found in a listed directory was not read before it
+          const previous = before.get(file);
+          if (
+            previous === undefined
+              ? (await stat(file)).mtimeMs >= startTime
+              : previous !== content
+          ) {
+            return;
+          }
+        } catch {
+          // A listed directory, or a file deleted since
+          return;
+        }
+        const uri = uriByPath.get(file) ?? URI.file(file).toString();
+        const index = new LineIndex(content);
+        results.set(uri, {
+          uri,
+          diagnostics: raws.map((raw) => this.convertDiagnostic(uri, raw, computeTimeMs, index)),
+          analysisTimeMs: computeTimeMs,
+          cached: false,
+          contentHash: FileCache.computeHash(content),
+        });
+      }),
+    );
+  }
+
+  /**
+   * Reject every queued request with `error`.
+   */
+  private rejectPending(error: Error): void {
+    for (const pending of this.pendingQueue) {
+      clearTimeout(pending.timeoutHandle);
+      pending.reject(error);
+    }
+    this.pendingQueue.length = 0;
+  }
+
   /**
    * Dispatch queued requests when a slot opens up.
    */
   private dispatchPending(): void {
     while (
       this.pendingQueue.length > 0 &&
-      this.activeLints < this.maxConcurrency
+      this.activeLints < this.config.maxConcurrency
     ) {
       const pending = this.pendingQueue.shift()!;
       clearTimeout(pending.timeoutHandle);
@@ -325,11 +692,19 @@ export class OxcIntegration {
 
   /**
    * Run oxc with content piped via stdin and capture stdout.
+   *
+   * @param cwd - working directory of the run, the server's by default
    */
-  private runOxcWithStdin(args: string[], content: string): Promise<string> {
+  private runOxcWithStdin(
+    args: string[],
+    content: string,
+    timeoutMs = this.config.fileTimeoutMs,
+    cwd?: string,
+  ): Promise<string> {
     return new Promise((resolve, reject) => {
       const binaryPath = this.config.binaryPath ?? 'oxlint';
       const child = spawn(binaryPath, args, {
+        cwd,
         stdio: ['pipe', 'pipe', 'pipe'],
       });
 
@@ -357,8 +732,8 @@ export class OxcIntegration {
         } catch {
           // Already dead
         }
-        reject(new Error(`oxc lint timed out after ${this.config.fileTimeoutMs}ms`));
-      }, this.config.fileTimeoutMs);
+        reject(new Error(`oxc lint timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
 
       child.on('error', (err) => {
         clearTimeout(timeoutHandle);
@@ -439,10 +814,7 @@ export class OxcIntegration {
       const parsed: unknown = JSON.parse(output);
       // Validate that parsed output is an object or array of objects
       const raw = Array.isArray(parsed) ? parsed : [parsed];
-      const items = raw.filter(
-        (d): d is OxcRawDiagnostic =>
-          typeof d === 'object' && d !== null && 'message' in d,
-      );
+      const items = raw.filter(isRawDiagnostic);
 
       if (items.length === 0 && raw.length > 0) {
         this.logger.debug('oxc output had no valid diagnostics', {
@@ -451,7 +823,8 @@ export class OxcIntegration {
         return [];
       }
 
-      return items.map((d) => this.convertDiagnostic(uri, d, computeTimeMs, content));
+      const index = content === undefined ? undefined : new LineIndex(content);
+      return items.map((d) => this.convertDiagnostic(uri, d, computeTimeMs, index));
     } catch {
       // If JSON parsing fails, try to parse line-by-line or return empty
       this.logger.debug('Failed to parse oxc JSON output, trying fallback', {
@@ -463,12 +836,15 @@ export class OxcIntegration {
 
   /**
    * Convert a single raw oxc diagnostic to TurbodiagnosticItem.
+   *
+   * @param index - line index of the linted content, which maps label spans
+   *   (UTF-8 byte offsets) to one-based lines and UTF-16 columns
    */
   private convertDiagnostic(
     uri: string,
     raw: OxcRawDiagnostic,
     computeTimeMs: number,
-    content?: string,
+    index?: LineIndex,
   ): TurbodiagnosticItem {
     const ruleId = raw.rule_id ?? raw.ruleId;
 
@@ -486,16 +862,16 @@ export class OxcIntegration {
       endLine = raw.end.line;
       endColumn = raw.end.column;
     }
-    if (raw.labels && raw.labels.length > 0 && content) {
+    if (raw.labels && raw.labels.length > 0 && index) {
       // Labels provide more precise span info via byte offsets
       const label = raw.labels[0];
       if (label.span) {
-        const startPos = this.byteOffsetToPosition(content, label.span.start);
-        line = startPos.line;
-        column = startPos.column;
-        const endPos = this.byteOffsetToPosition(content, label.span.end);
-        endLine = endPos.line;
-        endColumn = endPos.column;
+        const startPos = index.positionAt(index.offsetOfByte(label.span.start));
+        line = startPos.line + 1;
+        column = startPos.character + 1;
+        const endPos = index.positionAt(index.offsetOfByte(label.span.end));
+        endLine = endPos.line + 1;
+        endColumn = endPos.character + 1;
       }
     }
 
@@ -504,11 +880,8 @@ export class OxcIntegration {
     if (raw.fix) {
       data['fix'] = raw.fix;
     }
-    if (raw.help) {
-      data['help'] = raw.help;
-    }
 
-    return {
+    const item: TurbodiagnosticItem = {
       file: raw.filename ?? uri,
       line,
       column,
@@ -521,6 +894,83 @@ export class OxcIntegration {
       computeTimeMs,
       data: Object.keys(data).length > 0 ? data : undefined,
     };
+    if (raw.help) {
+      item.help = raw.help;
+    }
+    // The first label is the diagnostic's own span; the others explain it
+    const related = index
+      ? (raw.labels ?? []).slice(1).flatMap((label): TurbodiagnosticRelated[] => {
+          if (!label.message) {
+            return [];
+          }
+          const start = index.positionAt(index.offsetOfByte(label.span.start));
+          const end = index.positionAt(index.offsetOfByte(label.span.end));
+          return [{
+            uri,
+            line: start.line + 1,
+            column: start.character + 1,
+            endLine: end.line + 1,
+            endColumn: end.character + 1,
+            message: label.message,
+          }];
+        })
+      : [];
+    if (related.length > 0) {
+      item.related = related;
+    }
+    return item;
+  }
+
+  /**
+   * Convert a diagnostic published by the oxlint language server
+   * (zero-based) to TurbodiagnosticItem (one-based), like
+   * {@link convertDiagnostic}: the help the server appends to the message
+   * becomes `help`, a fix in its data `data.fix`, and related information
+   * that says something `related`.
+   */
+  private convertLspDiagnostic(
+    uri: string,
+    diagnostic: Diagnostic,
+    computeTimeMs: number,
+  ): TurbodiagnosticItem {
+    const helpAt = diagnostic.message.indexOf(LSP_HELP_SEPARATOR);
+    const item: TurbodiagnosticItem = {
+      file: uri,
+      line: diagnostic.range.start.line + 1,
+      column: diagnostic.range.start.character + 1,
+      endLine: diagnostic.range.end.line + 1,
+      endColumn: diagnostic.range.end.character + 1,
+      message: helpAt === -1 ? diagnostic.message : diagnostic.message.slice(0, helpAt),
+      severity: this.mapLspSeverity(diagnostic.severity),
+      source: 'oxc',
+      computeTimeMs,
+    };
+    if (helpAt !== -1) {
+      item.help = diagnostic.message.slice(helpAt + LSP_HELP_SEPARATOR.length);
+    }
+    if (diagnostic.code !== undefined) {
+      item.code = String(diagnostic.code);
+    }
+    if (typeof diagnostic.data === 'object' && diagnostic.data !== null && !Array.isArray(diagnostic.data)) {
+      const data = diagnostic.data as Record<string, unknown>;
+      if (Object.keys(data).length > 0) {
+        item.data = { ...data };
+      }
+    }
+    const related = (diagnostic.relatedInformation ?? [])
+      .filter((info) => info.message.length > 0)
+      .map((info) => ({
+        uri: info.location.uri,
+        line: info.location.range.start.line + 1,
+        column: info.location.range.start.character + 1,
+        endLine: info.location.range.end.line + 1,
+        endColumn: info.location.range.end.character + 1,
+        message: info.message,
+      }));
+    if (related.length > 0) {
+      item.related = related;
+    }
+    return item;
   }
 
   /**
@@ -575,6 +1025,22 @@ export class OxcIntegration {
     }
   }
 
+  /**
+   * Map an LSP severity (1 = error ... 4 = hint) to DiagnosticSeverity.
+   */
+  private mapLspSeverity(severity: number | undefined): DiagnosticSeverity {
+    switch (severity) {
+      case 1:
+        return 'error';
+      case 3:
+        return 'info';
+      case 4:
+        return 'hint';
+      default:
+        return 'warning';
+    }
+  }
+
   /**
    * Convert a file URI to a filename for oxc's --stdin-filename flag.
    */
@@ -589,3 +1055,27 @@ export class OxcIntegration {
     }
   }
 }
+
+/**
+ * Read files, leaving out those that cannot be read (such as directories).
+ */
+async function readFiles(paths: string[]): Promise<Map<string, string>> {
+  const contents = new Map<string, string>();
+  await Promise.all(
+    paths.map(async (file) => {
+      try {
+        contents.set(file, await readFile(file, 'utf-8'));
+      } catch {
+        // A directory, or a missing file oxlint reports on its own
+      }
+    }),
+  );
+  return contents;
+}
+
+/**
+ * Whether a parsed JSON value looks like an oxc diagnostic.
+ */
+function isRawDiagnostic(value: unknown): value is OxcRawDiagnostic {
+  return typeof value === 'object' && value !== null && 'message' in value;
+}
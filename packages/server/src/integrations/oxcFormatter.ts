@@ -0,0 +1,172 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import type { TsgoTurboConfig } from '@tsgo-turbo/shared';
+import type { Logger } from '../logger/index.js';
+import type { FormatterIntegration } from './formatter.js';
+
+/**
+ * OxcFormatterIntegration formats files with oxc's formatter binary
+ * (`oxfmt`).
+ *
+ * Like oxlint, oxfmt is not a long-running server: each request spawns a
+ * short-lived process with the file content piped via stdin, killed if it
+ * exceeds the per-file timeout.
+ *
+ * @example
+ * ```ts
+ * const formatter = new OxcFormatterIntegration(config.format, logger);
+ * await formatter.start();
+ * const formatted = await formatter.format('file:///app.ts', sourceCode);
+ * await formatter.shutdown();
+ * ```
+ */
+export class OxcFormatterIntegration implements FormatterIntegration {
+  readonly name = 'oxfmt';
+  private config: TsgoTurboConfig['format'];
+  private readonly logger: Logger;
+  private readonly activeProcesses = new Set<ChildProcess>();
+
+  /**
+   * @param config - format section of TsgoTurboConfig
+   * @param logger - logger instance
+   */
+  constructor(config: TsgoTurboConfig['format'], logger: Logger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  /**
+   * Validate that the formatter binary is accessible.
+   */
+  async start(): Promise<void> {
+    try {
+      await this.runFormatter(['--version'], '');
+      this.logger.info('oxfmt binary validated');
+    } catch (err) {
+      this.logger.warn('oxfmt binary not found or not working, formatting will be unavailable', {
+        binaryPath: this.config.binaryPath ?? 'oxfmt',
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * Format a file by piping it through oxfmt.
+   */
+  async format(uri: string, content: string): Promise<string> {
+    const startTime = Date.now();
+    const formatted = await this.runFormatter(
+      [`--stdin-filepath=${this.uriToFilename(uri)}`],
+      content,
+    );
+
+    this.logger.debug('oxfmt formatted file', {
+      uri,
+      durationMs: Date.now() - startTime,
+    });
+    return formatted;
+  }
+
+  /**
+   * Update the formatter configuration at runtime.
+   */
+  updateConfig(config: TsgoTurboConfig['format']): void {
+    this.config = config;
+  }
+
+  /**
+   * Kill active formatter processes.
+   */
+  async shutdown(): Promise<void> {
+    for (const proc of this.activeProcesses) {
+      try {
+        proc.kill('SIGKILL');
+      } catch {
+        // Already dead
+      }
+    }
+    this.activeProcesses.clear();
+  }
+
+  /**
+   * Run oxfmt with content piped via stdin and capture stdout.
+   *
+   * Unlike oxlint, any non-zero exit is a failure: partial output from a
+   * formatter must never replace the document.
+   */
+  private runFormatter(args: string[], content: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const binaryPath = this.config.binaryPath ?? 'oxfmt';
+      const child = spawn(binaryPath, args, {
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      this.activeProcesses.add(child);
+
+      let stdout = '';
+      let stderr = '';
+
+      if (child.stdout) {
+        child.stdout.on('data', (chunk: Buffer) => {
+          stdout += chunk.toString();
+        });
+      }
+
+      if (child.stderr) {
+        child.stderr.on('data', (chunk: Buffer) => {
+          stderr += chunk.toString();
+        });
+      }
+
+      // Timeout handling
+      const timeoutHandle = setTimeout(() => {
+        try {
+          child.kill('SIGKILL');
+        } catch {
+          // Already dead
+        }
+        reject(new Error(`oxfmt timed out after ${this.config.fileTimeoutMs}ms`));
+      }, this.config.fileTimeoutMs);
+
+      child.on('error', (err) => {
+        clearTimeout(timeoutHandle);
+        this.activeProcesses.delete(child);
+        reject(err);
+      });
+
+      child.on('close', (code) => {
+        clearTimeout(timeoutHandle);
+        this.activeProcesses.delete(child);
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(
+            new Error(
+              `oxfmt exited with code ${code}: ${stderr.slice(0, 500)}`,
+            ),
+          );
+        }
+      });
+
+      // Write content to stdin and close
+      if (child.stdin) {
+        child.stdin.write(content, () => {
+          child.stdin!.end();
+        });
+      }
+    });
+  }
+
+  /**
+   * Convert a file URI to a filesystem path for oxfmt.
+   */
+  private uriToFilename(uri: string): string {
+    try {
+      if (uri.startsWith('file://')) {
+        return decodeURIComponent(uri.replace('file://', ''));
+      }
+      return uri;
+    } catch {
+      return uri;
+    }
+  }
+}
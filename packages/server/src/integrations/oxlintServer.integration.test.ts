@@ -0,0 +1,79 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { URI } from 'vscode-uri';
+import { DEFAULT_CONFIG } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import { CircuitBreaker } from './circuitBreaker.js';
+import { OxcIntegration } from './oxc.js';
+import { OxlintLanguageServer } from './oxlintServer.js';
+
+const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+
+/** The oxlint installed for the repository's own linting. */
+const oxlintPath = path.resolve(__dirname, '../../../../node_modules/.bin/oxlint');
+
+let server: OxlintLanguageServer | undefined;
+let oxc: OxcIntegration | undefined;
+let root: string | undefined;
+
+function createRoot(): string {
+  root = mkdtempSync(path.join(tmpdir(), 'oxlint-server-'));
+  writeFileSync(path.join(root, '.oxlintrc.json'), JSON.stringify({ rules: { 'no-debugger': 'error' } }));
+  return root;
+}
+
+describe.skipIf(!existsSync(oxlintPath))('OxlintLanguageServer with the real oxlint', { timeout: 20_000 }, () => {
+  afterEach(async () => {
+    await server?.stop();
+    server = undefined;
+    await oxc?.shutdown();
+    oxc = undefined;
+    if (root) {
+      rmSync(root, { recursive: true, force: true });
+      root = undefined;
+    }
+  });
+
+  it('starts in the workspace root and publishes diagnostics for files below it', async () => {
+    const dir = createRoot();
+    server = new OxlintLanguageServer(
+      { ...DEFAULT_CONFIG.oxc, binaryPath: oxlintPath },
+      logger,
+      new CircuitBreaker('oxc', logger),
+    );
+    server.setWorkspaceRoots([dir]);
+
+    expect(await server.start()).toBe(true);
+
+    const uri = URI.file(path.join(dir, 'a.ts')).toString();
+    const diagnostics = await server.lint(uri, 'debugger;\n');
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({
+      range: { start: { line: 0, character: 0 } },
+      message: expect.stringContaining('debugger'),
+    });
+
+    const fixed = await server.lint(uri, 'const a = 1;\n');
+    expect(fixed).toEqual([]);
+  });
+
+  it('splits the help the server appends to a message off into its own field', async () => {
+    const dir = createRoot();
+    oxc = new OxcIntegration({ ...DEFAULT_CONFIG.oxc, binaryPath: oxlintPath }, logger);
+    oxc.setWorkspaceRoots([dir]);
+    await oxc.start();
+
+    const result = await oxc.lint(URI.file(path.join(dir, 'a.ts')).toString(), 'debugger;\n');
+    expect(result.diagnostics).toEqual([
+      expect.objectContaining({
+        line: 1,
+        column: 1,
+        code: 'eslint(no-debugger)',
+        message: '`debugger` statement is not allowed',
+        help: 'Delete this code.',
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,511 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { once } from 'node:events';
+import { existsSync, realpathSync } from 'node:fs';
+import * as path from 'node:path';
+import {
+  createMessageConnection,
+  ResponseError,
+  StreamMessageReader,
+  StreamMessageWriter,
+  type Diagnostic,
+  type MessageConnection,
+  type PublishDiagnosticsParams,
+} from 'vscode-languageserver/node';
+import { URI } from 'vscode-uri';
+import type { TsgoTurboConfig } from '@tsgo-turbo/shared';
+import type { Logger } from '../logger/index.js';
+import type { CircuitBreaker } from './circuitBreaker.js';
+
+/** Timeout (ms) for the language server to answer `initialize`. */
+const START_TIMEOUT_MS = 5_000;
+/** Interval (ms) between health check requests. */
+const HEALTH_CHECK_INTERVAL_MS = 30_000;
+/** Timeout (ms) for a health check answer before the server is restarted. */
+const HEALTH_CHECK_TIMEOUT_MS = 5_000;
+/** Timeout (ms) for a graceful `shutdown` before the process is killed. */
+const SHUTDOWN_TIMEOUT_MS = 1_000;
+/**
+ * Request sent as a health check. The server does not know it and answers
+ * with MethodNotFound, which shows it is alive. Not `$/`-prefixed: the
+ * oxc language server leaves those unanswered.
+ */
+const HEALTH_CHECK_METHOD = 'tsgoTurbo/healthCheck';
+
+/** Language server binary shipped in the oxlint package, next to `oxlint`. */
+const LANGUAGE_SERVER_BINARY = 'oxc_language_server';
+
+/** Language ids by file extension, for `didOpen`. */
+const LANGUAGE_IDS: Record<string, string> = {
+  '.ts': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.tsx': 'typescriptreact',
+  '.js': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.jsx': 'javascriptreact',
+};
+
+/**
+ * A document open in the language server.
+ */
+interface OpenDocument {
+  version: number;
+  content: string;
+  /** Published diagnostics for this version, once they arrive */
+  diagnostics: Diagnostic[] | undefined;
+}
+
+/**
+ * A command that may start the language server.
+ */
+interface ServerCommand {
+  command: string;
+  args: string[];
+}
+
+/**
+ * A lint waiting for the server to publish diagnostics.
+ */
+interface DiagnosticsWaiter {
+  resolve: (diagnostics: Diagnostic[]) => void;
+  reject: (error: Error) => void;
+  timeoutHandle: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * OxlintLanguageServer runs one long-lived oxc language server and lints
+ * through it, instead of spawning oxlint for every file. The
+ * `oxc_language_server` binary the oxlint package ships is tried first,
+ * then `oxlint --lsp`, which newer oxlint versions take instead. It runs in
+ * the first workspace folder, which the server requires as its root.
+ *
+ * Documents are opened in the server on their first lint and, unless the
+ * caller has them closed after it, kept current with full-text changes
+ * (oxlint re-parses the whole file either way); the diagnostics the server
+ * publishes for the new version are the result.
+ * Lints of the same document run one after another, so each gets the
+ * diagnostics of its own content.
+ *
+ * The server is pinged every 30 s and killed if it does not answer. When it
+ * exits unexpectedly the failure is recorded in the shared
+ * {@link CircuitBreaker} and it is restarted unless the circuit opened;
+ * documents are reopened in full on their next lint.
+ *
+ * @example
+ * ```ts
+ * const server = new OxlintLanguageServer(config, logger, breaker);
+ * if (await server.start()) {
+ *   const diagnostics = await server.lint('file:///app.ts', sourceCode);
+ * }
+ * await server.stop();
+ * ```
+ */
+export class OxlintLanguageServer {
+  private config: TsgoTurboConfig['oxc'];
+  private readonly logger: Logger;
+  private readonly breaker: CircuitBreaker;
+  private child: ChildProcess | undefined;
+  private connection: MessageConnection | undefined;
+  private ready = false;
+  private stopping = false;
+  private startedAt = 0;
+  private readonly documents = new Map<string, OpenDocument>();
+  private readonly waiters = new Map<string, DiagnosticsWaiter>();
+  /** Tail of the lint chain per document. */
+  private readonly lintChains = new Map<string, Promise<unknown>>();
+  private healthCheckInterval: ReturnType<typeof setInterval> | undefined;
+  private workspaceRoots: string[] = [];
+
+  /**
+   * @param config - oxc section of TsgoTurboConfig
+   * @param logger - logger instance
+   * @param breaker - circuit breaker of the oxc integration, told about crashes
+   */
+  constructor(config: TsgoTurboConfig['oxc'], logger: Logger, breaker: CircuitBreaker) {
+    this.config = config;
+    this.logger = logger;
+    this.breaker = breaker;
+  }
+
+  /** Whether the server is initialized and accepting lints. */
+  get running(): boolean {
+    return this.ready;
+  }
+
+  /** The server process, while running. */
+  get processInfo(): { pid: number; startedAt: number } | undefined {
+    const pid = this.child?.pid;
+    return this.ready && pid !== undefined ? { pid, startedAt: this.startedAt } : undefined;
+  }
+
+  /**
+   * Set the workspace folders. The server is started in the first one and
+   * only lints files below it; the caller restarts a running server.
+   *
+   * @param roots - file system paths of the workspace folders
+   */
+  setWorkspaceRoots(roots: string[]): void {
+    this.workspaceRoots = roots;
+  }
+
+  /**
+   * Spawn the language server and initialize it, trying each command from
+   * {@link serverCommands} until one starts.
+   *
+   * @returns false if no language server is available or it failed to start
+   */
+  async start(): Promise<boolean> {
+    if (this.ready) {
+      return true;
+    }
+    this.stopping = false;
+
+    for (const command of this.serverCommands()) {
+      if (await this.startWith(command)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Commands that may start a language server, in the order to try them:
+   * `oxc_language_server` next to the configured oxlint (or on the PATH
+   * when oxlint is), then `oxlint --lsp`.
+   */
+  private serverCommands(): ServerCommand[] {
+    const binaryPath = this.config.binaryPath ?? 'oxlint';
+    const commands: ServerCommand[] = [];
+    if (path.basename(binaryPath) === binaryPath) {
+      commands.push({ command: LANGUAGE_SERVER_BINARY, args: [] });
+    } else {
+      const directories = new Set([path.dirname(binaryPath)]);
+      try {
+        // node_modules/.bin links to the package's own bin directory
+        directories.add(path.dirname(realpathSync(binaryPath)));
+      } catch {
+        // Missing binary; `--lsp` below fails the same way
+      }
+      for (const directory of directories) {
+        const candidate = path.join(directory, LANGUAGE_SERVER_BINARY);
+        if (existsSync(candidate)) {
+          commands.push({ command: candidate, args: [] });
+          break;
+        }
+      }
+    }
+    commands.push({ command: binaryPath, args: ['--lsp'] });
+    return commands;
+  }
+
+  private async startWith({ command, args }: ServerCommand): Promise<boolean> {
+    // The server needs a root and resolves its config file from there
+    const root = this.workspaceRoots[0] ?? process.cwd();
+    const child = spawn(command, args, { cwd: root, stdio: ['pipe', 'pipe', 'pipe'] });
+    try {
+      // A missing binary is reported here, before anything is written to it
+      await once(child, 'spawn');
+    } catch (err) {
+      this.logger.debug('oxlint language server did not start', {
+        command: [command, ...args].join(' '),
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return false;
+    }
+    const connection = createMessageConnection(
+      new StreamMessageReader(child.stdout!),
+      new StreamMessageWriter(child.stdin!),
+    );
+    connection.onNotification(
+      'textDocument/publishDiagnostics',
+      (params: PublishDiagnosticsParams) => this.onDiagnostics(params),
+    );
+    connection.onError(() => {
+      // The exit handler cleans up
+    });
+    child.stderr?.on('data', (chunk: Buffer) => {
+      this.logger.debug('oxlint stderr', { pid: child.pid, output: chunk.toString().trim() });
+    });
+    connection.listen();
+
+    const exited = new Promise<never>((_, reject) => {
+      child.once('exit', (code, signal) => {
+        reject(new Error(`${command} exited (${signal ?? `code ${code}`})`));
+      });
+      child.once('error', reject);
+    });
+    exited.catch(() => {
+      // Only awaited during startup
+    });
+
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([
+        connection.sendRequest('initialize', {
+          processId: process.pid,
+          rootUri: URI.file(root).toString(),
+          workspaceFolders: (this.workspaceRoots.length > 0 ? this.workspaceRoots : [root]).map((folder) => ({
+            uri: URI.file(folder).toString(),
+            name: path.basename(folder),
+          })),
+          capabilities: {},
+          initializationOptions: {
+            settings: { run: 'onType', configPath: this.config.configPath ?? null },
+          },
+        }),
+        exited,
+        new Promise<never>((_, reject) => {
+          timeoutHandle = setTimeout(
+            () => reject(new Error(`no answer to initialize within ${START_TIMEOUT_MS}ms`)),
+            START_TIMEOUT_MS,
+          );
+        }),
+      ]);
+      await connection.sendNotification('initialized', {});
+    } catch (err) {
+      this.logger.debug('oxlint language server did not start', {
+        command: [command, ...args].join(' '),
+        error: err instanceof Error ? err.message : String(err),
+      });
+      connection.dispose();
+      child.kill('SIGKILL');
+      return false;
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+
+    this.child = child;
+    this.connection = connection;
+    this.ready = true;
+    this.startedAt = Date.now();
+    child.on('exit', (code, signal) => this.onExit(child, code, signal));
+    this.healthCheckInterval = setInterval(() => {
+      void this.checkHealth();
+    }, HEALTH_CHECK_INTERVAL_MS);
+
+    this.logger.info('oxlint language server started', {
+      pid: child.pid,
+      command: [command, ...args].join(' '),
+    });
+    return true;
+  }
+
+  /**
+   * Lint a document through the server.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @param keepOpen - whether the document stays open for the next lint;
+   *   otherwise it is closed once linted, before any later lint of it
+   * @returns the diagnostics the server published for this content
+   */
+  lint(uri: string, content: string, keepOpen = true): Promise<Diagnostic[]> {
+    const previous = this.lintChains.get(uri) ?? Promise.resolve();
+    const result = previous
+      .catch(() => undefined)
+      .then(async () => {
+        try {
+          return await this.lintNow(uri, content);
+        } finally {
+          if (!keepOpen) {
+            this.close(uri);
+          }
+        }
+      });
+    this.lintChains.set(uri, result);
+    void result
+      .catch(() => undefined)
+      .then(() => {
+        if (this.lintChains.get(uri) === result) {
+          this.lintChains.delete(uri);
+        }
+      });
+    return result;
+  }
+
+  /**
+   * Close a document in the server.
+   */
+  close(uri: string): void {
+    if (!this.documents.delete(uri)) {
+      return;
+    }
+    this.settle(uri, (waiter) => waiter.resolve([]));
+    void this.connection
+      ?.sendNotification('textDocument/didClose', { textDocument: { uri } })
+      .catch(() => undefined);
+  }
+
+  /**
+   * Use a changed config. A new binary or config file needs a new server,
+   * which the caller restarts.
+   */
+  updateConfig(config: TsgoTurboConfig['oxc']): void {
+    this.config = config;
+  }
+
+  /**
+   * Shut the server down: `shutdown` and `exit`, then kill it if it is
+   * still running.
+   */
+  async stop(): Promise<void> {
+    const child = this.child;
+    const connection = this.connection;
+    this.stopping = true;
+    if (!child || !connection) {
+      return;
+    }
+
+    const exited = new Promise<void>((resolve) => child.once('exit', () => resolve()));
+    try {
+      await Promise.race([
+        connection.sendRequest('shutdown').then(() => connection.sendNotification('exit')),
+        new Promise((resolve) => setTimeout(resolve, SHUTDOWN_TIMEOUT_MS)),
+      ]);
+    } catch {
+      // Killed below
+    }
+    const forceKill = setTimeout(() => child.kill('SIGKILL'), SHUTDOWN_TIMEOUT_MS);
+    await exited;
+    clearTimeout(forceKill);
+  }
+
+  private async lintNow(uri: string, content: string): Promise<Diagnostic[]> {
+    const connection = this.connection;
+    if (!this.ready || !connection) {
+      throw new Error('oxlint language server is not running');
+    }
+
+    const document = this.documents.get(uri);
+    if (document && document.content === content && document.diagnostics) {
+      return document.diagnostics;
+    }
+
+    const diagnostics = new Promise<Diagnostic[]>((resolve, reject) => {
+      const timeoutHandle = setTimeout(() => {
+        this.waiters.delete(uri);
+        reject(
+          new Error(`oxlint language server sent no diagnostics for ${uri} within ${this.config.fileTimeoutMs}ms`),
+        );
+      }, this.config.fileTimeoutMs);
+      this.waiters.set(uri, { resolve, reject, timeoutHandle });
+    });
+
+    let open = document;
+    if (!open) {
+      open = { version: 1, content, diagnostics: undefined };
+      this.documents.set(uri, open);
+      await connection.sendNotification('textDocument/didOpen', {
+        textDocument: { uri, languageId: languageIdOf(uri), version: 1, text: content },
+      });
+    }
+    // The oxc language server lints the file on disk on open; only a change
+    // gets the content linted, so one follows every open. Also resent
+    // unchanged when no diagnostics came for it.
+    open.version++;
+    open.content = content;
+    open.diagnostics = undefined;
+    await connection.sendNotification('textDocument/didChange', {
+      textDocument: { uri, version: open.version },
+      contentChanges: [{ text: content }],
+    });
+    return diagnostics;
+  }
+
+  private onDiagnostics(params: PublishDiagnosticsParams): void {
+    const document = this.documents.get(params.uri);
+    if (!document || (params.version !== undefined && params.version < document.version)) {
+      return;
+    }
+    document.diagnostics = params.diagnostics;
+    this.settle(params.uri, (waiter) => waiter.resolve(params.diagnostics));
+  }
+
+  private settle(uri: string, action: (waiter: DiagnosticsWaiter) => void): void {
+    const waiter = this.waiters.get(uri);
+    if (waiter) {
+      this.waiters.delete(uri);
+      clearTimeout(waiter.timeoutHandle);
+      action(waiter);
+    }
+  }
+
+  private onExit(child: ChildProcess, code: number | null, signal: string | null): void {
+    if (this.child !== child) {
+      return;
+    }
+    this.ready = false;
+    this.child = undefined;
+    this.connection?.dispose();
+    this.connection = undefined;
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+      this.healthCheckInterval = undefined;
+    }
+    // A new server starts without documents
+    this.documents.clear();
+    for (const uri of this.waiters.keys()) {
+      this.settle(uri, (waiter) => waiter.reject(new Error('oxlint language server exited')));
+    }
+
+    if (this.stopping) {
+      this.logger.debug('oxlint language server exited', { pid: child.pid, code, signal });
+      return;
+    }
+    this.logger.warn('oxlint language server exited', { pid: child.pid, code, signal });
+    this.breaker.recordFailure(
+      `oxlint language server exited unexpectedly (${signal ?? `code ${code}`})`,
+    );
+    if (!this.breaker.isOpen) {
+      void this.start().then((started) => {
+        if (!started) {
+          this.breaker.recordFailure('oxlint language server failed to restart');
+        }
+      });
+    }
+  }
+
+  /**
+   * Kill the server if it does not answer a health check in time; the
+   * exit handler restarts it. Any answer counts, an error one included.
+   */
+  private async checkHealth(): Promise<void> {
+    const child = this.child;
+    const connection = this.connection;
+    if (!this.ready || !child || !connection) {
+      return;
+    }
+
+    let timeoutHandle: ReturnType<typeof setTimeout> | undefined;
+    try {
+      await Promise.race([
+        connection.sendRequest(HEALTH_CHECK_METHOD),
+        new Promise<never>((_, reject) => {
+          timeoutHandle = setTimeout(
+            () => reject(new Error(`no answer within ${HEALTH_CHECK_TIMEOUT_MS}ms`)),
+            HEALTH_CHECK_TIMEOUT_MS,
+          );
+        }),
+      ]);
+    } catch (err) {
+      if (err instanceof ResponseError) {
+        return;
+      }
+      this.logger.warn('oxlint language server failed its health check', {
+        pid: child.pid,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      child.kill('SIGKILL');
+    } finally {
+      clearTimeout(timeoutHandle);
+    }
+  }
+}
+
+/**
+ * The language id of a file, from its extension.
+ */
+function languageIdOf(uri: string): string {
+  return LANGUAGE_IDS[path.extname(uri).toLowerCase()] ?? 'typescript';
+}
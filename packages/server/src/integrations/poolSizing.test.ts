@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_CONFIG } from '@tsgo-turbo/shared';
+import { poolBounds, shouldScaleUp } from './poolSizing.js';
+
+const resources = { cores: 8, freeMemoryMb: 8192, processMemoryMb: 512 };
+
+describe('poolBounds', () => {
+  it('pins both bounds to a fixed pool size and clamps auto bounds', () => {
+    expect(poolBounds({ ...DEFAULT_CONFIG.tsgo, poolSize: 3 })).toEqual({ min: 3, max: 3 });
+    expect(poolBounds({ ...DEFAULT_CONFIG.tsgo, minProcesses: 2, maxProcesses: 6 })).toEqual({ min: 2, max: 6 });
+    expect(poolBounds({ ...DEFAULT_CONFIG.tsgo, minProcesses: 5, maxProcesses: 2 })).toEqual({ min: 2, max: 2 });
+  });
+});
+
+describe('shouldScaleUp', () => {
+  const bounds = { min: 1, max: 4 };
+
+  it('grows only while requests are queued and resources allow', () => {
+    expect(shouldScaleUp(1, 2, bounds, resources)).toBe(true);
+    expect(shouldScaleUp(1, 0, bounds, resources)).toBe(false);
+    expect(shouldScaleUp(4, 2, bounds, resources)).toBe(false);
+    expect(shouldScaleUp(2, 2, bounds, { ...resources, cores: 2 })).toBe(false);
+    expect(shouldScaleUp(1, 2, bounds, { ...resources, freeMemoryMb: 256 })).toBe(false);
+  });
+});
@@ -0,0 +1,78 @@
+import * as os from 'node:os';
+import type { TsgoTurboConfig } from '@tsgo-turbo/shared';
+
+/**
+ * Memory assumed for a tsgo process before any has been sampled, in MB.
+ */
+const DEFAULT_PROCESS_MEMORY_MB = 512;
+
+/**
+ * Number of processes a pool keeps running, and may grow to.
+ */
+export interface PoolBounds {
+  min: number;
+  max: number;
+}
+
+/**
+ * Machine resources that limit how far an auto-sized pool may grow.
+ */
+export interface PoolResources {
+  /** CPU cores available to this process */
+  cores: number;
+  /** Free system memory in MB */
+  freeMemoryMb: number;
+  /** Expected memory of one more process in MB */
+  processMemoryMb: number;
+}
+
+/**
+ * Compute the pool bounds from the tsgo config: a fixed `poolSize` pins
+ * both bounds; `'auto'` scales between `minProcesses` and `maxProcesses`.
+ */
+export function poolBounds(config: TsgoTurboConfig['tsgo']): PoolBounds {
+  if (config.poolSize !== 'auto') {
+    return { min: config.poolSize, max: config.poolSize };
+  }
+  const max = Math.max(1, config.maxProcesses);
+  return { min: Math.min(Math.max(1, config.minProcesses), max), max };
+}
+
+/**
+ * Decide whether an auto-sized pool with `serving` processes and `queued`
+ * waiting requests should start another process: only while requests are
+ * waiting, below the maximum, with a core to spare for each process and
+ * enough free memory for one more.
+ */
+export function shouldScaleUp(
+  serving: number,
+  queued: number,
+  bounds: PoolBounds,
+  resources: PoolResources,
+): boolean {
+  return (
+    queued > 0 &&
+    serving < bounds.max &&
+    serving < resources.cores &&
+    resources.freeMemoryMb >= resources.processMemoryMb
+  );
+}
+
+/**
+ * Read the current machine resources.
+ *
+ * @param sampledMemoryMb - resident memory of the running processes, used
+ *   to estimate the footprint of another one
+ */
+export function currentResources(sampledMemoryMb: number[]): PoolResources {
+  const samples = sampledMemoryMb.filter((mb) => mb > 0);
+  const processMemoryMb =
+    samples.length > 0
+      ? samples.reduce((sum, mb) => sum + mb, 0) / samples.length
+      : DEFAULT_PROCESS_MEMORY_MB;
+  return {
+    cores: os.availableParallelism(),
+    freeMemoryMb: os.freemem() / (1024 * 1024),
+    processMemoryMb,
+  };
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { ProcessMonitor, parseCpuTicks, parseRssKb } from './processStats.js';
+
+describe('processStats', () => {
+  it('reads CPU ticks from stat, even with spaces and parens in the command name', () => {
+    const stat =
+      '4242 (tsgo (worker) 1) S 1 4242 4242 0 -1 4194560 5120 0 0 0 730 270 0 0 20 0 12 0 81 1073741824 2048 18446744073709551615';
+
+    expect(parseCpuTicks(stat)).toBe(1000);
+    expect(parseCpuTicks('garbage')).toBeUndefined();
+  });
+
+  it('reads VmRSS from status', () => {
+    const status = 'Name:\ttsgo\nVmPeak:\t 9000000 kB\nVmRSS:\t 2097152 kB\nThreads:\t12\n';
+
+    expect(parseRssKb(status)).toBe(2097152);
+    expect(parseRssKb('Name:\ttsgo\n')).toBeUndefined();
+  });
+
+  it.runIf(process.platform === 'linux')('samples the current process', async () => {
+    const monitor = new ProcessMonitor();
+
+    const stats = await monitor.sample(process.pid);
+
+    expect(stats?.memoryMb).toBeGreaterThan(0);
+    expect(stats?.cpuPercent).toBe(0);
+    expect(await monitor.sample(2 ** 22 + 1)).toBeUndefined();
+  });
+});
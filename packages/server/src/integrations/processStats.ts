@@ -0,0 +1,116 @@
+import { readFile } from 'node:fs/promises';
+
+/**
+ * Kernel clock ticks per second (`USER_HZ`), the unit of the CPU times in
+ * `/proc/<pid>/stat`. Fixed at 100 on every mainstream Linux architecture.
+ */
+const CLOCK_TICKS_PER_SECOND = 100;
+
+/**
+ * Resource usage of a child process.
+ */
+export interface ProcessStats {
+  /** Resident set size in MB. */
+  memoryMb: number;
+  /** CPU usage since the previous sample, as a percentage of one core. */
+  cpuPercent: number;
+}
+
+/**
+ * Parse the total CPU time (user + system) in clock ticks from the contents
+ * of `/proc/<pid>/stat`.
+ *
+ * The command name (field 2) is parenthesized and may itself contain spaces
+ * or parentheses, so fields are counted from the last `)`.
+ */
+export function parseCpuTicks(stat: string): number | undefined {
+  const commEnd = stat.lastIndexOf(')');
+  if (commEnd < 0) {
+    return undefined;
+  }
+  // Fields after the command name start at field 3 (state);
+  // utime and stime are fields 14 and 15
+  const fields = stat.slice(commEnd + 1).trim().split(/\s+/);
+  const utime = Number(fields[11]);
+  const stime = Number(fields[12]);
+  if (!Number.isFinite(utime) || !Number.isFinite(stime)) {
+    return undefined;
+  }
+  return utime + stime;
+}
+
+/**
+ * Parse the resident set size in kB from the contents of
+ * `/proc/<pid>/status`.
+ */
+export function parseRssKb(status: string): number | undefined {
+  const match = /^VmRSS:\s*(\d+)\s*kB/m.exec(status);
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * ProcessMonitor samples memory and CPU usage of child processes from
+ * `/proc`. CPU usage is derived from the CPU time consumed between two
+ * samples of the same process, so the first sample reports 0%.
+ *
+ * On platforms without `/proc`, {@link sample} returns undefined.
+ *
+ * @example
+ * ```ts
+ * const monitor = new ProcessMonitor();
+ * const stats = await monitor.sample(child.pid);
+ * if (stats && stats.memoryMb > limitMb) recycle(child);
+ * ```
+ */
+export class ProcessMonitor {
+  /** Previous CPU time sample per pid. */
+  private readonly previous = new Map<number, { cpuTicks: number; sampledAt: number }>();
+
+  /**
+   * Read the current usage of a process.
+   *
+   * @param pid - process id
+   * @returns usage, or undefined if the process is gone or `/proc` is unavailable
+   */
+  async sample(pid: number): Promise<ProcessStats | undefined> {
+    let stat: string;
+    let status: string;
+    try {
+      [stat, status] = await Promise.all([
+        readFile(`/proc/${pid}/stat`, 'utf-8'),
+        readFile(`/proc/${pid}/status`, 'utf-8'),
+      ]);
+    } catch {
+      this.previous.delete(pid);
+      return undefined;
+    }
+
+    const cpuTicks = parseCpuTicks(stat);
+    const rssKb = parseRssKb(status);
+    if (cpuTicks === undefined || rssKb === undefined) {
+      return undefined;
+    }
+
+    const sampledAt = Date.now();
+    const last = this.previous.get(pid);
+    this.previous.set(pid, { cpuTicks, sampledAt });
+
+    let cpuPercent = 0;
+    if (last && sampledAt > last.sampledAt) {
+      const cpuSeconds = (cpuTicks - last.cpuTicks) / CLOCK_TICKS_PER_SECOND;
+      cpuPercent = (cpuSeconds / ((sampledAt - last.sampledAt) / 1000)) * 100;
+    }
+
+    return {
+      memoryMb: rssKb / 1024,
+      cpuPercent: Math.max(0, cpuPercent),
+    };
+  }
+
+  /**
+   * Drop the stored sample of a process that has exited.
+   */
+  forget(pid: number): void {
+    this.previous.delete(pid);
+  }
+}
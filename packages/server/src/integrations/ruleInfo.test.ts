@@ -0,0 +1,71 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import {
+  parseOxcRuleCode,
+  readOxlintConfig,
+  resolveRuleSetting,
+  ruleDocumentationUrl,
+} from './ruleInfo.js';
+
+let dir: string | undefined;
+
+afterEach(() => {
+  if (dir) {
+    rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  }
+});
+
+describe('ruleDocumentationUrl', () => {
+  it('links oxc rules by plugin and TypeScript errors by code', () => {
+    expect(ruleDocumentationUrl('oxc', 'eslint(no-debugger)')).toBe(
+      'https://oxc.rs/docs/guide/usage/linter/rules/eslint/no-debugger.html',
+    );
+    expect(ruleDocumentationUrl('oxc', 'typescript-eslint(no-explicit-any)')).toBe(
+      'https://oxc.rs/docs/guide/usage/linter/rules/typescript/no-explicit-any.html',
+    );
+    expect(parseOxcRuleCode('eslint-plugin-jsx-a11y(alt-text)')).toEqual({
+      scope: 'jsx_a11y',
+      rule: 'alt-text',
+    });
+    expect(ruleDocumentationUrl('tsgo', 'TS2322')).toBe('https://typescript.tv/errors/#ts2322');
+    expect(ruleDocumentationUrl('tsgo', undefined)).toBeUndefined();
+  });
+});
+
+describe('resolveRuleSetting', () => {
+  it('prefers oxc.rules, then the rule, then its category in the config file', () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'oxlintrc-'));
+    const file = path.join(dir, '.oxlintrc.json');
+    writeFileSync(
+      file,
+      [
+        '{',
+        '  // Comments are allowed',
+        '  "categories": { "correctness": "error", "suspicious": "warn" },',
+        '  "rules": { "@typescript-eslint/no-explicit-any": ["deny", {}], "no-debugger": "off" }',
+        '}',
+      ].join('\n'),
+    );
+    const config = readOxlintConfig(file);
+    const explicitAny = parseOxcRuleCode('typescript-eslint(no-explicit-any)')!;
+    const debuggerRule = parseOxcRuleCode('eslint(no-debugger)')!;
+    const other = parseOxcRuleCode('eslint(no-empty)')!;
+
+    expect(resolveRuleSetting(explicitAny, 'restriction', undefined, config)).toEqual({
+      severity: 'error',
+      origin: file,
+    });
+    expect(resolveRuleSetting(debuggerRule, 'correctness', { 'no-debugger': 'warn' }, config)).toEqual({
+      severity: 'warn',
+      origin: 'tsgoTurbo.oxc.rules',
+    });
+    expect(resolveRuleSetting(other, 'suspicious', undefined, config)).toEqual({
+      severity: 'warn',
+      origin: `${file} (category suspicious)`,
+    });
+    expect(resolveRuleSetting(other, undefined, undefined, undefined)).toBeUndefined();
+  });
+});
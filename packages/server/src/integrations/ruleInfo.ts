@@ -0,0 +1,260 @@
+import { readFileSync } from 'node:fs';
+import type { DiagnosticSource } from '@tsgo-turbo/shared';
+
+/** Base URL of the oxlint rule pages. */
+const OXC_RULES_URL = 'https://oxc.rs/docs/guide/usage/linter/rules';
+/**
+ * TypeScript has no official page per error code; this community index
+ * has an entry for each, anchored by code.
+ */
+const TS_ERRORS_URL = 'https://typescript.tv/errors/';
+
+/**
+ * Plugin names as they appear in oxlint diagnostic codes and config keys,
+ * mapped to the plugin scope oxlint's docs use.
+ */
+const PLUGIN_SCOPES: Record<string, string> = {
+  'typescript-eslint': 'typescript',
+  '@typescript-eslint': 'typescript',
+  'jsx-a11y': 'jsx_a11y',
+  'react-perf': 'react_perf',
+  next: 'nextjs',
+  '@next/next': 'nextjs',
+};
+
+/** Severity an oxc rule is set to. */
+export type RuleSeverity = 'off' | 'warn' | 'error';
+
+/**
+ * An oxlint rule, identified by its plugin scope and name.
+ */
+export interface OxcRuleId {
+  scope: string;
+  rule: string;
+}
+
+/**
+ * What `oxlint --rules --format=json` reports about a rule.
+ */
+export interface OxcRuleMeta {
+  category?: string;
+  description?: string;
+  url?: string;
+}
+
+/**
+ * The severity that applies to a rule and the setting it comes from.
+ */
+export interface RuleSetting {
+  severity: RuleSeverity;
+  /** Where it is set, e.g. `tsgoTurbo.oxc.rules` or the config file path */
+  origin: string;
+}
+
+/**
+ * Everything shown about an oxc rule.
+ */
+export interface OxcRuleInfo extends OxcRuleMeta {
+  id: OxcRuleId;
+  url: string;
+  /** Undefined when the rule is left at oxlint's default */
+  setting: RuleSetting | undefined;
+}
+
+/**
+ * The parts of an oxlint config file (`.oxlintrc.json`) that set rule
+ * severities.
+ */
+export interface OxlintConfigFile {
+  path: string;
+  rules: Record<string, unknown>;
+  categories: Record<string, unknown>;
+}
+
+/**
+ * Parse an oxlint diagnostic code: `eslint(no-debugger)`,
+ * `eslint-plugin-react(jsx-key)`, `typescript/no-explicit-any` or a bare
+ * rule name, which belongs to the eslint plugin.
+ */
+export function parseOxcRuleCode(code: string): OxcRuleId | undefined {
+  const match = /^(.+?)\((.+)\)$/.exec(code) ?? /^(.+)\/([^/]+)$/.exec(code);
+  if (!match) {
+    return /^[\w-]+$/.test(code) ? { scope: 'eslint', rule: code } : undefined;
+  }
+  const plugin = match[1].replace(/^eslint-plugin-/, '');
+  return { scope: PLUGIN_SCOPES[plugin] ?? plugin, rule: match[2] };
+}
+
+/**
+ * Documentation page of an oxlint rule.
+ */
+export function oxcRuleUrl(id: OxcRuleId): string {
+  return `${OXC_RULES_URL}/${id.scope}/${id.rule}.html`;
+}
+
+/**
+ * Documentation link for a diagnostic's code, when its tool has one.
+ */
+export function ruleDocumentationUrl(
+  source: DiagnosticSource,
+  code: string | undefined,
+): string | undefined {
+  if (!code) {
+    return undefined;
+  }
+  if (source === 'tsgo') {
+    const match = /^(?:TS)?(\d+)$/i.exec(code);
+    return match ? `${TS_ERRORS_URL}#ts${match[1]}` : undefined;
+  }
+  if (source === 'oxc') {
+    const id = parseOxcRuleCode(code);
+    return id ? oxcRuleUrl(id) : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Parse the rule list printed by `oxlint --rules --format=json`, keyed by
+ * `scope/rule`. Output that is not a JSON array yields no rules.
+ */
+export function parseRuleList(output: string): Map<string, OxcRuleMeta> {
+  const rules = new Map<string, OxcRuleMeta>();
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(output);
+  } catch {
+    return rules;
+  }
+  if (!Array.isArray(parsed)) {
+    return rules;
+  }
+
+  for (const entry of parsed as Array<Record<string, unknown>>) {
+    const scope = entry['scope'];
+    const rule = entry['value'];
+    if (typeof scope !== 'string' || typeof rule !== 'string') {
+      continue;
+    }
+    const meta: OxcRuleMeta = {};
+    if (typeof entry['category'] === 'string') {
+      meta.category = entry['category'];
+    }
+    if (typeof entry['description'] === 'string') {
+      meta.description = entry['description'];
+    }
+    if (typeof entry['docs_url'] === 'string') {
+      meta.url = entry['docs_url'];
+    }
+    rules.set(`${PLUGIN_SCOPES[scope] ?? scope}/${rule}`, meta);
+  }
+  return rules;
+}
+
+/**
+ * Read the rule and category severities from an oxlint config file.
+ * The file may contain comments.
+ *
+ * @returns the settings, or undefined when the file is missing or invalid
+ */
+export function readOxlintConfig(path: string): OxlintConfigFile | undefined {
+  try {
+    const text = stripJsonComments(readFileSync(path, 'utf-8'));
+    const parsed = JSON.parse(text) as Record<string, unknown>;
+    return {
+      path,
+      rules: asRecord(parsed['rules']),
+      categories: asRecord(parsed['categories']),
+    };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the severity that applies to a rule. `tsgoTurbo.oxc.rules`, passed
+ * on the command line, wins over the config file; within each, a setting
+ * for the rule wins over one for its category.
+ *
+ * @param id - the rule
+ * @param category - the rule's category, if known
+ * @param overrides - `tsgoTurbo.oxc.rules`
+ * @param configFile - the oxlint config file in use
+ * @returns the setting, or undefined when the rule is left at oxlint's default
+ */
+export function resolveRuleSetting(
+  id: OxcRuleId,
+  category: string | undefined,
+  overrides: Record<string, RuleSeverity> | undefined,
+  configFile: OxlintConfigFile | undefined,
+): RuleSetting | undefined {
+  const keys = ruleKeys(id);
+
+  const override = [...keys, ...(category ? [category] : [])]
+    .map((key) => overrides?.[key])
+    .find((value) => value !== undefined);
+  if (override) {
+    return { severity: override, origin: 'tsgoTurbo.oxc.rules' };
+  }
+
+  if (!configFile) {
+    return undefined;
+  }
+  for (const key of keys) {
+    const severity = toSeverity(configFile.rules[key]);
+    if (severity) {
+      return { severity, origin: configFile.path };
+    }
+  }
+  const severity = category ? toSeverity(configFile.categories[category]) : undefined;
+  return severity ? { severity, origin: `${configFile.path} (category ${category})` } : undefined;
+}
+
+/**
+ * Keys a rule may be configured under, most specific first.
+ */
+function ruleKeys(id: OxcRuleId): string[] {
+  const aliases = Object.entries(PLUGIN_SCOPES)
+    .filter(([, scope]) => scope === id.scope)
+    .map(([plugin]) => `${plugin}/${id.rule}`);
+  return [`${id.scope}/${id.rule}`, ...aliases, id.rule];
+}
+
+/**
+ * Normalize an oxlint severity: a name, a number, or an array whose first
+ * element is the severity.
+ */
+function toSeverity(value: unknown): RuleSeverity | undefined {
+  const severity = Array.isArray(value) ? (value as unknown[])[0] : value;
+  switch (severity) {
+    case 'off':
+    case 'allow':
+    case 0:
+      return 'off';
+    case 'warn':
+    case 1:
+      return 'warn';
+    case 'error':
+    case 'deny':
+    case 2:
+      return 'error';
+    default:
+      return undefined;
+  }
+}
+
+/** The value if it is a plain object, otherwise an empty one. */
+function asRecord(value: unknown): Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Remove `//` and block comments outside of strings.
+ */
+function stripJsonComments(text: string): string {
+  return text.replace(
+    /("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+    (_match, string: string | undefined) => string ?? '',
+  );
+}
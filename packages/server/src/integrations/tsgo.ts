@@ -1,20 +1,57 @@
-import { spawn, type ChildProcess } from 'node:child_process';
+import { execFile, spawn, type ChildProcess } from 'node:child_process';
+import {
+  CancellationTokenSource,
+  type CancellationToken,
+  type TextDocumentContentChangeEvent,
+} from 'vscode-languageserver';
 import type {
   TsgoTurboConfig,
   FileAnalysisResult,
   TurbodiagnosticItem,
   DiagnosticSeverity,
+  TsgoBinaryInfo,
 } from '@tsgo-turbo/shared';
 import { IPC_MESSAGES } from '@tsgo-turbo/shared';
 import type { Logger } from '../logger/index.js';
 import { FileCache } from '../cache/fileCache.js';
+import { ProcessMonitor } from './processStats.js';
+import { currentResources, poolBounds, shouldScaleUp } from './poolSizing.js';
+import { CancelledError } from './cancellation.js';
+import { CircuitBreaker, UnavailableError } from './circuitBreaker.js';
+import { resolveTsgoBinary, type ResolvedTsgoBinary } from './tsgoBinary.js';
+import { DocumentSync, type WorkerMessage } from './documentSync.js';
 
 /** Interval (ms) between health check pings to idle tsgo processes. */
 const HEALTH_CHECK_INTERVAL_MS = 30_000;
-/** Interval (ms) between memory/liveness checks on tsgo processes. */
+/** Interval (ms) between memory/CPU sampling and liveness checks on tsgo processes. */
 const MEMORY_CHECK_INTERVAL_MS = 10_000;
-/** Default tsgo binary name when no binaryPath is configured. */
-const DEFAULT_BINARY = 'tsgo';
+/** Timeout (ms) for the `--version` probe and capabilities handshake at startup. */
+const VERSION_PROBE_TIMEOUT_MS = 5_000;
+/**
+ * Optional tsgo requests. The capabilities handshake at startup reports
+ * which of them the binary supports; the others are turned off.
+ */
+export const TSGO_FEATURES = [
+  'typeInfo',
+  'completions',
+  'completionDetails',
+  'semanticTokens',
+  'inlayHints',
+  'documentSymbols',
+  'signatureHelp',
+  'definition',
+  'typeDefinition',
+  'implementation',
+  'references',
+  'prepareRename',
+  'rename',
+  /** Open/change/close notifications, so requests need not carry the content. */
+  'documentSync',
+] as const;
+
+/** An optional tsgo request, see {@link TSGO_FEATURES}. */
+export type TsgoFeature = (typeof TSGO_FEATURES)[number];
+
 /** Timeout (ms) for graceful shutdown before sending SIGKILL. */
 const FORCE_KILL_TIMEOUT_MS = 5_000;
 /** Delay (ms) between SIGTERM and SIGKILL during graceful shutdown. */
@@ -28,9 +65,19 @@ interface TsgoProcess {
   pid: number;
   busy: boolean;
   activeFile: string | undefined;
+  /** Id of the request being processed, the target of cancel messages. */
+  activeRequestId: number | undefined;
   startedAt: number;
   requestCount: number;
   lastHealthCheck: number;
+  /** Resident memory at the last sample, in MB. */
+  memoryMb: number;
+  /** CPU usage over the last sampling interval, in percent of one core. */
+  cpuPercent: number;
+  /** Recycled or scaled down: takes no new requests and exits once idle. */
+  draining: boolean;
+  /** When the process last finished a request (or started), for idle shutdown. */
+  lastUsedAt: number;
 }
 
 /**
@@ -42,6 +89,20 @@ interface TsgoResponse {
   diagnostics?: TsgoRawDiagnostic[];
   typeInfo?: TsgoTypeInfo;
   completions?: TsgoCompletion[];
+  /** Set when tsgo cut the completion list short. */
+  isIncomplete?: boolean;
+  completionDetails?: TsgoCompletionDetails;
+  locations?: TsgoLocation[];
+  renameInfo?: TsgoRenameInfo;
+  renameLocations?: TsgoRenameLocation[];
+  signatureHelp?: TsgoSignatureHelp;
+  semanticTokens?: TsgoSemanticToken[];
+  inlayHints?: TsgoInlayHint[];
+  symbols?: TsgoDocumentSymbol[];
+  /** URIs of the files the analyzed file imports, as resolved by tsgo. */
+  imports?: string[];
+  /** Request types the binary supports, in answer to the capabilities handshake. */
+  capabilities?: string[];
   error?: string;
   durationMs?: number;
 }
@@ -76,18 +137,201 @@ export interface TsgoCompletion {
   documentation?: string;
   sortText?: string;
   insertText?: string;
+  /** Whether `insertText` uses LSP snippet syntax. */
+  isSnippet?: boolean;
+  /** Module the symbol would be auto-imported from. */
+  source?: string;
+  /** Opaque entry data tsgo needs to compute details for this item. */
+  data?: unknown;
+}
+
+/** Completion list from tsgo. */
+export interface TsgoCompletionList {
+  items: TsgoCompletion[];
+  /** Whether tsgo truncated the list, so the client must re-query as the user types. */
+  isIncomplete: boolean;
+}
+
+/** Text edit from tsgo (zero-based). */
+export interface TsgoTextEdit {
+  /** File the edit applies to; the requested file when omitted. */
+  uri?: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  newText: string;
+}
+
+/** Lazily computed details of a completion item. */
+export interface TsgoCompletionDetails {
+  detail?: string;
+  documentation?: string;
+  /** Extra edits applied on accept, e.g. an auto-import declaration. */
+  additionalEdits?: TsgoTextEdit[];
+}
+
+/**
+ * Classified identifier from tsgo (zero-based, single line). `type` and
+ * `modifiers` use LSP semantic token names, e.g. `enumMember` with
+ * `readonly` and `deprecated`.
+ */
+export interface TsgoSemanticToken {
+  line: number;
+  column: number;
+  length: number;
+  type: string;
+  modifiers?: string[];
+}
+
+/**
+ * Inlay hint from tsgo (zero-based). For `type` hints `text` is the fully
+ * expanded type; `typeName` and `depth` feed the expansion guard.
+ */
+export interface TsgoInlayHint {
+  line: number;
+  column: number;
+  kind: 'type' | 'parameter';
+  text: string;
+  typeName?: string;
+  depth?: number;
+  /** Position of the identifier the hint describes, used to resolve a tooltip. */
+  symbolLine?: number;
+  symbolColumn?: number;
+}
+
+/**
+ * Outline entry from tsgo. `kind` uses LSP SymbolKind names in camelCase
+ * (`class`, `method`, `enumMember`, ...).
+ */
+export interface TsgoDocumentSymbol {
+  name: string;
+  kind: string;
+  detail?: string;
+  deprecated?: boolean;
+  /** Full extent of the declaration. */
+  range: TsgoRange;
+  /** Extent of the declaration's name. */
+  selectionRange: TsgoRange;
+  children?: TsgoDocumentSymbol[];
+}
+
+/** Analysis result with the outline tsgo collected while checking the file. */
+export interface TsgoAnalysisResult extends FileAnalysisResult {
+  symbols?: TsgoDocumentSymbol[];
+  /** Resolved URIs of imported files. */
+  imports?: string[];
+}
+
+/** Zero-based span sent with range-limited requests. */
+export interface TsgoRange {
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+}
+
+/** Parameter of a signature returned by tsgo. */
+export interface TsgoSignatureParameter {
+  name: string;
+  /** Fully expanded parameter type. */
+  type: string;
+  /** Short (alias) name of the parameter type, used when the expansion is truncated. */
+  typeName: string;
+  /** Expansion depth of the parameter type. */
+  depth: number;
+  optional?: boolean;
+  rest?: boolean;
+  documentation?: string;
+}
+
+/**
+ * Signature returned by tsgo. The label is `prefix`, then the parameters
+ * joined by `separator`, then `suffix` (e.g. `foo<T>(` ... `): T`).
+ */
+export interface TsgoSignature {
+  prefix: string;
+  separator: string;
+  suffix: string;
+  parameters: TsgoSignatureParameter[];
+  documentation?: string;
+}
+
+/** Signature help response from tsgo. */
+export interface TsgoSignatureHelp {
+  signatures: TsgoSignature[];
+  activeSignature: number;
+  /** Index of the argument the cursor is in. */
+  activeParameter: number;
+}
+
+/** Source location from tsgo navigation requests (zero-based). */
+export interface TsgoLocation {
+  uri: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+}
+
+/** Result of a tsgo prepareRename request. */
+export interface TsgoRenameInfo {
+  canRename: boolean;
+  /** Reason the symbol cannot be renamed, shown to the user. */
+  localizedErrorMessage?: string;
+  /** Current name of the symbol, used as the rename input default. */
+  placeholder?: string;
+  /** Span of the identifier being renamed (zero-based). */
+  range?: { line: number; column: number; endLine: number; endColumn: number };
+}
+
+/**
+ * Location to rewrite during a rename. Prefix/suffix text is set when the
+ * rename must preserve a binding, e.g. expanding the shorthand `{ id }` to
+ * `{ id: newName }`.
+ */
+export interface TsgoRenameLocation extends TsgoLocation {
+  prefixText?: string;
+  suffixText?: string;
 }
 
+/** Navigation request kinds that return a list of locations. */
+export type TsgoNavigationKind =
+  | 'definition'
+  | 'typeDefinition'
+  | 'implementation'
+  | 'references';
+
 /**
  * Request types for tsgo stdin protocol.
  */
 interface TsgoRequest {
+  /** Correlates cancel messages with the request; set by dispatch. */
+  id?: number;
   type: string;
   uri: string;
   content?: string;
+  /** Version of the worker's snapshot to use instead of `content`. */
+  version?: number;
   line?: number;
   column?: number;
   flags?: string[];
+  includeDeclaration?: boolean;
+  triggerCharacter?: string;
+  range?: TsgoRange;
+  includeSymbols?: boolean;
+  includeImports?: boolean;
+  entry?: { name: string; source?: string; data?: unknown };
+}
+
+/**
+ * A dispatched request waiting for a process or for its response.
+ */
+interface PendingRequest {
+  request: TsgoRequest;
+  resolve: (response: TsgoResponse) => void;
+  reject: (error: Error) => void;
+  timeoutHandle: ReturnType<typeof setTimeout>;
 }
 
 /**
@@ -98,6 +342,20 @@ interface TsgoRequest {
  * The pool size is configurable. When all processes are busy, requests are queued
  * and dispatched to the next available process.
  *
+ * Processes that keep crashing trip a {@link CircuitBreaker}: they are no
+ * longer respawned, requests fail fast with an {@link UnavailableError},
+ * and a new process is tried after an exponential backoff.
+ *
+ * The binary is looked up in the workspace folders before the configured
+ * path (see {@link resolveTsgoBinary}). At startup a capabilities handshake
+ * finds which {@link TSGO_FEATURES} it supports; requests for the others
+ * return empty results without reaching tsgo.
+ *
+ * Workers keep snapshots of the documents open in the editor: a document
+ * is sent in full once per worker, then kept current with incremental
+ * edits, and requests about it carry only its version (see
+ * {@link DocumentSync}).
+ *
  * @example
  * ```ts
  * const tsgo = new TsgoIntegration(config, logger);
@@ -108,48 +366,145 @@ interface TsgoRequest {
  */
 export class TsgoIntegration {
   private readonly pool: TsgoProcess[] = [];
-  private readonly pendingRequests: Array<{
-    request: TsgoRequest;
-    resolve: (response: TsgoResponse) => void;
-    reject: (error: Error) => void;
-    timeoutHandle: ReturnType<typeof setTimeout>;
-  }> = [];
+  private readonly pendingRequests: PendingRequest[] = [];
+  private nextRequestId = 1;
   private config: TsgoTurboConfig['tsgo'];
   private readonly logger: Logger;
-  private poolSize: number;
   private healthCheckInterval: ReturnType<typeof setInterval> | undefined;
   private memoryCheckInterval: ReturnType<typeof setInterval> | undefined;
+  private readonly processMonitor = new ProcessMonitor();
   private started = false;
   private shuttingDown = false;
   private respawning = false;
+  private toolVersion: string | undefined;
+  private readonly breaker: CircuitBreaker;
+  private workspaceRoots: string[] = [];
+  private binary: ResolvedTsgoBinary;
+  private features: ReadonlySet<TsgoFeature> = new Set(TSGO_FEATURES);
+  private readonly documentSync = new DocumentSync();
 
   /**
    * @param config - tsgo section of TsgoTurboConfig
    * @param logger - logger instance
-   * @param poolSize - number of concurrent tsgo processes (default 4)
    */
-  constructor(
-    config: TsgoTurboConfig['tsgo'],
-    logger: Logger,
-    poolSize = 4,
-  ) {
+  constructor(config: TsgoTurboConfig['tsgo'], logger: Logger) {
     this.config = config;
     this.logger = logger;
-    this.poolSize = poolSize;
+    this.breaker = new CircuitBreaker('tsgo', logger);
+    this.binary = resolveTsgoBinary(config.binaryPath, this.workspaceRoots);
+    this.breaker.onStateChange((state) => {
+      if (state === 'open') {
+        this.rejectPending(new UnavailableError(`tsgo is unavailable: ${this.breaker.reason}`));
+      } else if (state === 'halfOpen' && this.started && !this.shuttingDown) {
+        // Probe with a fresh pool; the first response closes the circuit
+        this.resizePool();
+      }
+    });
+  }
+
+  /** Version reported by the tsgo binary, once started. */
+  get version(): string | undefined {
+    return this.toolVersion;
+  }
+
+  /** Circuit breaker tracking process crashes. */
+  get circuit(): CircuitBreaker {
+    return this.breaker;
+  }
+
+  /** The binary in use, its version and the features it lacks. */
+  get binaryInfo(): TsgoBinaryInfo {
+    const info: TsgoBinaryInfo = {
+      path: this.binary.path,
+      source: this.binary.source,
+      unsupportedFeatures: TSGO_FEATURES.filter((feature) => !this.features.has(feature)),
+    };
+    if (this.toolVersion !== undefined) {
+      info.version = this.toolVersion;
+    }
+    return info;
+  }
+
+  /**
+   * Whether the binary supports an optional request. All features count as
+   * supported until the handshake says otherwise.
+   */
+  supports(feature: TsgoFeature): boolean {
+    return this.features.has(feature);
+  }
+
+  /**
+   * Track a document opened in the editor.
+   *
+   * @param uri - document URI
+   * @param version - document version
+   * @param content - document content
+   */
+  openDocument(uri: string, version: number, content: string): void {
+    this.documentSync.open(uri, version, content);
+  }
+
+  /**
+   * Forward an edit of an open document to the workers holding it.
+   *
+   * @param uri - document URI
+   * @param version - version after the edit
+   * @param content - content after the edit
+   * @param changes - the edit, as received from the client
+   */
+  changeDocument(
+    uri: string,
+    version: number,
+    content: string,
+    changes: TextDocumentContentChangeEvent[],
+  ): void {
+    this.sendToWorkers(this.documentSync.change(uri, version, content, changes));
+  }
+
+  /**
+   * Content of a document open in the editor, or undefined when it is not
+   * open.
+   */
+  documentContent(uri: string): string | undefined {
+    return this.documentSync.content(uri);
+  }
+
+  /**
+   * Stop tracking a document closed in the editor.
+   */
+  closeDocument(uri: string): void {
+    this.sendToWorkers(this.documentSync.close(uri));
+  }
+
+  /**
+   * Set the workspace folders searched for a local tsgo install. Switches
+   * the pool to a different binary if one is found.
+   *
+   * @param roots - file system paths of the workspace folders
+   */
+  setWorkspaceRoots(roots: string[]): void {
+    this.workspaceRoots = roots;
+    this.refreshBinary();
   }
 
   /**
    * Start the tsgo process pool.
-   * Spawns `poolSize` tsgo processes and begins health monitoring.
+   * Spawns the minimum number of tsgo processes (all of them for a fixed
+   * `poolSize`) and begins health monitoring.
    */
   async start(): Promise<void> {
     if (this.started) {
       return;
     }
 
-    this.logger.info('Starting tsgo process pool', { poolSize: this.poolSize });
+    const bounds = poolBounds(this.config);
+    this.logger.info('Starting tsgo process pool', {
+      poolSize: this.config.poolSize,
+      minProcesses: bounds.min,
+      maxProcesses: bounds.max,
+    });
 
-    for (let i = 0; i < this.poolSize; i++) {
+    for (let i = 0; i < bounds.min; i++) {
       try {
         const proc = this.spawnProcess();
         this.pool.push(proc);
@@ -166,13 +521,15 @@ export class TsgoIntegration {
     }
 
     this.started = true;
+    await this.handshake();
 
     this.healthCheckInterval = setInterval(() => {
       this.performHealthChecks();
     }, HEALTH_CHECK_INTERVAL_MS);
 
     this.memoryCheckInterval = setInterval(() => {
-      this.checkMemoryUsage();
+      void this.checkMemoryUsage();
+      this.stopIdleProcesses();
     }, MEMORY_CHECK_INTERVAL_MS);
 
     this.logger.info('tsgo process pool started', {
@@ -186,11 +543,22 @@ export class TsgoIntegration {
    * Dispatches the request to an available process in the pool. If all processes
    * are busy, the request is queued. Enforces a timeout per file.
    *
+   * The file's outline is requested in the same round trip so the
+   * workspace symbol index stays current without extra tsgo calls.
+   *
    * @param uri - file URI
    * @param content - file content
-   * @returns analysis result with diagnostics
+   * @param token - cancels the analysis in tsgo
+   * @returns analysis result with diagnostics and, if tsgo provided it, the
+   *   outline; marked `partial` when tsgo failed, crashed or timed out
+   * @throws CancelledError if the token is cancelled first
+   * @throws UnavailableError if tsgo is down
    */
-  async analyze(uri: string, content: string): Promise<FileAnalysisResult> {
+  async analyze(
+    uri: string,
+    content: string,
+    token?: CancellationToken,
+  ): Promise<TsgoAnalysisResult> {
     if (!this.started || this.shuttingDown) {
       throw new Error('TsgoIntegration is not running');
     }
@@ -203,10 +571,12 @@ export class TsgoIntegration {
       uri,
       content,
       flags: this.config.flags,
+      includeSymbols: true,
+      includeImports: true,
     };
 
     try {
-      const response = await this.dispatch(request);
+      const response = await this.dispatch(request, token);
       const analysisTimeMs = Date.now() - startTime;
 
       if (response.type === 'error') {
@@ -220,6 +590,7 @@ export class TsgoIntegration {
           analysisTimeMs,
           cached: false,
           contentHash,
+          partial: true,
         };
       }
 
@@ -229,14 +600,24 @@ export class TsgoIntegration {
         analysisTimeMs,
       );
 
-      return {
+      const result: TsgoAnalysisResult = {
         uri,
         diagnostics,
         analysisTimeMs,
         cached: false,
         contentHash,
       };
+      if (response.symbols) {
+        result.symbols = response.symbols;
+      }
+      if (response.imports) {
+        result.imports = response.imports;
+      }
+      return result;
     } catch (err) {
+      if (err instanceof CancelledError || err instanceof UnavailableError) {
+        throw err;
+      }
       const analysisTimeMs = Date.now() - startTime;
       this.logger.error('tsgo analysis failed', {
         uri,
@@ -244,37 +625,423 @@ export class TsgoIntegration {
         durationMs: analysisTimeMs,
       });
 
-      return {
-        uri,
-        diagnostics: [],
-        analysisTimeMs,
-        cached: false,
-        contentHash,
-      };
-    }
+      return {
+        uri,
+        diagnostics: [],
+        analysisTimeMs,
+        cached: false,
+        contentHash,
+        partial: true,
+      };
+    }
+  }
+
+  /**
+   * Get type information for a position in a file.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @param line - zero-based line number
+   * @param column - zero-based column number
+   * @param token - cancels the request in tsgo
+   * @returns type info or undefined on failure
+   */
+  async getTypeInfo(
+    uri: string,
+    content: string,
+    line: number,
+    column: number,
+    token?: CancellationToken,
+  ): Promise<TsgoTypeInfo | undefined> {
+    if (!this.available('typeInfo')) {
+      return undefined;
+    }
+
+    const request: TsgoRequest = {
+      type: 'typeInfo',
+      uri,
+      content,
+      line,
+      column,
+    };
+
+    try {
+      const response = await this.dispatch(request, token);
+      return response.typeInfo;
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        this.logger.debug('tsgo getTypeInfo cancelled', { uri, line, column });
+        return undefined;
+      }
+      this.logger.warn('tsgo getTypeInfo failed', {
+        uri,
+        line,
+        column,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Get completions at a position in a file.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @param line - zero-based line number
+   * @param column - zero-based column number
+   * @param token - cancels the request in tsgo
+   * @returns completion items and whether tsgo truncated the list
+   */
+  async getCompletions(
+    uri: string,
+    content: string,
+    line: number,
+    column: number,
+    token?: CancellationToken,
+  ): Promise<TsgoCompletionList> {
+    if (!this.available('completions')) {
+      return { items: [], isIncomplete: false };
+    }
+
+    const request: TsgoRequest = {
+      type: 'completions',
+      uri,
+      content,
+      line,
+      column,
+    };
+
+    try {
+      const response = await this.dispatch(request, token);
+      return {
+        items: response.completions ?? [],
+        isIncomplete: response.isIncomplete ?? false,
+      };
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        this.logger.debug('tsgo getCompletions cancelled', { uri, line, column });
+        return { items: [], isIncomplete: false };
+      }
+      this.logger.warn('tsgo getCompletions failed', {
+        uri,
+        line,
+        column,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return { items: [], isIncomplete: false };
+    }
+  }
+
+  /**
+   * Get documentation and auto-import edits for a completion item.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @param line - zero-based line number where completion was requested
+   * @param column - zero-based column number where completion was requested
+   * @param entry - the item's name, import source and opaque tsgo data
+   * @returns completion details or undefined on failure
+   */
+  async getCompletionDetails(
+    uri: string,
+    content: string,
+    line: number,
+    column: number,
+    entry: { name: string; source?: string; data?: unknown },
+  ): Promise<TsgoCompletionDetails | undefined> {
+    if (!this.available('completionDetails')) {
+      return undefined;
+    }
+
+    const request: TsgoRequest = {
+      type: 'completionDetails',
+      uri,
+      content,
+      line,
+      column,
+      entry,
+    };
+
+    try {
+      const response = await this.dispatch(request);
+      return response.completionDetails;
+    } catch (err) {
+      this.logger.warn('tsgo getCompletionDetails failed', {
+        uri,
+        name: entry.name,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Get semantic classifications for every identifier in a file.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @returns semantic tokens, or undefined on failure
+   */
+  async getSemanticTokens(
+    uri: string,
+    content: string,
+  ): Promise<TsgoSemanticToken[] | undefined> {
+    if (!this.available('semanticTokens')) {
+      return undefined;
+    }
+
+    const request: TsgoRequest = {
+      type: 'semanticTokens',
+      uri,
+      content,
+    };
+
+    try {
+      const response = await this.dispatch(request);
+      if (response.type === 'error') {
+        this.logger.debug('tsgo semanticTokens returned error', {
+          uri,
+          error: response.error,
+        });
+        return undefined;
+      }
+      return response.semanticTokens ?? [];
+    } catch (err) {
+      this.logger.warn('tsgo getSemanticTokens failed', {
+        uri,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Get inlay hints (inferred types, return types, parameter names) for a
+   * range of a file.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @param range - zero-based range to compute hints for (usually the viewport)
+   * @returns inlay hints (empty on failure)
+   */
+  async getInlayHints(
+    uri: string,
+    content: string,
+    range: TsgoRange,
+  ): Promise<TsgoInlayHint[]> {
+    if (!this.available('inlayHints')) {
+      return [];
+    }
+
+    const request: TsgoRequest = {
+      type: 'inlayHints',
+      uri,
+      content,
+      range,
+    };
+
+    try {
+      const response = await this.dispatch(request);
+      return response.inlayHints ?? [];
+    } catch (err) {
+      this.logger.warn('tsgo getInlayHints failed', {
+        uri,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Get the hierarchical outline of a file.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @returns document symbols, or undefined on failure
+   */
+  async getDocumentSymbols(
+    uri: string,
+    content: string,
+  ): Promise<TsgoDocumentSymbol[] | undefined> {
+    if (!this.available('documentSymbols')) {
+      return undefined;
+    }
+
+    const request: TsgoRequest = {
+      type: 'documentSymbols',
+      uri,
+      content,
+    };
+
+    try {
+      const response = await this.dispatch(request);
+      if (response.type === 'error') {
+        this.logger.debug('tsgo documentSymbols returned error', {
+          uri,
+          error: response.error,
+        });
+        return undefined;
+      }
+      return response.symbols ?? [];
+    } catch (err) {
+      this.logger.warn('tsgo getDocumentSymbols failed', {
+        uri,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Get signature help for the call or JSX element enclosing a position.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @param line - zero-based line number
+   * @param column - zero-based column number
+   * @param triggerCharacter - character that triggered the request, if any
+   * @returns signature help or undefined on failure
+   */
+  async getSignatureHelp(
+    uri: string,
+    content: string,
+    line: number,
+    column: number,
+    triggerCharacter?: string,
+  ): Promise<TsgoSignatureHelp | undefined> {
+    if (!this.available('signatureHelp')) {
+      return undefined;
+    }
+
+    const request: TsgoRequest = {
+      type: 'signatureHelp',
+      uri,
+      content,
+      line,
+      column,
+    };
+    if (triggerCharacter) {
+      request.triggerCharacter = triggerCharacter;
+    }
+
+    try {
+      const response = await this.dispatch(request);
+      return response.signatureHelp;
+    } catch (err) {
+      this.logger.warn('tsgo getSignatureHelp failed', {
+        uri,
+        line,
+        column,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Get the definition location(s) of the symbol at a position.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @param line - zero-based line number
+   * @param column - zero-based column number
+   * @returns definition locations (empty on failure)
+   */
+  async getDefinition(
+    uri: string,
+    content: string,
+    line: number,
+    column: number,
+  ): Promise<TsgoLocation[]> {
+    return this.getLocations({ type: 'definition', uri, content, line, column });
+  }
+
+  /**
+   * Get the location(s) where the type of the symbol at a position is declared.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @param line - zero-based line number
+   * @param column - zero-based column number
+   * @returns type definition locations (empty on failure)
+   */
+  async getTypeDefinition(
+    uri: string,
+    content: string,
+    line: number,
+    column: number,
+  ): Promise<TsgoLocation[]> {
+    return this.getLocations({ type: 'typeDefinition', uri, content, line, column });
+  }
+
+  /**
+   * Get the implementation location(s) of an interface, abstract member or
+   * overloaded symbol at a position.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @param line - zero-based line number
+   * @param column - zero-based column number
+   * @returns implementation locations (empty on failure)
+   */
+  async getImplementation(
+    uri: string,
+    content: string,
+    line: number,
+    column: number,
+  ): Promise<TsgoLocation[]> {
+    return this.getLocations({ type: 'implementation', uri, content, line, column });
   }
 
   /**
-   * Get type information for a position in a file.
+   * Find all references to the symbol at a position.
    *
    * @param uri - file URI
    * @param content - file content
    * @param line - zero-based line number
    * @param column - zero-based column number
-   * @returns type info or undefined on failure
+   * @param includeDeclaration - whether the declaration itself is included
+   * @returns reference locations (empty on failure)
    */
-  async getTypeInfo(
+  async getReferences(
     uri: string,
     content: string,
     line: number,
     column: number,
-  ): Promise<TsgoTypeInfo | undefined> {
-    if (!this.started || this.shuttingDown) {
+    includeDeclaration: boolean,
+  ): Promise<TsgoLocation[]> {
+    return this.getLocations({
+      type: 'references',
+      uri,
+      content,
+      line,
+      column,
+      includeDeclaration,
+    });
+  }
+
+  /**
+   * Check whether the symbol at a position can be renamed.
+   *
+   * @param uri - file URI
+   * @param content - file content
+   * @param line - zero-based line number
+   * @param column - zero-based column number
+   * @returns rename info or undefined on failure
+   */
+  async prepareRename(
+    uri: string,
+    content: string,
+    line: number,
+    column: number,
+  ): Promise<TsgoRenameInfo | undefined> {
+    if (!this.available('prepareRename')) {
       return undefined;
     }
 
     const request: TsgoRequest = {
-      type: 'typeInfo',
+      type: 'prepareRename',
       uri,
       content,
       line,
@@ -283,9 +1050,9 @@ export class TsgoIntegration {
 
     try {
       const response = await this.dispatch(request);
-      return response.typeInfo;
+      return response.renameInfo;
     } catch (err) {
-      this.logger.warn('tsgo getTypeInfo failed', {
+      this.logger.warn('tsgo prepareRename failed', {
         uri,
         line,
         column,
@@ -296,26 +1063,27 @@ export class TsgoIntegration {
   }
 
   /**
-   * Get completions at a position in a file.
+   * Find every location that must change to rename the symbol at a position,
+   * across all files in the project.
    *
    * @param uri - file URI
    * @param content - file content
    * @param line - zero-based line number
    * @param column - zero-based column number
-   * @returns array of completion items
+   * @returns rename locations, or undefined if the request failed
    */
-  async getCompletions(
+  async getRenameLocations(
     uri: string,
     content: string,
     line: number,
     column: number,
-  ): Promise<TsgoCompletion[]> {
-    if (!this.started || this.shuttingDown) {
-      return [];
+  ): Promise<TsgoRenameLocation[] | undefined> {
+    if (!this.available('rename')) {
+      return undefined;
     }
 
     const request: TsgoRequest = {
-      type: 'completions',
+      type: 'rename',
       uri,
       content,
       line,
@@ -324,15 +1092,22 @@ export class TsgoIntegration {
 
     try {
       const response = await this.dispatch(request);
-      return response.completions ?? [];
+      if (response.type === 'error') {
+        this.logger.debug('tsgo rename returned error', {
+          uri,
+          error: response.error,
+        });
+        return undefined;
+      }
+      return response.renameLocations ?? [];
     } catch (err) {
-      this.logger.warn('tsgo getCompletions failed', {
+      this.logger.warn('tsgo rename failed', {
         uri,
         line,
         column,
         error: err instanceof Error ? err.message : String(err),
       });
-      return [];
+      return undefined;
     }
   }
 
@@ -341,6 +1116,9 @@ export class TsgoIntegration {
    */
   updateConfig(config: TsgoTurboConfig['tsgo']): void {
     this.config = config;
+    if (!this.refreshBinary() && this.started && !this.shuttingDown) {
+      this.resizePool();
+    }
     this.logger.info('tsgo configuration updated');
   }
 
@@ -353,6 +1131,8 @@ export class TsgoIntegration {
     activeFile: string | undefined;
     requestCount: number;
     startedAt: number;
+    memoryMb: number;
+    cpuPercent: number;
   }> {
     return this.pool.map((p) => ({
       pid: p.pid,
@@ -360,6 +1140,8 @@ export class TsgoIntegration {
       activeFile: p.activeFile,
       requestCount: p.requestCount,
       startedAt: p.startedAt,
+      memoryMb: p.memoryMb,
+      cpuPercent: p.cpuPercent,
     }));
   }
 
@@ -382,12 +1164,8 @@ export class TsgoIntegration {
       this.memoryCheckInterval = undefined;
     }
 
-    // Reject all pending requests
-    for (const pending of this.pendingRequests) {
-      clearTimeout(pending.timeoutHandle);
-      pending.reject(new Error('TsgoIntegration shutting down'));
-    }
-    this.pendingRequests.length = 0;
+    this.breaker.dispose();
+    this.rejectPending(new Error('TsgoIntegration shutting down'));
 
     // Kill all processes
     const killPromises = this.pool.map((proc) => this.killProcess(proc));
@@ -399,8 +1177,142 @@ export class TsgoIntegration {
     this.logger.info('tsgo process pool shut down');
   }
 
+  /**
+   * Write document notifications to their workers. A worker that has exited
+   * is resynced by its replacement.
+   */
+  private sendToWorkers(messages: WorkerMessage[]): void {
+    for (const { pid, message } of messages) {
+      const proc = this.pool.find((p) => p.pid === pid);
+      try {
+        proc?.process.stdin?.write(JSON.stringify(message) + '\n');
+      } catch {
+        // The worker is gone; the exit handler cleans up
+      }
+    }
+  }
+
+  /**
+   * Whether a request for an optional feature should be sent: the pool is
+   * running and the binary supports it.
+   */
+  private available(feature: TsgoFeature): boolean {
+    return this.started && !this.shuttingDown && this.features.has(feature);
+  }
+
+  /**
+   * Resolve the binary again after a config or workspace change. When it
+   * differs, the running processes are replaced and the handshake repeated.
+   *
+   * @returns whether the binary changed
+   */
+  private refreshBinary(): boolean {
+    const resolved = resolveTsgoBinary(this.config.binaryPath, this.workspaceRoots);
+    if (resolved.path === this.binary.path) {
+      return false;
+    }
+
+    this.logger.info('Using tsgo binary', { binaryPath: resolved.path, source: resolved.source });
+    this.binary = resolved;
+    // A different binary deserves a fresh start
+    this.breaker.reset();
+    if (!this.started || this.shuttingDown) {
+      return true;
+    }
+
+    for (const proc of this.pool.filter((p) => !p.draining)) {
+      this.retireProcess(proc, 'Replacing tsgo process after binary change');
+    }
+    this.resizePool();
+    void this.handshake();
+    return true;
+  }
+
+  /**
+   * Find the version of the binary and the optional features it supports.
+   */
+  private async handshake(): Promise<void> {
+    const [version, features] = await Promise.all([
+      this.probeVersion(),
+      this.probeFeatures(),
+    ]);
+    this.toolVersion = version;
+    this.features = features;
+
+    const unsupported = TSGO_FEATURES.filter((feature) => !features.has(feature));
+    this.logger.info('tsgo handshake complete', {
+      binaryPath: this.binary.path,
+      source: this.binary.source,
+      version,
+      unsupported,
+    });
+  }
+
+  /**
+   * Ask a tsgo process which optional requests it supports. A binary that
+   * predates the handshake does not list them, and is assumed to support
+   * all of them. The handshake is given up when the processes keep crashing.
+   */
+  private async probeFeatures(): Promise<ReadonlySet<TsgoFeature>> {
+    const source = new CancellationTokenSource();
+    const timeout = setTimeout(() => source.cancel(), VERSION_PROBE_TIMEOUT_MS);
+    const unsubscribe = this.breaker.onStateChange((state) => {
+      if (state === 'open') {
+        source.cancel();
+      }
+    });
+    try {
+      const response = await this.dispatch(
+        { type: IPC_MESSAGES.CAPABILITIES, uri: '' },
+        source.token,
+      );
+      if (response.type === 'result' && Array.isArray(response.capabilities)) {
+        const supported = new Set<string>(response.capabilities);
+        return new Set(TSGO_FEATURES.filter((feature) => supported.has(feature)));
+      }
+      this.logger.debug('tsgo did not list its capabilities; assuming all features', {
+        error: response.error,
+      });
+    } catch (err) {
+      this.logger.debug('tsgo capabilities handshake failed; assuming all features', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      clearTimeout(timeout);
+      unsubscribe();
+      source.dispose();
+    }
+    return new Set(TSGO_FEATURES);
+  }
+
+  /**
+   * Ask the tsgo binary for its version, which identifies its results in
+   * the persistent cache. Resolves to undefined if the probe fails.
+   */
+  private probeVersion(): Promise<string | undefined> {
+    const binaryPath = this.binary.path;
+    return new Promise((resolve) => {
+      execFile(
+        binaryPath,
+        ['--version'],
+        { timeout: VERSION_PROBE_TIMEOUT_MS },
+        (err, stdout) => {
+          if (err) {
+            this.logger.debug('tsgo version probe failed', {
+              binaryPath,
+              error: err.message,
+            });
+            resolve(undefined);
+            return;
+          }
+          resolve(stdout.trim());
+        },
+      );
+    });
+  }
+
   private spawnProcess(): TsgoProcess {
-    const binaryPath = this.config.binaryPath ?? DEFAULT_BINARY;
+    const binaryPath = this.binary.path;
     const args = ['--lsp-stdio', ...this.config.flags];
 
     this.logger.debug('Spawning tsgo process', { binaryPath, args });
@@ -420,28 +1332,46 @@ export class TsgoIntegration {
       pid,
       busy: false,
       activeFile: undefined,
+      activeRequestId: undefined,
       startedAt: Date.now(),
       requestCount: 0,
       lastHealthCheck: Date.now(),
+      memoryMb: 0,
+      cpuPercent: 0,
+      draining: false,
+      lastUsedAt: Date.now(),
     };
 
     // Handle process exit — remove from pool and spawn replacement
     child.on('exit', (code, signal) => {
-      this.logger.warn('tsgo process exited', { pid, code, signal });
+      this.processMonitor.forget(pid);
+      this.documentSync.forgetWorker(pid);
+      if (tsgoProc.draining) {
+        this.logger.debug('Drained tsgo process exited', { pid, code, signal });
+      } else {
+        this.logger.warn('tsgo process exited', { pid, code, signal });
+        if (!this.shuttingDown) {
+          this.breaker.recordFailure(
+            `tsgo process exited unexpectedly (${signal ?? `code ${code}`})`,
+          );
+        }
+      }
 
       // Clean up any active stdout listener for this process
       if (tsgoProc.busy && child.stdout) {
         child.stdout.removeAllListeners('data');
         tsgoProc.busy = false;
         tsgoProc.activeFile = undefined;
+        tsgoProc.activeRequestId = undefined;
       }
 
       const idx = this.pool.indexOf(tsgoProc);
       if (idx >= 0) {
         this.pool.splice(idx, 1);
       }
-      // Respawn if not shutting down (guard against concurrent respawns)
-      if (!this.shuttingDown && !this.respawning && this.pool.length < this.poolSize) {
+      // Respawn if not shutting down (guard against concurrent respawns),
+      // unless the circuit opened: the probe spawns the next process
+      if (!this.shuttingDown && !this.respawning && !this.breaker.isOpen && this.servingProcessCount() < poolBounds(this.config).min) {
         this.respawning = true;
         try {
           const replacement = this.spawnProcess();
@@ -466,6 +1396,14 @@ export class TsgoIntegration {
         pid,
         error: err.message,
       });
+      // Without a pid the process never started, and no exit event follows
+      if (pid === -1) {
+        const idx = this.pool.indexOf(tsgoProc);
+        if (idx >= 0) {
+          this.pool.splice(idx, 1);
+        }
+        this.breaker.recordFailure(`Failed to start tsgo: ${err.message}`);
+      }
     });
 
     // Log stderr for debugging
@@ -488,46 +1426,112 @@ export class TsgoIntegration {
 
   /**
    * Dispatch a request to an available process or queue it.
+   *
+   * When the token is cancelled, a queued request is dropped without ever
+   * reaching tsgo; a running one is cancelled in the worker running it.
+   * Either way the returned promise rejects with a CancelledError.
    */
-  private dispatch(request: TsgoRequest): Promise<TsgoResponse> {
+  private dispatch(
+    request: TsgoRequest,
+    token?: CancellationToken,
+  ): Promise<TsgoResponse> {
     return new Promise((resolve, reject) => {
+      if (token?.isCancellationRequested) {
+        reject(new CancelledError(`tsgo ${request.type} cancelled for ${request.uri}`));
+        return;
+      }
+      if (this.breaker.isOpen) {
+        reject(new UnavailableError(`tsgo is unavailable: ${this.breaker.reason}`));
+        return;
+      }
+
+      request.id = this.nextRequestId++;
+      const cancellation = token?.onCancellationRequested(() => {
+        this.cancelRequest(pending);
+      });
+
       const timeoutHandle = setTimeout(() => {
         // Remove from pending queue
-        const idx = this.pendingRequests.findIndex(
-          (p) => p.resolve === resolve,
-        );
+        const idx = this.pendingRequests.indexOf(pending);
         if (idx >= 0) {
           this.pendingRequests.splice(idx, 1);
         }
-        reject(new Error(`tsgo request timed out after ${this.config.fileTimeoutMs}ms for ${request.uri}`));
+        pending.reject(new Error(`tsgo request timed out after ${this.config.fileTimeoutMs}ms for ${request.uri}`));
       }, this.config.fileTimeoutMs);
 
-      const pending = { request, resolve, reject, timeoutHandle };
+      const pending: PendingRequest = {
+        request,
+        resolve: (response) => {
+          cancellation?.dispose();
+          resolve(response);
+        },
+        reject: (error) => {
+          cancellation?.dispose();
+          reject(error);
+        },
+        timeoutHandle,
+      };
 
       // Try to find an idle process
-      const idle = this.pool.find((p) => !p.busy);
+      const idle = this.findIdleProcess();
       if (idle) {
         this.sendToProcess(idle, pending);
       } else {
         this.pendingRequests.push(pending);
+        this.scaleUp();
       }
     });
   }
 
+  /**
+   * Cancel a dispatched request. Queued requests are removed; for a running
+   * request the worker is told to stop, and stays busy until it answers.
+   */
+  private cancelRequest(pending: PendingRequest): void {
+    const { request } = pending;
+    const error = new CancelledError(`tsgo ${request.type} cancelled for ${request.uri}`);
+
+    const idx = this.pendingRequests.indexOf(pending);
+    if (idx >= 0) {
+      this.pendingRequests.splice(idx, 1);
+      clearTimeout(pending.timeoutHandle);
+      pending.reject(error);
+      this.logger.debug('Dropped queued tsgo request', {
+        type: request.type,
+        uri: request.uri,
+      });
+      return;
+    }
+
+    const proc = this.pool.find((p) => p.activeRequestId === request.id);
+    if (!proc) {
+      // Answered already, or its worker died: don't wait for the timeout
+      clearTimeout(pending.timeoutHandle);
+      pending.reject(error);
+      return;
+    }
+    try {
+      proc.process.stdin?.write(
+        JSON.stringify({ type: IPC_MESSAGES.CANCEL, id: request.id }) + '\n',
+      );
+    } catch {
+      // The worker is gone; the exit handler cleans up
+    }
+    pending.reject(error);
+    this.logger.debug('Cancelled running tsgo request', {
+      pid: proc.pid,
+      type: request.type,
+      uri: request.uri,
+    });
+  }
+
   /**
    * Send a request to a specific process.
    */
-  private sendToProcess(
-    proc: TsgoProcess,
-    pending: {
-      request: TsgoRequest;
-      resolve: (response: TsgoResponse) => void;
-      reject: (error: Error) => void;
-      timeoutHandle: ReturnType<typeof setTimeout>;
-    },
-  ): void {
+  private sendToProcess(proc: TsgoProcess, pending: PendingRequest): void {
     proc.busy = true;
     proc.activeFile = pending.request.uri;
+    proc.activeRequestId = pending.request.id;
     proc.requestCount++;
 
     const stdin = proc.process.stdin;
@@ -536,6 +1540,7 @@ export class TsgoIntegration {
     if (!stdin || !stdout) {
       proc.busy = false;
       proc.activeFile = undefined;
+      proc.activeRequestId = undefined;
       clearTimeout(pending.timeoutHandle);
       pending.reject(new Error('tsgo process has no stdin/stdout'));
       return;
@@ -562,7 +1567,13 @@ export class TsgoIntegration {
           clearTimeout(pending.timeoutHandle);
           proc.busy = false;
           proc.activeFile = undefined;
+          proc.activeRequestId = undefined;
+          proc.lastUsedAt = Date.now();
+          this.breaker.recordSuccess();
           pending.resolve(response);
+          if (proc.draining) {
+            void this.killProcess(proc);
+          }
           // Dispatch next pending request
           this.dispatchPending();
           return;
@@ -576,24 +1587,68 @@ export class TsgoIntegration {
 
     // Send the request as a newline-delimited JSON message
     try {
-      stdin.write(JSON.stringify(pending.request) + '\n');
+      let request = pending.request;
+      if (request.content !== undefined && this.features.has('documentSync')) {
+        // Bring the worker's snapshot up to date and refer to it by version
+        const sync = this.documentSync.syncFor(proc.pid, request.uri, request.content);
+        for (const message of sync.messages) {
+          stdin.write(JSON.stringify(message) + '\n');
+        }
+        if (sync.version !== undefined) {
+          request = { ...request, version: sync.version };
+          delete request.content;
+        }
+      }
+      stdin.write(JSON.stringify(request) + '\n');
     } catch (err) {
       stdout.removeListener('data', onData);
       clearTimeout(pending.timeoutHandle);
       proc.busy = false;
       proc.activeFile = undefined;
+      proc.activeRequestId = undefined;
       pending.reject(
         err instanceof Error ? err : new Error(String(err)),
       );
     }
   }
 
+  /**
+   * Dispatch a navigation request and return its locations.
+   */
+  private async getLocations(
+    request: TsgoRequest & { type: TsgoNavigationKind },
+  ): Promise<TsgoLocation[]> {
+    if (!this.available(request.type)) {
+      return [];
+    }
+
+    try {
+      const response = await this.dispatch(request);
+      if (response.type === 'error') {
+        this.logger.debug(`tsgo ${request.type} returned error`, {
+          uri: request.uri,
+          error: response.error,
+        });
+        return [];
+      }
+      return response.locations ?? [];
+    } catch (err) {
+      this.logger.warn(`tsgo ${request.type} failed`, {
+        uri: request.uri,
+        line: request.line,
+        column: request.column,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return [];
+    }
+  }
+
   /**
    * Try to dispatch queued requests to idle processes.
    */
   private dispatchPending(): void {
     while (this.pendingRequests.length > 0) {
-      const idle = this.pool.find((p) => !p.busy);
+      const idle = this.findIdleProcess();
       if (!idle) {
         break;
       }
@@ -602,6 +1657,127 @@ export class TsgoIntegration {
     }
   }
 
+  /**
+   * Find a process that can take a request.
+   */
+  private findIdleProcess(): TsgoProcess | undefined {
+    return this.pool.find((p) => !p.busy && !p.draining);
+  }
+
+  /**
+   * Number of processes taking new requests (excludes draining ones).
+   */
+  private servingProcessCount(): number {
+    return this.pool.filter((p) => !p.draining).length;
+  }
+
+  /**
+   * Reject every queued request with `error`.
+   */
+  private rejectPending(error: Error): void {
+    for (const pending of this.pendingRequests) {
+      clearTimeout(pending.timeoutHandle);
+      pending.reject(error);
+    }
+    this.pendingRequests.length = 0;
+  }
+
+  /**
+   * Start another process for an auto-sized pool when requests are queued
+   * and the machine has a core and the memory to spare.
+   */
+  private scaleUp(): void {
+    if (this.config.poolSize !== 'auto' || this.shuttingDown) {
+      return;
+    }
+    const serving = this.servingProcessCount();
+    const resources = currentResources(this.pool.map((p) => p.memoryMb));
+    if (!shouldScaleUp(serving, this.pendingRequests.length, poolBounds(this.config), resources)) {
+      return;
+    }
+
+    try {
+      const proc = this.spawnProcess();
+      this.pool.push(proc);
+      this.logger.info('Scaled up tsgo process pool', {
+        pid: proc.pid,
+        processes: serving + 1,
+        queued: this.pendingRequests.length,
+      });
+      this.dispatchPending();
+    } catch (err) {
+      this.logger.error('Failed to scale up tsgo process pool', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * Stop processes of an auto-sized pool that have been idle for
+   * `idleTimeoutMs`, down to the minimum.
+   */
+  private stopIdleProcesses(): void {
+    if (this.config.poolSize !== 'auto' || this.config.idleTimeoutMs <= 0 || this.shuttingDown) {
+      return;
+    }
+
+    const now = Date.now();
+    const min = poolBounds(this.config).min;
+    const idle = this.pool
+      .filter((p) => !p.busy && !p.draining && now - p.lastUsedAt >= this.config.idleTimeoutMs)
+      .sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+
+    for (const proc of idle) {
+      if (this.servingProcessCount() <= min) {
+        break;
+      }
+      this.retireProcess(proc, 'Stopping idle tsgo process');
+    }
+  }
+
+  /**
+   * Bring the pool within its bounds after a config change: spawn up to the
+   * minimum, and retire processes above the maximum (idle ones first).
+   */
+  private resizePool(): void {
+    const bounds = poolBounds(this.config);
+
+    while (!this.breaker.isOpen && this.servingProcessCount() < bounds.min) {
+      try {
+        this.pool.push(this.spawnProcess());
+      } catch (err) {
+        this.logger.error('Failed to spawn tsgo process', {
+          error: err instanceof Error ? err.message : String(err),
+        });
+        break;
+      }
+    }
+    this.dispatchPending();
+
+    const serving = this.pool
+      .filter((p) => !p.draining)
+      .sort((a, b) => Number(a.busy) - Number(b.busy));
+    for (const proc of serving.slice(0, Math.max(0, serving.length - bounds.max))) {
+      this.retireProcess(proc, 'Stopping tsgo process above pool size');
+    }
+  }
+
+  /**
+   * Take a process out of service without replacing it. A busy process
+   * finishes its current request first.
+   */
+  private retireProcess(proc: TsgoProcess, reason: string): void {
+    proc.draining = true;
+    this.logger.info(reason, {
+      pid: proc.pid,
+      idleMs: Date.now() - proc.lastUsedAt,
+      requestCount: proc.requestCount,
+    });
+    if (!proc.busy) {
+      void this.killProcess(proc);
+    }
+  }
+
   /**
    * Perform health checks on all processes.
    */
@@ -625,25 +1801,39 @@ export class TsgoIntegration {
   }
 
   /**
-   * Check memory usage of all processes and restart those exceeding the limit.
+   * Sample memory and CPU usage of all processes and recycle those
+   * exceeding `maxMemoryMb`. Processes that no longer exist are replaced.
    */
-  private checkMemoryUsage(): void {
-    for (const proc of this.pool) {
-      if (proc.busy) {
-        continue;
+  private async checkMemoryUsage(): Promise<void> {
+    const processes = [...this.pool];
+    const samples = await Promise.all(
+      processes.map((proc) => this.processMonitor.sample(proc.pid)),
+    );
+
+    processes.forEach((proc, i) => {
+      const stats = samples[i];
+      if (stats) {
+        proc.memoryMb = stats.memoryMb;
+        proc.cpuPercent = stats.cpuPercent;
+        if (stats.memoryMb > this.config.maxMemoryMb && !proc.draining) {
+          this.recycleProcess(proc);
+        }
+        return;
       }
+
+      // No /proc entry: either the process is gone or /proc is unavailable
       try {
-        // On Linux, we can read /proc/pid/status for memory info.
-        // For portability, we use a kill(0) check — process is alive.
-        // Full memory monitoring would use pidusage or /proc reads.
-        // For now, we rely on the --max-old-space-size limit in the spawn env.
         process.kill(proc.pid, 0);
       } catch {
         this.logger.warn('tsgo process no longer alive', { pid: proc.pid });
         const idx = this.pool.indexOf(proc);
         if (idx >= 0) {
           this.pool.splice(idx, 1);
-          if (!this.shuttingDown && this.pool.length < this.poolSize) {
+          if (
+            !this.shuttingDown &&
+            !this.breaker.isOpen &&
+            this.servingProcessCount() < poolBounds(this.config).min
+          ) {
             try {
               const replacement = this.spawnProcess();
               this.pool.push(replacement);
@@ -653,6 +1843,44 @@ export class TsgoIntegration {
           }
         }
       }
+    });
+  }
+
+  /**
+   * Replace a process that exceeded the memory limit. A replacement is
+   * spawned right away; the old process finishes its current request (if
+   * any), then exits.
+   */
+  private recycleProcess(proc: TsgoProcess): void {
+    if (this.shuttingDown) {
+      return;
+    }
+
+    proc.draining = true;
+    this.logger.warn('Recycling tsgo process over memory limit', {
+      pid: proc.pid,
+      memoryMb: Math.round(proc.memoryMb),
+      maxMemoryMb: this.config.maxMemoryMb,
+      activeFile: proc.activeFile,
+      requestCount: proc.requestCount,
+    });
+
+    try {
+      const replacement = this.spawnProcess();
+      this.pool.push(replacement);
+      this.logger.info('Spawned replacement tsgo process', {
+        oldPid: proc.pid,
+        newPid: replacement.pid,
+      });
+      this.dispatchPending();
+    } catch (err) {
+      this.logger.error('Failed to spawn replacement tsgo process', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    if (!proc.busy) {
+      void this.killProcess(proc);
     }
   }
 
@@ -0,0 +1,49 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { resolveTsgoBinary } from './tsgoBinary.js';
+
+let root: string;
+
+function touch(file: string, content = ''): void {
+  mkdirSync(path.dirname(file), { recursive: true });
+  writeFileSync(file, content);
+}
+
+describe('resolveTsgoBinary', () => {
+  beforeEach(() => {
+    root = mkdtempSync(path.join(tmpdir(), 'tsgo-binary-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('prefers the workspace install over the configured path', () => {
+    const packageDir = path.join(root, 'node_modules', '@typescript', 'native-preview');
+    touch(path.join(packageDir, 'package.json'), JSON.stringify({ bin: { tsgo: './bin/tsgo.js' } }));
+    touch(path.join(packageDir, 'bin', 'tsgo.js'));
+
+    expect(resolveTsgoBinary('/opt/tsgo', [root])).toEqual({
+      path: path.join(packageDir, 'bin', 'tsgo.js'),
+      source: 'nativePreview',
+    });
+
+    const linked = path.join(root, 'node_modules', '.bin', process.platform === 'win32' ? 'tsgo.cmd' : 'tsgo');
+    touch(linked);
+    expect(resolveTsgoBinary('/opt/tsgo', [root])).toEqual({ path: linked, source: 'workspace' });
+  });
+
+  it('falls back to the configured path, then PATH', () => {
+    expect(resolveTsgoBinary('/opt/tsgo', [root])).toEqual({ path: '/opt/tsgo', source: 'config' });
+
+    const previous = process.env['PATH'];
+    process.env['PATH'] = root;
+    try {
+      expect(resolveTsgoBinary(undefined, [root])).toEqual({ path: 'tsgo', source: 'path' });
+    } finally {
+      process.env['PATH'] = previous;
+    }
+  });
+});
@@ -0,0 +1,90 @@
+import { existsSync, readFileSync } from 'node:fs';
+import * as path from 'node:path';
+import type { TsgoBinaryInfo } from '@tsgo-turbo/shared';
+
+/** Name of the tsgo executable. */
+const BINARY_NAME = 'tsgo';
+/** The npm package that ships tsgo. */
+const NATIVE_PREVIEW_PACKAGE = '@typescript/native-preview';
+
+/**
+ * A tsgo executable and where it was found.
+ */
+export interface ResolvedTsgoBinary {
+  path: string;
+  source: TsgoBinaryInfo['source'];
+}
+
+/**
+ * Find the tsgo binary to spawn. A tsgo installed in one of the workspace
+ * folders wins, so the version the project pins is the one that checks it:
+ * first `node_modules/.bin/tsgo`, then the `bin` of the
+ * `@typescript/native-preview` package. Otherwise the configured
+ * `binaryPath` is used, and finally `tsgo` on PATH.
+ *
+ * @param configured - `tsgo.binaryPath` from the config, if set
+ * @param workspaceRoots - file system paths of the workspace folders
+ */
+export function resolveTsgoBinary(
+  configured: string | undefined,
+  workspaceRoots: readonly string[],
+): ResolvedTsgoBinary {
+  for (const root of workspaceRoots) {
+    const linked = findExecutable(path.join(root, 'node_modules', '.bin'));
+    if (linked) {
+      return { path: linked, source: 'workspace' };
+    }
+  }
+
+  for (const root of workspaceRoots) {
+    const packaged = nativePreviewBinary(root);
+    if (packaged) {
+      return { path: packaged, source: 'nativePreview' };
+    }
+  }
+
+  if (configured) {
+    return { path: configured, source: 'config' };
+  }
+
+  for (const dir of (process.env['PATH'] ?? '').split(path.delimiter)) {
+    const found = dir ? findExecutable(dir) : undefined;
+    if (found) {
+      return { path: found, source: 'path' };
+    }
+  }
+  // Not found: let spawn report it
+  return { path: BINARY_NAME, source: 'path' };
+}
+
+/**
+ * The tsgo executable in a directory, with the extensions Windows needs.
+ */
+function findExecutable(dir: string): string | undefined {
+  const names =
+    process.platform === 'win32'
+      ? [`${BINARY_NAME}.exe`, `${BINARY_NAME}.cmd`]
+      : [BINARY_NAME];
+  return names.map((name) => path.join(dir, name)).find((file) => existsSync(file));
+}
+
+/**
+ * The `tsgo` bin declared by `@typescript/native-preview` when it is
+ * installed under `root`.
+ */
+function nativePreviewBinary(root: string): string | undefined {
+  const packageDir = path.join(root, 'node_modules', NATIVE_PREVIEW_PACKAGE);
+  try {
+    const manifest = JSON.parse(
+      readFileSync(path.join(packageDir, 'package.json'), 'utf-8'),
+    ) as { bin?: string | Record<string, string> };
+    const bin = typeof manifest.bin === 'string' ? manifest.bin : manifest.bin?.[BINARY_NAME];
+    if (!bin) {
+      return undefined;
+    }
+    const file = path.join(packageDir, bin);
+    return existsSync(file) ? file : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { LineIndex, negotiatePositionEncoding } from './lineIndex.js';
+
+// "é" is 2 UTF-8 bytes and 1 UTF-16 unit; "🚀" is 4 bytes, 2 units and 1 code point
+const text = 'const é = 1;\r\nlet 🚀 = "ü";\nend';
+
+describe('LineIndex', () => {
+  it('maps offsets, byte offsets and positions in every encoding', () => {
+    const index = new LineIndex(text);
+    const afterRocket = text.indexOf(' = "ü"');
+
+    expect(index.lineCount).toBe(3);
+    expect(index.positionAt(afterRocket)).toEqual({ line: 1, character: 6 });
+    expect(index.positionAt(afterRocket, 'utf-8')).toEqual({ line: 1, character: 8 });
+    expect(index.positionAt(afterRocket, 'utf-32')).toEqual({ line: 1, character: 5 });
+    expect(index.offsetAt({ line: 1, character: 8 }, 'utf-8')).toBe(afterRocket);
+    expect(index.offsetAt({ line: 1, character: 5 }, 'utf-32')).toBe(afterRocket);
+
+    // Bytes: "const é = 1;\r\n" is 15, "let " 4, the rocket 4
+    expect(index.offsetOfByte(23)).toBe(afterRocket);
+    // Inside the rocket: the start of the character
+    expect(index.offsetOfByte(21)).toBe(afterRocket - 2);
+    expect(index.offsetOfByte(Buffer.byteLength(text))).toBe(text.length);
+
+    // Past the end of a line stops before its line break
+    expect(index.offsetAt({ line: 0, character: 99 }, 'utf-8')).toBe(text.indexOf('\r'));
+    expect(index.convert({ line: 1, character: 11 }, 'utf-16', 'utf-8')).toEqual({
+      line: 1,
+      character: 14,
+    });
+  });
+});
+
+describe('negotiatePositionEncoding', () => {
+  it('takes the first supported encoding the client offers, else UTF-16', () => {
+    expect(negotiatePositionEncoding(['utf-8', 'utf-16'])).toBe('utf-8');
+    expect(negotiatePositionEncoding(['latin-1', 'utf-32'])).toBe('utf-32');
+    expect(negotiatePositionEncoding(['latin-1'])).toBe('utf-16');
+    expect(negotiatePositionEncoding(undefined)).toBe('utf-16');
+  });
+});
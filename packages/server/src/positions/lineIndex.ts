@@ -0,0 +1,242 @@
+import type { Position } from 'vscode-languageserver';
+
+/**
+ * Unit that `Position.character` counts: UTF-8 bytes, UTF-16 code units
+ * (the LSP default, and what JavaScript strings, `TextDocument` and tsgo
+ * use) or UTF-32 code points.
+ */
+export type PositionEncoding = 'utf-8' | 'utf-16' | 'utf-32';
+
+/** Encodings the server can speak, in the order it prefers them. */
+export const SUPPORTED_POSITION_ENCODINGS: readonly PositionEncoding[] = [
+  'utf-16',
+  'utf-8',
+  'utf-32',
+];
+
+/**
+ * Pick the position encoding for a session: the first encoding the client
+ * offers in `general.positionEncodings` that the server supports, or UTF-16
+ * when the client offers none, as the protocol requires.
+ *
+ * @param offered - the client's encodings, most preferred first
+ */
+export function negotiatePositionEncoding(
+  offered: readonly string[] | undefined,
+): PositionEncoding {
+  const match = offered?.find((encoding): encoding is PositionEncoding =>
+    SUPPORTED_POSITION_ENCODINGS.includes(encoding as PositionEncoding),
+  );
+  return match ?? 'utf-16';
+}
+
+/**
+ * LineIndex maps between offsets and positions in one text, in any
+ * {@link PositionEncoding}.
+ *
+ * The start offset of every line is computed once, so a lookup is a binary
+ * search for the line followed by a walk along that line only. Byte
+ * offsets, as oxc reports them, are mapped the same way through a second
+ * table built on first use. `\n`, `\r\n` and `\r` end lines, as in
+ * `TextDocument`.
+ *
+ * @example
+ * ```ts
+ * const index = new LineIndex('const é = 1;\nlet 🚀 = 2;');
+ * index.positionAt(index.offsetOfByte(22)); // { line: 1, character: 6 }, after the emoji
+ * index.offsetAt({ line: 1, character: 5 }, 'utf-32'); // 19, the same place
+ * ```
+ */
+export class LineIndex {
+  readonly text: string;
+  /** UTF-16 offset of the start of each line. */
+  private readonly lineStarts: number[];
+  /** UTF-8 byte offset of the start of each line, built on first use. */
+  private byteLineStarts: number[] | undefined;
+
+  /**
+   * @param text - the text to index
+   */
+  constructor(text: string) {
+    this.text = text;
+    this.lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+      const ch = text.charCodeAt(i);
+      if (ch === 13 /* \r */ || ch === 10 /* \n */) {
+        if (ch === 13 && text.charCodeAt(i + 1) === 10) {
+          i++;
+        }
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  /** Number of lines; a text ending with a line break ends with an empty line. */
+  get lineCount(): number {
+    return this.lineStarts.length;
+  }
+
+  /**
+   * Position of a UTF-16 offset. Offsets outside the text are clamped to it.
+   *
+   * @param offset - UTF-16 offset into the text
+   * @param encoding - unit of the returned `character`
+   */
+  positionAt(offset: number, encoding: PositionEncoding = 'utf-16'): Position {
+    const clamped = Math.max(0, Math.min(offset, this.text.length));
+    const line = findLine(this.lineStarts, clamped);
+    const start = this.lineStarts[line];
+    const character =
+      encoding === 'utf-16'
+        ? clamped - start
+        : measure(this.text, start, clamped, encoding);
+    return { line, character };
+  }
+
+  /**
+   * UTF-16 offset of a position. Lines past the end map to the end of the
+   * text; characters past the end of a line map to the end of the line.
+   *
+   * @param position - zero-based position
+   * @param encoding - unit of the position's `character`
+   */
+  offsetAt(position: Position, encoding: PositionEncoding = 'utf-16'): number {
+    if (position.line >= this.lineStarts.length) {
+      return this.text.length;
+    }
+    if (position.line < 0) {
+      return 0;
+    }
+    const start = this.lineStarts[position.line];
+    const end = this.lineContentEnd(position.line);
+    const character = Math.max(0, position.character);
+    if (encoding === 'utf-16') {
+      return Math.min(start + character, end);
+    }
+    return advance(this.text, start, end, character, encoding);
+  }
+
+  /**
+   * UTF-16 offset of a UTF-8 byte offset. An offset inside a multi-byte
+   * character maps to the start of that character.
+   *
+   * @param byteOffset - UTF-8 byte offset into the text
+   */
+  offsetOfByte(byteOffset: number): number {
+    const byteStarts = this.getByteLineStarts();
+    const clamped = Math.max(0, byteOffset);
+    const line = findLine(byteStarts, clamped);
+    const start = this.lineStarts[line];
+    const end =
+      line + 1 < this.lineStarts.length ? this.lineStarts[line + 1] : this.text.length;
+    return advance(this.text, start, end, clamped - byteStarts[line], 'utf-8');
+  }
+
+  /**
+   * Re-express a position in another encoding.
+   *
+   * @param position - the position, in `from` units
+   * @param from - unit of the given position's `character`
+   * @param to - unit of the returned position's `character`
+   */
+  convert(position: Position, from: PositionEncoding, to: PositionEncoding): Position {
+    return from === to ? position : this.positionAt(this.offsetAt(position, from), to);
+  }
+
+  /**
+   * UTF-16 offset where a line's content ends, before its line break.
+   */
+  private lineContentEnd(line: number): number {
+    if (line + 1 >= this.lineStarts.length) {
+      return this.text.length;
+    }
+    let end = this.lineStarts[line + 1];
+    if (this.text.charCodeAt(end - 1) === 10 /* \n */) {
+      end--;
+    }
+    if (end > this.lineStarts[line] && this.text.charCodeAt(end - 1) === 13 /* \r */) {
+      end--;
+    }
+    return end;
+  }
+
+  private getByteLineStarts(): number[] {
+    if (!this.byteLineStarts) {
+      const starts = [0];
+      for (let line = 1; line < this.lineStarts.length; line++) {
+        starts.push(
+          starts[line - 1] +
+            measure(this.text, this.lineStarts[line - 1], this.lineStarts[line], 'utf-8'),
+        );
+      }
+      this.byteLineStarts = starts;
+    }
+    return this.byteLineStarts;
+  }
+}
+
+/**
+ * Index of the last line starting at or before `offset`.
+ */
+function findLine(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Length of `text[from, to)` in the units of `encoding`.
+ */
+function measure(text: string, from: number, to: number, encoding: PositionEncoding): number {
+  if (encoding === 'utf-16') {
+    return to - from;
+  }
+  let units = 0;
+  for (let i = from; i < to; i++) {
+    const code = text.codePointAt(i)!;
+    if (code > 0xffff) {
+      i++;
+    }
+    units += encoding === 'utf-32' ? 1 : utf8Length(code);
+  }
+  return units;
+}
+
+/**
+ * UTF-16 offset reached by moving `units` (in `encoding`) from `from`, not
+ * past `to`. Stops before a character the move would end inside of.
+ */
+function advance(
+  text: string,
+  from: number,
+  to: number,
+  units: number,
+  encoding: PositionEncoding,
+): number {
+  let offset = from;
+  let remaining = units;
+  while (offset < to) {
+    const code = text.codePointAt(offset)!;
+    const width = code > 0xffff ? 2 : 1;
+    const size = encoding === 'utf-8' ? utf8Length(code) : encoding === 'utf-32' ? 1 : width;
+    if (size > remaining) {
+      break;
+    }
+    remaining -= size;
+    offset += width;
+  }
+  return Math.min(offset, to);
+}
+
+/** Bytes UTF-8 uses for a code point; lone surrogates encode as U+FFFD. */
+function utf8Length(code: number): number {
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+}
@@ -0,0 +1,201 @@
+import { readFileSync, statSync } from 'node:fs';
+import type { Position, Range } from 'vscode-languageserver';
+import {
+  TextDocument,
+  type TextDocumentContentChangeEvent,
+} from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import { LineIndex, type PositionEncoding } from './lineIndex.js';
+
+/** Number of files whose line index is kept between conversions. */
+const MAX_CACHED_INDEXES = 64;
+
+/** A cached line index, with the file stamp when it was read from disk. */
+interface CachedIndex {
+  index: LineIndex;
+  stamp?: string;
+}
+
+/**
+ * PositionEncoder converts positions between the encoding negotiated with
+ * the client and UTF-16, which the server, `TextDocument` and tsgo use
+ * internally. Providers convert request positions with `positionToServer`
+ * and `rangeToServer`, and result positions with `positionToClient` and
+ * `rangeToClient`.
+ *
+ * With UTF-16, the default, every conversion returns its input. Otherwise
+ * the text of the file is needed: that of the open document, or the file
+ * on disk for results in other files. Line indexes are cached per file and
+ * rebuilt when the text changes.
+ *
+ * @example
+ * ```ts
+ * const encoder = new PositionEncoder('utf-8', (uri) => documents.get(uri)?.getText());
+ * const position = encoder.positionToServer(uri, params.position);
+ * const range = encoder.rangeToClient(location.uri, location.range);
+ * ```
+ */
+export class PositionEncoder {
+  readonly encoding: PositionEncoding;
+  private readonly getText: (uri: string) => string | undefined;
+  private readonly indexes = new Map<string, CachedIndex>();
+
+  /**
+   * @param encoding - the encoding negotiated with the client
+   * @param getText - text of an open document, or undefined when it is not open
+   */
+  constructor(
+    encoding: PositionEncoding = 'utf-16',
+    getText: (uri: string) => string | undefined = () => undefined,
+  ) {
+    this.encoding = encoding;
+    this.getText = getText;
+  }
+
+  /**
+   * Line index of a file, built from `text` when given, else from the open
+   * document or the file on disk.
+   *
+   * @param uri - the file URI
+   * @param text - the file's current text, if the caller has it
+   * @returns the index, or undefined when the text is unavailable
+   */
+  lineIndex(uri: string, text: string): LineIndex;
+  lineIndex(uri: string, text?: string): LineIndex | undefined;
+  lineIndex(uri: string, text?: string): LineIndex | undefined {
+    const cached = this.indexes.get(uri);
+    const current = text ?? this.getText(uri);
+    if (current !== undefined) {
+      if (cached && cached.stamp === undefined && cached.index.text === current) {
+        return this.touch(uri, cached).index;
+      }
+      return this.remember(uri, { index: new LineIndex(current) }).index;
+    }
+
+    const file = URI.parse(uri);
+    if (file.scheme !== 'file') {
+      return undefined;
+    }
+    try {
+      const stats = statSync(file.fsPath);
+      const stamp = `${stats.mtimeMs}:${stats.size}`;
+      if (cached?.stamp === stamp) {
+        return this.touch(uri, cached).index;
+      }
+      const index = new LineIndex(readFileSync(file.fsPath, 'utf-8'));
+      return this.remember(uri, { index, stamp }).index;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Convert a client position to UTF-16.
+   *
+   * @param uri - the file the position is in
+   * @param position - position in the negotiated encoding
+   * @param text - the file's text, if the caller has it
+   */
+  positionToServer(uri: string, position: Position, text?: string): Position {
+    return this.convert(uri, position, text, this.encoding, 'utf-16');
+  }
+
+  /**
+   * Convert a client range to UTF-16.
+   */
+  rangeToServer(uri: string, range: Range, text?: string): Range {
+    return {
+      start: this.positionToServer(uri, range.start, text),
+      end: this.positionToServer(uri, range.end, text),
+    };
+  }
+
+  /**
+   * Convert a UTF-16 position to the negotiated encoding.
+   *
+   * @param uri - the file the position is in
+   * @param position - UTF-16 position
+   * @param text - the file's text, if the caller has it
+   */
+  positionToClient(uri: string, position: Position, text?: string): Position {
+    return this.convert(uri, position, text, 'utf-16', this.encoding);
+  }
+
+  /**
+   * Convert a UTF-16 range to the negotiated encoding.
+   */
+  rangeToClient(uri: string, range: Range, text?: string): Range {
+    return {
+      start: this.positionToClient(uri, range.start, text),
+      end: this.positionToClient(uri, range.end, text),
+    };
+  }
+
+  /**
+   * Convert the ranges of a `didChange` notification's edits to UTF-16.
+   * Each edit's range refers to the text left by the edits before it, so
+   * they are converted while being applied to a copy of the document.
+   *
+   * @param document - the document before the edits
+   * @param changes - the edits, with ranges in the negotiated encoding
+   */
+  changesToServer(
+    document: TextDocument,
+    changes: TextDocumentContentChangeEvent[],
+  ): TextDocumentContentChangeEvent[] {
+    if (this.encoding === 'utf-16') {
+      return changes;
+    }
+    let current = TextDocument.create(
+      document.uri,
+      document.languageId,
+      document.version,
+      document.getText(),
+    );
+    return changes.map((change) => {
+      const converted =
+        'range' in change
+          ? { ...change, range: this.rangeToServer(document.uri, change.range, current.getText()) }
+          : change;
+      current = TextDocument.update(current, [converted], current.version);
+      return converted;
+    });
+  }
+
+  /**
+   * Convert a position between encodings. Positions in files whose text is
+   * unavailable are returned unchanged.
+   */
+  private convert(
+    uri: string,
+    position: Position,
+    text: string | undefined,
+    from: PositionEncoding,
+    to: PositionEncoding,
+  ): Position {
+    if (from === to) {
+      return position;
+    }
+    const index = this.lineIndex(uri, text);
+    return index ? index.convert(position, from, to) : position;
+  }
+
+  /** Mark a cached index as recently used. */
+  private touch(uri: string, cached: CachedIndex): CachedIndex {
+    this.indexes.delete(uri);
+    this.indexes.set(uri, cached);
+    return cached;
+  }
+
+  /** Cache an index, evicting the least recently used one when full. */
+  private remember(uri: string, cached: CachedIndex): CachedIndex {
+    this.touch(uri, cached);
+    if (this.indexes.size > MAX_CACHED_INDEXES) {
+      const oldest = this.indexes.keys().next().value;
+      if (oldest !== undefined) {
+        this.indexes.delete(oldest);
+      }
+    }
+    return cached;
+  }
+}
@@ -0,0 +1,147 @@
+import { describe, it, expect } from 'vitest';
+import { CodeActionKind, type CodeActionParams, type TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DEFAULT_CONFIG, type TurbodiagnosticItem } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import { PositionEncoder } from '../positions/positionEncoder.js';
+import type { DiagnosticsProvider } from './diagnostics.js';
+import {
+  CodeActionProvider,
+  FIX_ALL_KIND,
+  MAX_FIX_ALL_PASSES,
+  applyOxcFixes,
+  type OxcFixData,
+} from './codeAction.js';
+
+const uri = 'file:///test.ts';
+
+function fix(message: string, start: number, end: number, content: string): OxcFixData {
+  return { message, edits: [{ span: { start, end }, content }] };
+}
+
+function providerFor(lint: (content: string) => OxcFixData[]) {
+  let passes = 0;
+  const bridge = {
+    lintForFixes: async (_uri: string, content: string) => {
+      passes++;
+      return lint(content).map(
+        (f): TurbodiagnosticItem => ({
+          file: uri,
+          line: 1,
+          column: 1,
+          message: f.message,
+          severity: 'warning',
+          source: 'oxc',
+          code: 'eslint(no-var)',
+          computeTimeMs: 0,
+          data: { fix: f },
+        }),
+      );
+    },
+  } as unknown as AnalysisBridge;
+  const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+  const provider = new CodeActionProvider(
+    {} as DiagnosticsProvider,
+    bridge,
+    new PositionEncoder(),
+    logger,
+  );
+  return { provider, passes: () => passes };
+}
+
+function params(only?: string[]): CodeActionParams {
+  return {
+    textDocument: { uri },
+    range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+    context: only ? { diagnostics: [], only } : { diagnostics: [] },
+  };
+}
+
+describe('applyOxcFixes', () => {
+  it('applies non-overlapping fixes and resolves overlaps by position, not report order', () => {
+    const text = 'const é = a  ;';
+    // Byte offsets: "é" is two bytes, so "a" starts at 11
+    const trim = fix('Remove spaces', 12, 14, '');
+    const rename = fix('Rename a', 11, 12, 'b');
+    const widen = fix('Replace a', 11, 14, 'c;');
+    const quote = fix('Add quotes', 11, 12, '"a"');
+
+    expect(applyOxcFixes(text, [trim, rename])).toBe('const é = b;');
+    expect(applyOxcFixes(text, [quote, widen, rename])).toBe('const é = "a"  ;');
+    expect(applyOxcFixes(text, [rename, widen, quote])).toBe('const é = "a"  ;');
+  });
+});
+
+describe('CodeActionProvider.provideCodeActions', () => {
+  it('places oxc fixes by byte offset after non-ASCII text', async () => {
+    const source = 'const msg = "héllo 👋";\nvar x = 1;\n';
+    const document = TextDocument.create(uri, 'typescript', 1, source);
+    const varStart = Buffer.byteLength(source.slice(0, source.indexOf('var')));
+    const diagnostic = {
+      range: { start: { line: 1, character: 0 }, end: { line: 1, character: 3 } },
+      message: 'Unexpected var',
+      source: 'tsgo-turbo (oxc)',
+      data: { fix: fix('Use let', varStart, varStart + 3, 'let'), source: 'oxc' },
+    };
+    const { provider } = providerFor(() => []);
+
+    const [action] = await provider.provideCodeActions(
+      { ...params(), context: { diagnostics: [diagnostic] } },
+      source,
+    );
+    const edits = action.edit!.changes![uri] as TextEdit[];
+    expect(edits[0].range).toEqual({ start: { line: 1, character: 0 }, end: { line: 1, character: 3 } });
+    expect(TextDocument.applyEdits(document, edits)).toBe('const msg = "héllo 👋";\nlet x = 1;\n');
+  });
+
+  it('lints once for the fixes of oxc diagnostics published without one', async () => {
+    const source = 'var x = 1;\n';
+    const diagnostic = (character: number) => ({
+      range: { start: { line: 0, character }, end: { line: 0, character: character + 3 } },
+      message: 'Unexpected var',
+      source: 'tsgo-turbo (oxc)',
+      code: 'eslint(no-var)',
+    });
+    const { provider, passes } = providerFor(() => [fix('Use let', 0, 3, 'let')]);
+
+    const actions = await provider.provideCodeActions(
+      { ...params(), context: { diagnostics: [diagnostic(0), diagnostic(4)] } },
+      source,
+    );
+    expect(passes()).toBe(1);
+    const fixes = actions.filter((a) => a.title.startsWith('Fix: '));
+    expect(fixes.map((a) => [a.title, a.diagnostics?.[0]?.range.start.character])).toEqual([['Fix: Use let', 0]]);
+  });
+});
+
+describe('CodeActionProvider.provideFixAllAction', () => {
+  it('fixes until the file is stable and replaces only what changed', async () => {
+    const firstVar = (content: string) => {
+      const index = content.indexOf('var ');
+      return index < 0 ? [] : [fix('Use let', index, index + 3, 'let')];
+    };
+    const source = 'var a = 1;\nconst x = 0;\nvar b = 2;\n';
+    const document = TextDocument.create(uri, 'typescript', 1, source);
+    const { provider, passes } = providerFor(firstVar);
+
+    expect(await provider.provideFixAllAction(params([CodeActionKind.QuickFix]), source)).toBeNull();
+    expect(passes()).toBe(0);
+
+    const action = await provider.provideFixAllAction(params([CodeActionKind.SourceFixAll]), source);
+    expect(action?.kind).toBe(FIX_ALL_KIND);
+    expect(passes()).toBe(3);
+    const edits = action!.edit!.changes![uri] as TextEdit[];
+    expect(edits).toHaveLength(1);
+    expect(edits[0].range).toEqual({ start: { line: 0, character: 0 }, end: { line: 2, character: 3 } });
+    expect(TextDocument.applyEdits(document, edits)).toBe('let a = 1;\nconst x = 0;\nlet b = 2;\n');
+  });
+
+  it('stops after the pass limit when fixes never settle', async () => {
+    const { provider, passes } = providerFor(() => [fix('Grow', 0, 0, '!')]);
+
+    const action = await provider.provideFixAllAction(params([FIX_ALL_KIND]), 'x');
+    expect(passes()).toBe(MAX_FIX_ALL_PASSES);
+    expect(action!.edit!.changes![uri][0].newText).toBe('!'.repeat(MAX_FIX_ALL_PASSES));
+  });
+});
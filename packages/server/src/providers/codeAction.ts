@@ -4,16 +4,29 @@ import {
   CodeActionParams,
   Command,
   Diagnostic,
+  Range,
   TextEdit,
   WorkspaceEdit,
 } from 'vscode-languageserver';
+import type { TurbodiagnosticItem } from '@tsgo-turbo/shared';
 import type { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { PositionEncoder } from '../positions/positionEncoder.js';
 import type { DiagnosticsProvider } from './diagnostics.js';
 
+/** Code action kind of the action that applies every oxc fix in a file. */
+export const FIX_ALL_KIND = `${CodeActionKind.SourceFixAll}.tsgoTurbo`;
+
+/**
+ * Most lint-and-fix passes a fix-all runs. A fix can make room for another,
+ * so passes repeat until the file stops changing, or this many have run.
+ */
+export const MAX_FIX_ALL_PASSES = 10;
+
 /**
  * Fix edit from oxc auto-fix data.
  */
-interface OxcFixEdit {
+export interface OxcFixEdit {
   span: { start: number; end: number };
   content: string;
 }
@@ -21,7 +34,7 @@ interface OxcFixEdit {
 /**
  * Fix data structure stored in diagnostic.data by oxc integration.
  */
-interface OxcFixData {
+export interface OxcFixData {
   message: string;
   edits: OxcFixEdit[];
 }
@@ -31,42 +44,59 @@ interface OxcFixData {
  *
  * It supports:
  * - Auto-fix suggestions from oxc lint rules
+ * - A `source.fixAll.tsgoTurbo` action applying every oxc fix in the file,
+ *   which `editor.codeActionsOnSave` can run
  * - "Suppress diagnostic" actions (inline comments)
  * - "Show in inspector" command for any diagnostic
  *
  * @example
  * ```ts
- * const provider = new CodeActionProvider(diagnosticsProvider, logger);
- * const actions = provider.provideCodeActions(params, documentText);
+ * const provider = new CodeActionProvider(diagnosticsProvider, bridge, positions, logger);
+ * const actions = await provider.provideCodeActions(params, documentText);
  * ```
  */
 export class CodeActionProvider {
   private readonly diagnosticsProvider: DiagnosticsProvider;
+  private readonly bridge: AnalysisBridge;
+  private readonly positions: PositionEncoder;
   private readonly logger: Logger;
 
   /**
    * @param diagnosticsProvider - the diagnostics provider for looking up diagnostic data
+   * @param bridge - the analysis bridge, which re-lints content for fix-all
+   * @param positions - maps edit offsets to positions in the client's encoding
    * @param logger - logger instance
    */
-  constructor(diagnosticsProvider: DiagnosticsProvider, logger: Logger) {
+  constructor(
+    diagnosticsProvider: DiagnosticsProvider,
+    bridge: AnalysisBridge,
+    positions: PositionEncoder,
+    logger: Logger,
+  ) {
     this.diagnosticsProvider = diagnosticsProvider;
+    this.bridge = bridge;
+    this.positions = positions;
     this.logger = logger;
   }
 
   /**
    * Provide code actions for diagnostics at the given range.
    *
+   * oxc diagnostics from the oxlint language server carry no fix, so when
+   * one is among them the document is linted once more for its fixes.
+   *
    * @param params - LSP code action request parameters
    * @param documentText - the full document text (for computing edits)
    * @returns array of code actions
    */
-  provideCodeActions(
+  async provideCodeActions(
     params: CodeActionParams,
     documentText: string,
-  ): CodeAction[] {
+  ): Promise<CodeAction[]> {
     const uri = params.textDocument.uri;
     const diagnostics = params.context.diagnostics;
     const actions: CodeAction[] = [];
+    let relinted: Promise<TurbodiagnosticItem[]> | undefined;
 
     for (const diagnostic of diagnostics) {
       // Only process our diagnostics
@@ -78,8 +108,14 @@ export class CodeActionProvider {
       }
 
       // Auto-fix from oxc
-      const fixActions = this.createOxcFixActions(uri, diagnostic, documentText);
-      actions.push(...fixActions);
+      let fix = fixOf(diagnostic.data);
+      if (!fix && diagnostic.source === 'tsgo-turbo (oxc)' && diagnostic.code !== undefined) {
+        relinted ??= this.relintForFixes(uri, documentText);
+        fix = this.matchingFix(uri, diagnostic, await relinted);
+      }
+      if (fix) {
+        actions.push(...this.createOxcFixActions(uri, diagnostic, fix, documentText));
+      }
 
       // Suppress diagnostic action
       const suppressAction = this.createSuppressAction(uri, diagnostic, documentText);
@@ -95,30 +131,170 @@ export class CodeActionProvider {
     return actions;
   }
 
+  /**
+   * Provide the fix-all action when the request asks for its kind, e.g.
+   * from `editor.codeActionsOnSave`.
+   *
+   * The document is linted, every non-overlapping fix applied, and the
+   * result linted again, until no fix changes it or
+   * {@link MAX_FIX_ALL_PASSES} passes have run. The action replaces only
+   * the part of the document that changed.
+   *
+   * @param params - LSP code action request parameters
+   * @param documentText - the full document text
+   * @returns the fix-all action, or null when not requested or nothing is fixable
+   */
+  async provideFixAllAction(
+    params: CodeActionParams,
+    documentText: string,
+  ): Promise<CodeAction | null> {
+    const requested = params.context.only?.some(
+      (kind) => kind === FIX_ALL_KIND || FIX_ALL_KIND.startsWith(`${kind}.`),
+    );
+    if (!requested) {
+      return null;
+    }
+
+    const uri = params.textDocument.uri;
+    let text = documentText;
+    try {
+      for (let pass = 1; pass <= MAX_FIX_ALL_PASSES; pass++) {
+        const diagnostics = await this.bridge.lintForFixes(uri, text);
+        const fixes = diagnostics
+          .map((d) => fixOf(d.data))
+          .filter((fix): fix is OxcFixData => fix !== undefined);
+        const fixed = applyOxcFixes(text, fixes);
+        if (fixed === text) {
+          break;
+        }
+        text = fixed;
+        if (pass === MAX_FIX_ALL_PASSES) {
+          this.logger.debug('Fix-all stopped before the file was stable', {
+            uri,
+            passes: pass,
+          });
+        }
+      }
+    } catch (err) {
+      this.logger.debug('Failed to create fix-all action', {
+        uri,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return null;
+    }
+
+    if (text === documentText) {
+      return null;
+    }
+
+    // Replace the span between the common prefix and suffix
+    let start = 0;
+    while (
+      start < text.length &&
+      start < documentText.length &&
+      text[start] === documentText[start]
+    ) {
+      start++;
+    }
+    let end = 0;
+    while (
+      end < text.length - start &&
+      end < documentText.length - start &&
+      text[text.length - 1 - end] === documentText[documentText.length - 1 - end]
+    ) {
+      end++;
+    }
+    // Keep surrogate pairs whole; half a character has no UTF-8 or UTF-32 position
+    if (start > 0 && isSurrogate(documentText.charCodeAt(start - 1), 0xd800)) {
+      start--;
+    }
+    if (end > 0 && isSurrogate(documentText.charCodeAt(documentText.length - end), 0xdc00)) {
+      end--;
+    }
+    const index = this.positions.lineIndex(uri, documentText);
+    const encoding = this.positions.encoding;
+    const textEdit = TextEdit.replace(
+      {
+        start: index.positionAt(start, encoding),
+        end: index.positionAt(documentText.length - end, encoding),
+      },
+      text.slice(start, text.length - end),
+    );
+    return {
+      title: 'Fix all auto-fixable oxc problems',
+      kind: FIX_ALL_KIND,
+      edit: { changes: { [uri]: [textEdit] } },
+    };
+  }
+
+  /**
+   * Lint the document through a fresh oxc process, which reports fixes.
+   */
+  private async relintForFixes(uri: string, documentText: string): Promise<TurbodiagnosticItem[]> {
+    try {
+      return await this.bridge.lintForFixes(uri, documentText);
+    } catch (err) {
+      this.logger.debug('Failed to lint for oxc fixes', {
+        uri,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Find the fix of the relinted diagnostic with the code and start of the
+   * given one.
+   */
+  private matchingFix(
+    uri: string,
+    diagnostic: Diagnostic,
+    relinted: TurbodiagnosticItem[],
+  ): OxcFixData | undefined {
+    for (const item of relinted) {
+      if (item.code !== String(diagnostic.code)) {
+        continue;
+      }
+      const start = this.positions.rangeToClient(
+        uri,
+        Range.create(item.line - 1, item.column - 1, item.line - 1, item.column - 1),
+      ).start;
+      if (start.line === diagnostic.range.start.line && start.character === diagnostic.range.start.character) {
+        return fixOf(item.data);
+      }
+    }
+    return undefined;
+  }
+
   /**
    * Create auto-fix code actions from oxc fix data.
    */
   private createOxcFixActions(
     uri: string,
     diagnostic: Diagnostic,
+    fix: OxcFixData,
     documentText: string,
   ): CodeAction[] {
-    const data = diagnostic.data as Record<string, unknown> | undefined;
-    if (!data || !data['fix']) {
-      return [];
-    }
-
     try {
-      const fix = data['fix'] as OxcFixData;
       const edits: TextEdit[] = [];
+      // Fix spans are UTF-8 byte offsets
+      const index = this.positions.lineIndex(uri, documentText);
+      const encoding = this.positions.encoding;
+      const byteLength = Buffer.byteLength(documentText, 'utf-8');
 
       for (const edit of fix.edits) {
-        const startPos = this.offsetToPosition(documentText, edit.span.start);
-        const endPos = this.offsetToPosition(documentText, edit.span.end);
-
-        if (startPos && endPos) {
-          edits.push(TextEdit.replace({ start: startPos, end: endPos }, edit.content));
+        if (edit.span.start < 0 || edit.span.end > byteLength) {
+          continue;
         }
+        edits.push(
+          TextEdit.replace(
+            {
+              start: index.positionAt(index.offsetOfByte(edit.span.start), encoding),
+              end: index.positionAt(index.offsetOfByte(edit.span.end), encoding),
+            },
+            edit.content,
+          ),
+        );
       }
 
       if (edits.length === 0) {
@@ -225,36 +401,80 @@ export class CodeActionProvider {
   }
 
   /**
-   * Convert a byte offset to a line/character Position.
+   * Extract the leading whitespace from a line.
    */
-  private offsetToPosition(
-    text: string,
-    offset: number,
-  ): { line: number; character: number } | undefined {
-    if (offset < 0 || offset > text.length) {
-      return undefined;
-    }
+  private getIndentation(line: string): string {
+    const match = /^(\s*)/.exec(line);
+    return match ? match[1] : '';
+  }
+}
 
-    let line = 0;
-    let character = 0;
+/**
+ * Apply oxc fixes to `text`. Fix spans are UTF-8 byte offsets.
+ *
+ * Fixes whose spans overlap cannot all apply. They are taken in order of
+ * start offset, then end offset, then message, and a fix is skipped when it
+ * overlaps one already taken or starts at the same offset, so the outcome
+ * does not depend on the order oxc reported them in. A later pass picks up
+ * the skipped fixes that still apply.
+ *
+ * @param text - the document text
+ * @param fixes - fixes computed for `text`
+ * @returns the fixed text
+ */
+export function applyOxcFixes(text: string, fixes: OxcFixData[]): string {
+  const spans = fixes
+    .filter((fix) => fix.edits.length > 0)
+    .map((fix) => ({
+      fix,
+      start: Math.min(...fix.edits.map((e) => e.span.start)),
+      end: Math.max(...fix.edits.map((e) => e.span.end)),
+    }))
+    .sort(
+      (a, b) =>
+        a.start - b.start ||
+        a.end - b.end ||
+        a.fix.message.localeCompare(b.fix.message),
+    );
 
-    for (let i = 0; i < offset; i++) {
-      if (text[i] === '\n') {
-        line++;
-        character = 0;
-      } else {
-        character++;
-      }
+  const buf = Buffer.from(text, 'utf-8');
+  const edits: OxcFixEdit[] = [];
+  let lastStart = -1;
+  let lastEnd = -1;
+  for (const { fix, start, end } of spans) {
+    if (start < lastEnd || start === lastStart || end > buf.length) {
+      continue;
     }
-
-    return { line, character };
+    edits.push(...fix.edits);
+    lastStart = start;
+    lastEnd = end;
   }
 
-  /**
-   * Extract the leading whitespace from a line.
-   */
-  private getIndentation(line: string): string {
-    const match = /^(\s*)/.exec(line);
-    return match ? match[1] : '';
+  // Apply back to front so earlier offsets stay valid
+  edits.sort((a, b) => b.span.start - a.span.start || b.span.end - a.span.end);
+  let result = buf;
+  for (const edit of edits) {
+    result = Buffer.concat([
+      result.subarray(0, edit.span.start),
+      Buffer.from(edit.content, 'utf-8'),
+      result.subarray(edit.span.end),
+    ]);
   }
+  return result.toString('utf-8');
+}
+
+/**
+ * Whether a UTF-16 code unit is a high (`0xd800`) or low (`0xdc00`)
+ * surrogate.
+ */
+function isSurrogate(code: number, base: 0xd800 | 0xdc00): boolean {
+  return code >= base && code < base + 0x400;
+}
+
+/**
+ * The oxc fix in a diagnostic's data, if it has one.
+ */
+function fixOf(data: unknown): OxcFixData | undefined {
+  const fix = (data as Record<string, unknown> | undefined)?.['fix'] as OxcFixData | undefined;
+  return Array.isArray(fix?.edits) ? fix : undefined;
 }
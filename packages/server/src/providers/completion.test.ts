@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { InsertTextFormat } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DEFAULT_CONFIG } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type {
+  TsgoCompletion,
+  TsgoCompletionDetails,
+} from '../integrations/tsgo.js';
+import { PositionEncoder } from '../positions/positionEncoder.js';
+import { CompletionProvider } from './completion.js';
+
+const uri = 'file:///test.ts';
+
+function providerFor(
+  items: TsgoCompletion[],
+  details: TsgoCompletionDetails | null = null,
+) {
+  const bridge = {
+    tsgoIntegration: {
+      getCompletions: async () => ({ items, isIncomplete: true }),
+      getCompletionDetails: async () => details,
+    },
+  } as unknown as AnalysisBridge;
+  const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+  const provider = new CompletionProvider(bridge, new PositionEncoder(), logger);
+  provider.setSnippetSupport(true);
+  return provider;
+}
+
+function complete(provider: CompletionProvider, text: string, character: number) {
+  const document = TextDocument.create(uri, 'typescript', 1, text);
+  return provider.provideCompletions(
+    { textDocument: { uri }, position: { line: 0, character } },
+    document,
+  );
+}
+
+describe('CompletionProvider', () => {
+  it('inserts call snippets for functions and passes isIncomplete through', async () => {
+    const provider = providerFor([{ label: 'fetchUser', kind: 'function' }]);
+
+    const list = await complete(provider, 'fetch', 5);
+
+    expect(list.isIncomplete).toBe(true);
+    expect(list.items[0].insertText).toBe('fetchUser($1)$0');
+    expect(list.items[0].insertTextFormat).toBe(InsertTextFormat.Snippet);
+  });
+
+  it('skips the call snippet when parentheses already follow', async () => {
+    const provider = providerFor([{ label: 'fetchUser', kind: 'function' }]);
+
+    const list = await complete(provider, 'fetch()', 5);
+
+    expect(list.items[0].insertText).toBe('fetchUser');
+    expect(list.items[0].insertTextFormat).toBe(InsertTextFormat.PlainText);
+  });
+
+  it('adds auto-import edits for the current file on resolve', async () => {
+    const provider = providerFor(
+      [{ label: 'useState', kind: 'function', source: 'react' }],
+      {
+        detail: 'function useState<S>(initial: S): [S, Dispatch<S>]',
+        additionalEdits: [
+          { line: 0, column: 0, endLine: 0, endColumn: 0, newText: "import { useState } from 'react';\n" },
+          { uri: 'file:///other.ts', line: 0, column: 0, endLine: 0, endColumn: 0, newText: 'x' },
+        ],
+      },
+    );
+    const list = await complete(provider, 'use', 3);
+    const document = TextDocument.create(uri, 'typescript', 1, 'use');
+
+    const item = await provider.resolveCompletion(list.items[0], document);
+
+    expect(item.detail).toBe('function useState<S>(initial: S): [S, Dispatch<S>] (tsgo)');
+    expect(item.additionalTextEdits).toHaveLength(1);
+    expect(item.additionalTextEdits?.[0].newText).toBe("import { useState } from 'react';\n");
+  });
+});
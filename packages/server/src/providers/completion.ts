@@ -1,68 +1,116 @@
 import {
+  CancellationToken,
   CompletionItem,
   CompletionItemKind,
   CompletionList,
   CompletionParams,
   InsertTextFormat,
+  Position,
+  TextEdit,
 } from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import type { Logger } from '../logger/index.js';
 import type { AnalysisBridge } from '../integrations/bridge.js';
 import type { TsgoCompletion } from '../integrations/tsgo.js';
+import type { PositionEncoder } from '../positions/positionEncoder.js';
+
+/** tsgo kinds completed with a call snippet, e.g. `fetchUser($1)$0`. */
+const CALLABLE_KINDS = new Set(['function', 'method']);
+
+/** tsgo kinds completed with a JSX attribute snippet, e.g. `onClick={$1}`. */
+const JSX_ATTRIBUTE_KINDS = new Set(['jsx attribute', 'jsxattribute']);
+
+/**
+ * Data attached to completion items so `completionItem/resolve` can ask
+ * tsgo for the item's details.
+ */
+interface CompletionItemData {
+  uri: string;
+  line: number;
+  character: number;
+  name: string;
+  source?: string;
+  entryData?: unknown;
+}
 
 /**
  * CompletionProvider provides code completions by delegating to tsgo's
  * completion engine. It transforms tsgo completion items into LSP
  * CompletionItem format, filters, and sorts them.
  *
+ * Documentation and auto-import edits are expensive for tsgo to compute,
+ * so they are only fetched when the client resolves the selected item.
+ * Functions and JSX attributes are inserted as snippets when the client
+ * supports them.
+ *
  * @example
  * ```ts
- * const provider = new CompletionProvider(bridge, logger);
+ * const provider = new CompletionProvider(bridge, positions, logger);
  * const result = await provider.provideCompletions(params, document);
+ * const resolved = await provider.resolveCompletion(result.items[0], document);
  * ```
  */
 export class CompletionProvider {
   private readonly bridge: AnalysisBridge;
+  private readonly positions: PositionEncoder;
   private readonly logger: Logger;
+  private snippetSupport = false;
 
   /**
    * @param bridge - the analysis bridge for accessing tsgo
+   * @param positions - converts positions to and from the client's encoding
    * @param logger - logger instance
    */
-  constructor(bridge: AnalysisBridge, logger: Logger) {
+  constructor(bridge: AnalysisBridge, positions: PositionEncoder, logger: Logger) {
     this.bridge = bridge;
+    this.positions = positions;
     this.logger = logger;
   }
 
+  /**
+   * Enable snippet insert text. Set from the client's
+   * `completionItem.snippetSupport` capability.
+   */
+  setSnippetSupport(enabled: boolean): void {
+    this.snippetSupport = enabled;
+  }
+
   /**
    * Provide completions at the given position.
    *
    * @param params - LSP completion request parameters
    * @param document - the text document being edited
+   * @param token - cancels the tsgo request when the user keeps typing
    * @returns a CompletionList with completion items
    */
   async provideCompletions(
     params: CompletionParams,
     document: TextDocument,
+    token?: CancellationToken,
   ): Promise<CompletionList> {
     const uri = params.textDocument.uri;
-    const position = params.position;
+    const content = document.getText();
+    const position = this.positions.positionToServer(uri, params.position, content);
 
     try {
-      const content = document.getText();
-      const completions = await this.bridge.tsgoIntegration.getCompletions(
+      const list = await this.bridge.tsgoIntegration.getCompletions(
         uri,
         content,
         position.line,
         position.character,
+        token,
       );
 
-      if (!completions || completions.length === 0) {
-        return CompletionList.create([], false);
+      if (list.items.length === 0) {
+        return CompletionList.create([], list.isIncomplete);
       }
 
-      const items = completions.map((c, index) =>
-        this.toCompletionItem(c, index),
+      const nextChar = document.getText({
+        start: position,
+        end: Position.create(position.line, position.character + 1),
+      });
+      const items = list.items.map((c, index) =>
+        this.toCompletionItem(c, index, uri, position, nextChar),
       );
 
       // Sort: prioritize exact matches, then alphabetical
@@ -72,7 +120,7 @@ export class CompletionProvider {
         return sortA.localeCompare(sortB);
       });
 
-      return CompletionList.create(items, false);
+      return CompletionList.create(items, list.isIncomplete);
     } catch (err) {
       this.logger.warn('Completion request failed', {
         uri,
@@ -84,12 +132,91 @@ export class CompletionProvider {
     }
   }
 
+  /**
+   * Fill in documentation, detail and auto-import edits for a completion
+   * item the user selected.
+   *
+   * @param item - the item as previously returned to the client
+   * @param document - the document the item belongs to, if still open
+   * @returns the item with its details, or unchanged if none are available
+   */
+  async resolveCompletion(
+    item: CompletionItem,
+    document: TextDocument | undefined,
+  ): Promise<CompletionItem> {
+    const data = item.data as CompletionItemData | undefined;
+    if (!data || !document) {
+      return item;
+    }
+
+    try {
+      const entry: { name: string; source?: string; data?: unknown } = {
+        name: data.name,
+      };
+      if (data.source) {
+        entry.source = data.source;
+      }
+      if (data.entryData !== undefined) {
+        entry.data = data.entryData;
+      }
+
+      const details = await this.bridge.tsgoIntegration.getCompletionDetails(
+        data.uri,
+        document.getText(),
+        data.line,
+        data.character,
+        entry,
+      );
+      if (!details) {
+        return item;
+      }
+
+      if (details.detail) {
+        item.detail = `${details.detail} (tsgo)`;
+      }
+      if (details.documentation) {
+        item.documentation = details.documentation;
+      }
+
+      const edits = (details.additionalEdits ?? []).filter(
+        (e) => (e.uri ?? data.uri) === data.uri,
+      );
+      if (edits.length > 0) {
+        const content = document.getText();
+        item.additionalTextEdits = edits.map((e) =>
+          TextEdit.replace(
+            this.positions.rangeToClient(
+              data.uri,
+              {
+                start: { line: e.line, character: e.column },
+                end: { line: e.endLine, character: e.endColumn },
+              },
+              content,
+            ),
+            e.newText,
+          ),
+        );
+      }
+    } catch (err) {
+      this.logger.warn('Completion resolve failed', {
+        uri: data.uri,
+        label: item.label,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    return item;
+  }
+
   /**
    * Convert a tsgo completion item to an LSP CompletionItem.
    */
   private toCompletionItem(
     tsgoItem: TsgoCompletion,
     index: number,
+    uri: string,
+    position: Position,
+    nextChar: string,
   ): CompletionItem {
     const item: CompletionItem = {
       label: tsgoItem.label,
@@ -97,13 +224,66 @@ export class CompletionProvider {
       detail: tsgoItem.detail
         ? `${tsgoItem.detail} (tsgo)`
         : '(tsgo)',
-      documentation: tsgoItem.documentation,
       sortText: tsgoItem.sortText ?? String(index).padStart(5, '0'),
+      ...this.insertTextFor(tsgoItem, nextChar),
+    };
+
+    if (tsgoItem.documentation) {
+      item.documentation = tsgoItem.documentation;
+    }
+    if (tsgoItem.source) {
+      item.labelDetails = { description: tsgoItem.source };
+    }
+
+    const data: CompletionItemData = {
+      uri,
+      line: position.line,
+      character: position.character,
+      name: tsgoItem.label,
+    };
+    if (tsgoItem.source) {
+      data.source = tsgoItem.source;
+    }
+    if (tsgoItem.data !== undefined) {
+      data.entryData = tsgoItem.data;
+    }
+    item.data = data;
+
+    return item;
+  }
+
+  /**
+   * Choose the insert text and format. tsgo-provided snippets are used as
+   * is; otherwise functions get a call snippet and JSX attributes an
+   * expression snippet, unless the next character already opens one.
+   */
+  private insertTextFor(
+    tsgoItem: TsgoCompletion,
+    nextChar: string,
+  ): Pick<CompletionItem, 'insertText' | 'insertTextFormat'> {
+    const plain = {
       insertText: tsgoItem.insertText ?? tsgoItem.label,
       insertTextFormat: InsertTextFormat.PlainText,
     };
 
-    return item;
+    if (!this.snippetSupport) {
+      return plain;
+    }
+    if (tsgoItem.insertText !== undefined) {
+      return tsgoItem.isSnippet
+        ? { insertText: tsgoItem.insertText, insertTextFormat: InsertTextFormat.Snippet }
+        : plain;
+    }
+
+    const kind = tsgoItem.kind.toLowerCase();
+    const name = escapeSnippet(tsgoItem.label);
+    if (CALLABLE_KINDS.has(kind) && nextChar !== '(') {
+      return { insertText: `${name}($1)$0`, insertTextFormat: InsertTextFormat.Snippet };
+    }
+    if (JSX_ATTRIBUTE_KINDS.has(kind) && nextChar !== '=') {
+      return { insertText: `${name}={$1}`, insertTextFormat: InsertTextFormat.Snippet };
+    }
+    return plain;
   }
 
   /**
@@ -120,6 +300,8 @@ export class CompletionProvider {
         return CompletionItemKind.Variable;
       case 'property':
       case 'field':
+      case 'jsx attribute':
+      case 'jsxattribute':
         return CompletionItemKind.Property;
       case 'class':
         return CompletionItemKind.Class;
@@ -164,3 +346,10 @@ export class CompletionProvider {
     }
   }
 }
+
+/**
+ * Escape characters with special meaning in LSP snippet syntax.
+ */
+function escapeSnippet(text: string): string {
+  return text.replace(/[\\$}]/g, '\\$&');
+}
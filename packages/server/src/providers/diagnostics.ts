@@ -11,6 +11,8 @@ import type {
   DiagnosticSource,
 } from '@tsgo-turbo/shared';
 import type { Logger } from '../logger/index.js';
+import { ruleDocumentationUrl } from '../integrations/ruleInfo.js';
+import type { PositionEncoder } from '../positions/positionEncoder.js';
 
 /**
  * Filter criteria for diagnostics.
@@ -31,13 +33,14 @@ export interface DiagnosticFilter {
  *
  * @example
  * ```ts
- * const provider = new DiagnosticsProvider(connection, logger);
+ * const provider = new DiagnosticsProvider(connection, positions, logger);
  * provider.updateDiagnostics('file:///app.ts', diagnostics);
  * provider.clearDiagnostics('file:///app.ts');
  * ```
  */
 export class DiagnosticsProvider {
   private readonly connection: Connection;
+  private readonly positions: PositionEncoder;
   private readonly logger: Logger;
   /** Current diagnostics per file URI. */
   private readonly filesDiagnostics = new Map<string, TurbodiagnosticItem[]>();
@@ -50,14 +53,23 @@ export class DiagnosticsProvider {
   private debounceMs: number;
   /** Active filter. */
   private filter: DiagnosticFilter = {};
+  /** Whether diagnostics are pushed via textDocument/publishDiagnostics. */
+  private publishEnabled = true;
 
   /**
    * @param connection - the LSP connection for sending diagnostics
+   * @param positions - converts diagnostic ranges to the client's encoding
    * @param logger - logger instance
    * @param debounceMs - debounce delay for rapid updates (default 100ms)
    */
-  constructor(connection: Connection, logger: Logger, debounceMs = 100) {
+  constructor(
+    connection: Connection,
+    positions: PositionEncoder,
+    logger: Logger,
+    debounceMs = 100,
+  ) {
     this.connection = connection;
+    this.positions = positions;
     this.logger = logger;
     this.debounceMs = debounceMs;
   }
@@ -113,6 +125,28 @@ export class DiagnosticsProvider {
     }
   }
 
+  /**
+   * Enable or disable pushing diagnostics to the client.
+   *
+   * Disabled when the client pulls diagnostics (textDocument/diagnostic), so
+   * the same problems are not shown twice. Diagnostics are still tracked for
+   * code actions and the inspector.
+   */
+  setPublishEnabled(enabled: boolean): void {
+    this.publishEnabled = enabled;
+  }
+
+  /**
+   * Convert diagnostics to LSP format, applying the active filter.
+   *
+   * @param uri - the file the diagnostics are in
+   * @param items - diagnostics from the analysis bridge
+   * @returns LSP diagnostics ready to be sent to the client
+   */
+  toLspDiagnostics(uri: string, items: TurbodiagnosticItem[]): Diagnostic[] {
+    return this.applyFilter(items).map((item) => this.toLspDiagnostic(uri, item));
+  }
+
   /**
    * Set the debounce delay.
    */
@@ -190,9 +224,7 @@ export class DiagnosticsProvider {
    */
   private publishDiagnostics(uri: string): void {
     const items = this.filesDiagnostics.get(uri) ?? [];
-    const filtered = this.applyFilter(items);
-    const lspDiagnostics = filtered.map((item) => this.toLspDiagnostic(item));
-    this.sendToClient(uri, lspDiagnostics);
+    this.sendToClient(uri, this.toLspDiagnostics(uri, items));
   }
 
   /**
@@ -219,7 +251,7 @@ export class DiagnosticsProvider {
   /**
    * Convert a TurbodiagnosticItem to an LSP Diagnostic.
    */
-  private toLspDiagnostic(item: TurbodiagnosticItem): Diagnostic {
+  private toLspDiagnostic(uri: string, item: TurbodiagnosticItem): Diagnostic {
     const startPos = Position.create(
       Math.max(0, item.line - 1),
       Math.max(0, item.column - 1),
@@ -230,16 +262,35 @@ export class DiagnosticsProvider {
     );
 
     // Ensure end is after start
-    const range = Range.create(startPos, endPos);
+    const range = this.positions.rangeToClient(uri, Range.create(startPos, endPos));
 
     const diagnostic: Diagnostic = {
       range,
-      message: item.message,
+      message: item.help ? `${item.message}\nhelp: ${item.help}` : item.message,
       severity: this.toLspSeverity(item.severity),
       source: `tsgo-turbo (${item.source})`,
       code: item.code,
     };
 
+    // Link the code to the rule or error documentation
+    const href = ruleDocumentationUrl(item.source, item.code);
+    if (href) {
+      diagnostic.codeDescription = { href };
+    }
+
+    if (item.related) {
+      diagnostic.relatedInformation = item.related.map((related) => ({
+        location: {
+          uri: related.uri,
+          range: this.positions.rangeToClient(
+            related.uri,
+            Range.create(related.line - 1, related.column - 1, related.endLine - 1, related.endColumn - 1),
+          ),
+        },
+        message: related.message,
+      }));
+    }
+
     // Attach data for code actions
     if (item.data) {
       diagnostic.data = {
@@ -256,6 +307,9 @@ export class DiagnosticsProvider {
    * Send diagnostics to the LSP client.
    */
   private sendToClient(uri: string, diagnostics: Diagnostic[]): void {
+    if (!this.publishEnabled) {
+      return;
+    }
     try {
       this.connection.sendDiagnostics({ uri, diagnostics });
     } catch (err) {
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import type { TextEdit } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DEFAULT_CONFIG } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import { PositionEncoder } from '../positions/positionEncoder.js';
+import { FormattingProvider } from './formatting.js';
+
+const uri = 'file:///test.ts';
+const options = { tabSize: 2, insertSpaces: true };
+
+const source = [
+  'const a=1',
+  'const b = 2;',
+  'function f(){',
+  '  return a+b',
+  '}',
+  '',
+].join('\n');
+
+const formatted = [
+  'const a = 1;',
+  'const b = 2;',
+  'function f() {',
+  '  return a + b;',
+  '}',
+  '',
+].join('\n');
+
+function providerFor(output: string) {
+  const bridge = {
+    formatterIntegration: { name: 'fake', format: async () => output },
+  } as unknown as AnalysisBridge;
+  const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+  return new FormattingProvider(bridge, new PositionEncoder(), logger);
+}
+
+function apply(document: TextDocument, edits: TextEdit[] | null) {
+  return TextDocument.applyEdits(document, edits ?? []);
+}
+
+describe('FormattingProvider', () => {
+  it('only edits the lines the formatter changed', async () => {
+    const document = TextDocument.create(uri, 'typescript', 1, source);
+
+    const edits = await providerFor(formatted).provideDocumentFormatting(
+      { textDocument: { uri }, options },
+      document,
+    );
+
+    expect(edits).toHaveLength(2);
+    expect(edits!.map((e) => e.range.start.line)).toEqual([0, 2]);
+    expect(apply(document, edits)).toBe(formatted);
+  });
+
+  it('keeps only edits within the requested range', async () => {
+    const document = TextDocument.create(uri, 'typescript', 1, source);
+
+    const edits = await providerFor(formatted).provideRangeFormatting(
+      {
+        textDocument: { uri },
+        range: { start: { line: 2, character: 0 }, end: { line: 5, character: 0 } },
+        options,
+      },
+      document,
+    );
+
+    expect(apply(document, edits)).toBe([
+      'const a=1',
+      'const b = 2;',
+      'function f() {',
+      '  return a + b;',
+      '}',
+      '',
+    ].join('\n'));
+  });
+
+  it('formats the completed line on type only when enabled', async () => {
+    const document = TextDocument.create(uri, 'typescript', 1, source);
+    const provider = providerFor(formatted);
+    const params = {
+      textDocument: { uri },
+      position: { line: 4, character: 0 },
+      ch: '\n',
+      options,
+    };
+
+    expect(await provider.provideOnTypeFormatting(params, document)).toBeNull();
+
+    provider.setFormatOnType(true);
+    const edits = await provider.provideOnTypeFormatting(params, document);
+    expect(edits).toEqual([
+      {
+        range: { start: { line: 2, character: 0 }, end: { line: 4, character: 0 } },
+        newText: 'function f() {\n  return a + b;\n',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,330 @@
+import {
+  DocumentFormattingParams,
+  DocumentOnTypeFormattingParams,
+  DocumentRangeFormattingParams,
+  TextEdit,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { PositionEncoder } from '../positions/positionEncoder.js';
+
+/** Characters that trigger on-type formatting. */
+export const ON_TYPE_FORMATTING_TRIGGERS = ['}', ';', '\n'] as const;
+
+/**
+ * Maximum number of changed lines to diff precisely. Beyond this the whole
+ * changed region is replaced by a single edit.
+ */
+const MAX_DIFF_DISTANCE = 2000;
+
+/** A changed region: original lines [start, end) are replaced by `newText`. */
+interface Hunk {
+  start: number;
+  end: number;
+  newText: string;
+}
+
+/**
+ * FormattingProvider serves document, range and on-type formatting through
+ * the bridge's pluggable formatter integration.
+ *
+ * Formatters only format whole files, so the formatted text is diffed
+ * line-by-line against the document: edits touch only the lines the
+ * formatter changed (keeping cursors and markers stable), and range and
+ * on-type requests keep just the edits within the requested lines.
+ *
+ * @example
+ * ```ts
+ * const provider = new FormattingProvider(bridge, positions, logger);
+ * const edits = await provider.provideDocumentFormatting(params, document);
+ * ```
+ */
+export class FormattingProvider {
+  private readonly bridge: AnalysisBridge;
+  private readonly positions: PositionEncoder;
+  private readonly logger: Logger;
+  private enabled = true;
+  private formatOnType = false;
+
+  /**
+   * @param bridge - the analysis bridge for accessing the formatter
+   * @param positions - converts positions to and from the client's encoding
+   * @param logger - logger instance
+   */
+  constructor(bridge: AnalysisBridge, positions: PositionEncoder, logger: Logger) {
+    this.bridge = bridge;
+    this.positions = positions;
+    this.logger = logger;
+  }
+
+  /**
+   * Enable or disable formatting. Set from `format.enabled`.
+   */
+  setEnabled(enabled: boolean): void {
+    this.enabled = enabled;
+  }
+
+  /**
+   * Enable or disable on-type formatting. Set from `format.formatOnType`.
+   */
+  setFormatOnType(enabled: boolean): void {
+    this.formatOnType = enabled;
+  }
+
+  /**
+   * Format a whole document.
+   *
+   * @param params - LSP document formatting request parameters
+   * @param document - the text document
+   * @returns edits, or null if formatting is disabled or failed
+   */
+  async provideDocumentFormatting(
+    params: DocumentFormattingParams,
+    document: TextDocument,
+  ): Promise<TextEdit[] | null> {
+    const hunks = await this.format(params.textDocument.uri, document);
+    return hunks && this.toTextEdits(document, hunks);
+  }
+
+  /**
+   * Format the lines of a range.
+   *
+   * @param params - LSP range formatting request parameters
+   * @param document - the text document
+   * @returns edits within the range, or null if formatting is disabled or failed
+   */
+  async provideRangeFormatting(
+    params: DocumentRangeFormattingParams,
+    document: TextDocument,
+  ): Promise<TextEdit[] | null> {
+    const { start, end } = params.range;
+    // A selection ending at the start of a line does not include that line
+    const endLine =
+      end.character === 0 && end.line > start.line ? end.line - 1 : end.line;
+
+    const hunks = await this.format(params.textDocument.uri, document);
+    return hunks && this.toTextEdits(document, hunks, start.line, endLine);
+  }
+
+  /**
+   * Format the line just completed by typing `}`, `;` or a newline.
+   *
+   * @param params - LSP on-type formatting request parameters
+   * @param document - the text document
+   * @returns edits on the completed line, or null if on-type formatting is off
+   */
+  async provideOnTypeFormatting(
+    params: DocumentOnTypeFormattingParams,
+    document: TextDocument,
+  ): Promise<TextEdit[] | null> {
+    if (!this.formatOnType) {
+      return null;
+    }
+
+    // After a newline the completed line is the previous one; the new line
+    // is left alone so its indentation (and the cursor) does not jump
+    const line =
+      params.ch === '\n' ? params.position.line - 1 : params.position.line;
+    if (line < 0) {
+      return null;
+    }
+
+    const hunks = await this.format(params.textDocument.uri, document);
+    return hunks && this.toTextEdits(document, hunks, line, line);
+  }
+
+  /**
+   * Run the formatter and diff its output against the document.
+   */
+  private async format(
+    uri: string,
+    document: TextDocument,
+  ): Promise<Hunk[] | null> {
+    if (!this.enabled) {
+      return null;
+    }
+
+    const content = document.getText();
+    try {
+      const formatted = await this.bridge.formatterIntegration.format(uri, content);
+      if (formatted === content) {
+        return [];
+      }
+      return diffLines(splitLines(content), splitLines(formatted));
+    } catch (err) {
+      this.logger.warn('Formatting request failed', {
+        uri,
+        formatter: this.bridge.formatterIntegration.name,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Convert hunks to text edits, keeping only hunks that touch the original
+   * lines [startLine, endLine] when given.
+   */
+  private toTextEdits(
+    document: TextDocument,
+    hunks: Hunk[],
+    startLine = 0,
+    endLine = Number.MAX_SAFE_INTEGER,
+  ): TextEdit[] {
+    const content = document.getText();
+    const lines = splitLines(content);
+    const lineOffsets: number[] = [0];
+    for (const line of lines) {
+      lineOffsets.push(lineOffsets[lineOffsets.length - 1] + line.length);
+    }
+
+    return hunks
+      .filter((h) => h.start <= endLine && Math.max(h.end - 1, h.start) >= startLine)
+      .map((h) =>
+        TextEdit.replace(
+          this.positions.rangeToClient(
+            document.uri,
+            {
+              start: document.positionAt(lineOffsets[h.start]),
+              end: document.positionAt(lineOffsets[h.end]),
+            },
+            content,
+          ),
+          h.newText,
+        ),
+      );
+  }
+}
+
+/**
+ * Split text into lines, keeping each line's terminator so the lines join
+ * back to the original text.
+ */
+function splitLines(text: string): string[] {
+  return text.length === 0 ? [] : text.split(/(?<=\n)/);
+}
+
+/**
+ * Compute the changed regions between two line arrays with Myers' diff.
+ * The common prefix and suffix are skipped first, which is usually most
+ * of a file being formatted.
+ */
+function diffLines(a: string[], b: string[]): Hunk[] {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldLines = a.slice(prefix, a.length - suffix);
+  const newLines = b.slice(prefix, b.length - suffix);
+  if (oldLines.length === 0 && newLines.length === 0) {
+    return [];
+  }
+
+  const matches = matchLines(oldLines, newLines);
+  if (!matches) {
+    return [
+      { start: prefix, end: prefix + oldLines.length, newText: newLines.join('') },
+    ];
+  }
+
+  // Every gap between consecutive matched lines is a hunk
+  const hunks: Hunk[] = [];
+  let x = 0;
+  let y = 0;
+  for (const [mx, my] of [...matches, [oldLines.length, newLines.length]]) {
+    if (mx > x || my > y) {
+      hunks.push({
+        start: prefix + x,
+        end: prefix + mx,
+        newText: newLines.slice(y, my).join(''),
+      });
+    }
+    x = mx + 1;
+    y = my + 1;
+  }
+  return hunks;
+}
+
+/**
+ * Find the longest common subsequence of two line arrays as ascending
+ * `[indexInA, indexInB]` pairs, or undefined if they differ in more than
+ * MAX_DIFF_DISTANCE lines.
+ */
+function matchLines(a: string[], b: string[]): Array<[number, number]> | undefined {
+  const n = a.length;
+  const m = b.length;
+  const maxD = Math.min(n + m, MAX_DIFF_DISTANCE);
+  const offset = maxD + 1;
+  // v[offset + k] is the furthest x reached on diagonal k = x - y
+  const v = new Int32Array(2 * offset + 1);
+  // Snapshot of diagonals -d..d before each step d, for backtracking
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= maxD; d++) {
+    trace.push(v.slice(offset - d, offset + d + 1));
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        return backtrack(trace, a, b, n, m);
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Walk the Myers trace back from the end, collecting matched lines. */
+function backtrack(
+  trace: Int32Array[],
+  a: string[],
+  b: string[],
+  n: number,
+  m: number,
+): Array<[number, number]> {
+  const matches: Array<[number, number]> = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const snapshot = trace[d];
+    // Diagonal k lives at snapshot[k + d]; entries outside -d..d read as 0
+    const at = (k: number) => (k < -d || k > d ? 0 : snapshot[k + d]);
+    const k = x - y;
+
+    let prevX = 0;
+    let prevY = 0;
+    if (d > 0) {
+      const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+      prevX = at(prevK);
+      prevY = prevX - prevK;
+    }
+
+    while (x > prevX && y > prevY && a[x - 1] === b[y - 1]) {
+      x--;
+      y--;
+      matches.push([x, y]);
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return matches.reverse();
+}
@@ -1,8 +1,16 @@
-import { Hover, HoverParams, MarkupContent, MarkupKind } from 'vscode-languageserver';
+import {
+  CancellationToken,
+  Hover,
+  HoverParams,
+  MarkupContent,
+  MarkupKind,
+} from 'vscode-languageserver';
 import { TextDocument } from 'vscode-languageserver-textdocument';
 import type { Logger } from '../logger/index.js';
 import type { AnalysisBridge } from '../integrations/bridge.js';
 import type { TypeExpansionGuard } from '../guards/typeExpansion.js';
+import type { PositionEncoder } from '../positions/positionEncoder.js';
+import { TimeoutError, withTimeout } from './timeout.js';
 
 /**
  * Maximum length of type string shown in hover before truncation.
@@ -23,30 +31,34 @@ const MAX_TYPE_STRING_LINES = 40;
  *
  * @example
  * ```ts
- * const provider = new HoverProvider(bridge, guard, logger);
+ * const provider = new HoverProvider(bridge, guard, positions, logger);
  * const hover = await provider.provideHover(params, document);
  * ```
  */
 export class HoverProvider {
   private readonly bridge: AnalysisBridge;
   private readonly guard: TypeExpansionGuard;
+  private readonly positions: PositionEncoder;
   private readonly logger: Logger;
   private timeoutMs: number;
 
   /**
    * @param bridge - the analysis bridge for accessing tsgo
    * @param guard - type expansion guard for truncating deep types
+   * @param positions - converts positions to and from the client's encoding
    * @param logger - logger instance
    * @param timeoutMs - timeout for hover requests (default 5000ms)
    */
   constructor(
     bridge: AnalysisBridge,
     guard: TypeExpansionGuard,
+    positions: PositionEncoder,
     logger: Logger,
     timeoutMs = 5000,
   ) {
     this.bridge = bridge;
     this.guard = guard;
+    this.positions = positions;
     this.logger = logger;
     this.timeoutMs = timeoutMs;
   }
@@ -59,27 +71,30 @@ export class HoverProvider {
    *
    * @param params - LSP hover request parameters
    * @param document - the text document
+   * @param token - cancels the tsgo request when the client moves on
    * @returns a Hover object, or null if no info is available
    */
   async provideHover(
     params: HoverParams,
     document: TextDocument,
+    token?: CancellationToken,
   ): Promise<Hover | null> {
     const uri = params.textDocument.uri;
-    const position = params.position;
+    const content = document.getText();
+    const position = this.positions.positionToServer(uri, params.position, content);
 
     try {
-      const content = document.getText();
-
       // Race the tsgo request against a timeout
-      const typeInfo = await this.withTimeout(
+      const typeInfo = await withTimeout(
         this.bridge.tsgoIntegration.getTypeInfo(
           uri,
           content,
           position.line,
           position.character,
+          token,
         ),
         this.timeoutMs,
+        'Hover',
       );
 
       if (!typeInfo) {
@@ -216,38 +231,4 @@ export class HoverProvider {
     const bar = '\u2588'.repeat(filled) + '\u2591'.repeat(maxBars - filled);
     return `Expansion depth: \`${bar}\` ${depth}`;
   }
-
-  /**
-   * Race a promise against a timeout.
-   */
-  private withTimeout<T>(
-    promise: Promise<T>,
-    ms: number,
-  ): Promise<T | undefined> {
-    return new Promise<T | undefined>((resolve, reject) => {
-      const timer = setTimeout(() => {
-        reject(new TimeoutError(`Hover request timed out after ${ms}ms`));
-      }, ms);
-
-      promise
-        .then((result) => {
-          clearTimeout(timer);
-          resolve(result);
-        })
-        .catch((err) => {
-          clearTimeout(timer);
-          reject(err);
-        });
-    });
-  }
-}
-
-/**
- * Custom error class for timeout conditions.
- */
-class TimeoutError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'TimeoutError';
-  }
 }
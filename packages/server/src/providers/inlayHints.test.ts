@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DEFAULT_CONFIG } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import { TypeExpansionGuard } from '../guards/typeExpansion.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { TsgoInlayHint } from '../integrations/tsgo.js';
+import { PositionEncoder } from '../positions/positionEncoder.js';
+import type { HoverProvider } from './hover.js';
+import { InlayHintProvider } from './inlayHints.js';
+
+const uri = 'file:///test.ts';
+const document = TextDocument.create(uri, 'typescript', 1, '');
+const range = { start: { line: 0, character: 0 }, end: { line: 10, character: 0 } };
+
+function hintsFor(hints: TsgoInlayHint[]) {
+  const bridge = {
+    tsgoIntegration: { getInlayHints: async () => hints },
+  } as unknown as AnalysisBridge;
+  const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+  const provider = new InlayHintProvider(
+    bridge,
+    new TypeExpansionGuard(50),
+    {} as HoverProvider,
+    new PositionEncoder(),
+    logger,
+  );
+  return provider.provideInlayHints({ textDocument: { uri }, range }, document);
+}
+
+describe('InlayHintProvider', () => {
+  it('renders parameter names and short types as-is', async () => {
+    const hints = await hintsFor([
+      { line: 1, column: 4, kind: 'parameter', text: 'input' },
+      { line: 2, column: 9, kind: 'type', text: 'string[]', typeName: 'string[]', depth: 1 },
+    ]);
+    expect(hints.map((h) => h.label)).toEqual(['input:', ': string[]']);
+    expect(hints[1].data).toEqual({ uri, line: 2, character: 9 });
+  });
+
+  it('collapses type arguments of types past the expansion limit', async () => {
+    const hints = await hintsFor([
+      {
+        line: 0,
+        column: 10,
+        kind: 'type',
+        text: 'Prisma.UserGetPayload<{ include: { posts: true } }>',
+        typeName: 'Prisma.UserGetPayload',
+        depth: 31,
+      },
+    ]);
+    expect(hints[0].label).toBe(': Prisma.UserGetPayload<…>');
+  });
+
+  it('caps long labels', async () => {
+    const hints = await hintsFor([
+      {
+        line: 0,
+        column: 10,
+        kind: 'type',
+        text: '{ id: string; email: string; name: string | null; createdAt: Date }',
+        depth: 1,
+      },
+    ]);
+    const label = hints[0].label as string;
+    expect(label.length).toBe(': '.length + 40);
+    expect(label.endsWith('…')).toBe(true);
+  });
+});
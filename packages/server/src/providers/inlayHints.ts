@@ -0,0 +1,224 @@
+import {
+  InlayHint,
+  InlayHintKind,
+  InlayHintParams,
+  MarkupContent,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { TypeExpansionGuard } from '../guards/typeExpansion.js';
+import type { TsgoInlayHint } from '../integrations/tsgo.js';
+import type { PositionEncoder } from '../positions/positionEncoder.js';
+import type { HoverProvider } from './hover.js';
+import { TimeoutError, withTimeout } from './timeout.js';
+
+/**
+ * Maximum length of an inlay hint label. Hints sit inline with code, so
+ * this is much shorter than the hover limit.
+ */
+const MAX_INLAY_HINT_LENGTH = 40;
+
+/**
+ * Data attached to type hints so `inlayHint/resolve` can compute the
+ * tooltip lazily. The position is in the client's encoding, like a hover
+ * request's.
+ */
+interface InlayHintData {
+  uri: string;
+  line: number;
+  character: number;
+}
+
+/**
+ * InlayHintProvider shows inferred variable types, return types and
+ * parameter names inline, using tsgo hints for the visible range.
+ *
+ * Type labels pass through the TypeExpansionGuard and a short length cap:
+ * a deep type such as a Prisma payload renders as
+ * `Prisma.UserGetPayload<…>` instead of its full expansion. The full,
+ * hover-style type is only computed when the client resolves the hint.
+ *
+ * @example
+ * ```ts
+ * const provider = new InlayHintProvider(bridge, guard, hoverProvider, positions, logger);
+ * const hints = await provider.provideInlayHints(params, document);
+ * const resolved = await provider.resolveInlayHint(hints[0], document);
+ * ```
+ */
+export class InlayHintProvider {
+  private readonly bridge: AnalysisBridge;
+  private readonly guard: TypeExpansionGuard;
+  private readonly hoverProvider: HoverProvider;
+  private readonly positions: PositionEncoder;
+  private readonly logger: Logger;
+  private timeoutMs: number;
+
+  /**
+   * @param bridge - the analysis bridge for accessing tsgo
+   * @param guard - type expansion guard for truncating deep types
+   * @param hoverProvider - renders the tooltip when a hint is resolved
+   * @param positions - converts positions to and from the client's encoding
+   * @param logger - logger instance
+   * @param timeoutMs - timeout for inlay hint requests (default 5000ms)
+   */
+  constructor(
+    bridge: AnalysisBridge,
+    guard: TypeExpansionGuard,
+    hoverProvider: HoverProvider,
+    positions: PositionEncoder,
+    logger: Logger,
+    timeoutMs = 5000,
+  ) {
+    this.bridge = bridge;
+    this.guard = guard;
+    this.hoverProvider = hoverProvider;
+    this.positions = positions;
+    this.logger = logger;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Provide inlay hints for the requested range.
+   *
+   * @param params - LSP inlay hint request parameters
+   * @param document - the text document
+   * @returns inlay hints for the range
+   */
+  async provideInlayHints(
+    params: InlayHintParams,
+    document: TextDocument,
+  ): Promise<InlayHint[]> {
+    const uri = params.textDocument.uri;
+    const content = document.getText();
+    const range = this.positions.rangeToServer(uri, params.range, content);
+
+    try {
+      const hints = await withTimeout(
+        this.bridge.tsgoIntegration.getInlayHints(uri, content, {
+          line: range.start.line,
+          column: range.start.character,
+          endLine: range.end.line,
+          endColumn: range.end.character,
+        }),
+        this.timeoutMs,
+        'Inlay hint',
+      );
+
+      return (hints ?? []).map((hint) => this.toInlayHint(uri, content, hint));
+    } catch (err) {
+      if (err instanceof TimeoutError) {
+        this.logger.debug('Inlay hint request timed out', {
+          uri,
+          timeoutMs: this.timeoutMs,
+        });
+      } else {
+        this.logger.warn('Inlay hint request failed', {
+          uri,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Attach the full type as a hover-style tooltip.
+   *
+   * @param hint - the hint to resolve, as previously returned to the client
+   * @param document - the document the hint belongs to, if still open
+   * @returns the hint with a tooltip, or unchanged if none is available
+   */
+  async resolveInlayHint(
+    hint: InlayHint,
+    document: TextDocument | undefined,
+  ): Promise<InlayHint> {
+    const data = hint.data as InlayHintData | undefined;
+    if (!data || !document) {
+      return hint;
+    }
+
+    const hover = await this.hoverProvider.provideHover(
+      {
+        textDocument: { uri: data.uri },
+        position: { line: data.line, character: data.character },
+      },
+      document,
+    );
+    if (hover && MarkupContent.is(hover.contents)) {
+      hint.tooltip = hover.contents;
+    }
+    return hint;
+  }
+
+  /**
+   * Update the timeout for inlay hint requests.
+   */
+  setTimeoutMs(ms: number): void {
+    this.timeoutMs = ms;
+  }
+
+  /**
+   * Convert a tsgo hint to an LSP inlay hint.
+   */
+  private toInlayHint(uri: string, content: string, hint: TsgoInlayHint): InlayHint {
+    const position = this.positions.positionToClient(
+      uri,
+      { line: hint.line, character: hint.column },
+      content,
+    );
+
+    if (hint.kind === 'parameter') {
+      return {
+        position,
+        label: `${hint.text}:`,
+        kind: InlayHintKind.Parameter,
+        paddingRight: true,
+      };
+    }
+
+    const symbol = this.positions.positionToClient(
+      uri,
+      { line: hint.symbolLine ?? hint.line, character: hint.symbolColumn ?? hint.column },
+      content,
+    );
+    const data: InlayHintData = { uri, line: symbol.line, character: symbol.character };
+    return {
+      position,
+      label: `: ${this.renderType(hint)}`,
+      kind: InlayHintKind.Type,
+      data,
+    };
+  }
+
+  /**
+   * Render a type label. Types past the expansion limit show their alias
+   * name with collapsed type arguments; long labels are collapsed the same
+   * way and then cut to the length cap.
+   */
+  private renderType(hint: TsgoInlayHint): string {
+    const text = hint.text.replace(/\s+/g, ' ');
+    const typeName = hint.typeName ?? text;
+    const expansion = this.guard.checkExpansion(typeName, hint.depth ?? 0);
+
+    let label = text;
+    if (expansion.truncated && hint.typeName) {
+      label =
+        !typeName.includes('<') && text.startsWith(`${typeName}<`)
+          ? `${typeName}<…>`
+          : typeName;
+    }
+
+    if (expansion.truncated || label.length > MAX_INLAY_HINT_LENGTH) {
+      const typeArgsStart = label.indexOf('<');
+      if (typeArgsStart > 0) {
+        label = `${label.slice(0, typeArgsStart)}<…>`;
+      }
+    }
+
+    if (label.length > MAX_INLAY_HINT_LENGTH) {
+      label = `${label.slice(0, MAX_INLAY_HINT_LENGTH - 1)}…`;
+    }
+    return label;
+  }
+}
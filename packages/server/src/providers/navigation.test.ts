@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DEFAULT_CONFIG } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { TsgoLocation } from '../integrations/tsgo.js';
+import { PositionEncoder } from '../positions/positionEncoder.js';
+import { NavigationProvider } from './navigation.js';
+
+const uri = 'file:///test.ts';
+const otherUri = 'file:///types.ts';
+const document = TextDocument.create(uri, 'typescript', 1, 'const user: User = load();');
+const position = { line: 0, character: 7 };
+
+function providerFor(locations: TsgoLocation[], positions = new PositionEncoder()) {
+  const calls: Array<{ method: string; args: unknown[] }> = [];
+  const record =
+    (method: string) =>
+    async (...args: unknown[]) => {
+      calls.push({ method, args: args.slice(1) });
+      return locations;
+    };
+  const bridge = {
+    tsgoIntegration: {
+      getTypeDefinition: record('getTypeDefinition'),
+      getImplementation: record('getImplementation'),
+      getReferences: record('getReferences'),
+    },
+  } as unknown as AnalysisBridge;
+  const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+  return { provider: new NavigationProvider(bridge, positions, logger), calls };
+}
+
+describe('NavigationProvider', () => {
+  it('finds type definitions and implementations, collapsing a missing end to the start', async () => {
+    const { provider, calls } = providerFor([{ uri: otherUri, line: 3, column: 17 }]);
+    const params = { textDocument: { uri }, position };
+
+    const typeDefinitions = await provider.provideTypeDefinition(params, document);
+    const implementations = await provider.provideImplementation(params, document);
+
+    const expected = [
+      { uri: otherUri, range: { start: { line: 3, character: 17 }, end: { line: 3, character: 17 } } },
+    ];
+    expect(typeDefinitions).toEqual(expected);
+    expect(implementations).toEqual(expected);
+    expect(calls.map((c) => c.method)).toEqual(['getTypeDefinition', 'getImplementation']);
+  });
+
+  it('passes includeDeclaration on for references and drops duplicates', async () => {
+    const reference = { uri, line: 0, column: 6, endLine: 0, endColumn: 10 };
+    const { provider, calls } = providerFor([reference, reference, { ...reference, line: 4 }]);
+
+    const withDeclaration = await provider.provideReferences(
+      { textDocument: { uri }, position, context: { includeDeclaration: true } },
+      document,
+    );
+    await provider.provideReferences(
+      { textDocument: { uri }, position, context: { includeDeclaration: false } },
+      document,
+    );
+
+    expect(withDeclaration?.map((l) => l.range.start.line)).toEqual([0, 4]);
+    expect(calls.map((c) => c.args)).toEqual([
+      [document.getText(), 0, 7, true],
+      [document.getText(), 0, 7, false],
+    ]);
+  });
+
+  it('returns null when tsgo finds nothing', async () => {
+    const { provider } = providerFor([]);
+
+    expect(await provider.provideTypeDefinition({ textDocument: { uri }, position }, document)).toBeNull();
+  });
+
+  it('converts locations in other files to the client encoding with their own text', async () => {
+    const otherText = 'export type Ünïcode = { name: string };';
+    const positions = new PositionEncoder('utf-8', (u) => (u === otherUri ? otherText : undefined));
+    const { provider } = providerFor(
+      [{ uri: otherUri, line: 0, column: 12, endLine: 0, endColumn: 19 }],
+      positions,
+    );
+
+    const [location] = (await provider.provideImplementation({ textDocument: { uri }, position }, document)) ?? [];
+
+    // "Ü" and "ï" are two UTF-8 bytes each
+    expect(location?.range).toEqual({
+      start: { line: 0, character: 12 },
+      end: { line: 0, character: 21 },
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import {
+  DefinitionParams,
+  ImplementationParams,
+  Location,
+  ReferenceParams,
+  TypeDefinitionParams,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { TsgoLocation, TsgoNavigationKind } from '../integrations/tsgo.js';
+import type { PositionEncoder } from '../positions/positionEncoder.js';
+
+/**
+ * NavigationProvider answers go-to-definition, go-to-type-definition,
+ * go-to-implementation and find-references requests by delegating to tsgo.
+ *
+ * Requests go through the tsgo process pool like hover and completion, so
+ * they share its per-request timeout and queueing.
+ *
+ * @example
+ * ```ts
+ * const provider = new NavigationProvider(bridge, positions, logger);
+ * const locations = await provider.provideDefinition(params, document);
+ * ```
+ */
+export class NavigationProvider {
+  private readonly bridge: AnalysisBridge;
+  private readonly positions: PositionEncoder;
+  private readonly logger: Logger;
+
+  /**
+   * @param bridge - the analysis bridge for accessing tsgo
+   * @param positions - converts positions to and from the client's encoding
+   * @param logger - logger instance
+   */
+  constructor(bridge: AnalysisBridge, positions: PositionEncoder, logger: Logger) {
+    this.bridge = bridge;
+    this.positions = positions;
+    this.logger = logger;
+  }
+
+  /**
+   * Provide the definition location(s) of the symbol at the given position.
+   *
+   * @param params - LSP definition request parameters
+   * @param document - the text document
+   * @returns definition locations, or null if none were found
+   */
+  async provideDefinition(
+    params: DefinitionParams,
+    document: TextDocument,
+  ): Promise<Location[] | null> {
+    return this.navigate('definition', params, document, (uri, content, line, column) =>
+      this.bridge.tsgoIntegration.getDefinition(uri, content, line, column),
+    );
+  }
+
+  /**
+   * Provide the location(s) where the type of the symbol at the given
+   * position is declared.
+   *
+   * @param params - LSP type definition request parameters
+   * @param document - the text document
+   * @returns type definition locations, or null if none were found
+   */
+  async provideTypeDefinition(
+    params: TypeDefinitionParams,
+    document: TextDocument,
+  ): Promise<Location[] | null> {
+    return this.navigate('typeDefinition', params, document, (uri, content, line, column) =>
+      this.bridge.tsgoIntegration.getTypeDefinition(uri, content, line, column),
+    );
+  }
+
+  /**
+   * Provide the implementation location(s) of the symbol at the given position.
+   *
+   * @param params - LSP implementation request parameters
+   * @param document - the text document
+   * @returns implementation locations, or null if none were found
+   */
+  async provideImplementation(
+    params: ImplementationParams,
+    document: TextDocument,
+  ): Promise<Location[] | null> {
+    return this.navigate('implementation', params, document, (uri, content, line, column) =>
+      this.bridge.tsgoIntegration.getImplementation(uri, content, line, column),
+    );
+  }
+
+  /**
+   * Find all references to the symbol at the given position.
+   *
+   * @param params - LSP references request parameters
+   * @param document - the text document
+   * @returns reference locations, or null if none were found
+   */
+  async provideReferences(
+    params: ReferenceParams,
+    document: TextDocument,
+  ): Promise<Location[] | null> {
+    return this.navigate('references', params, document, (uri, content, line, column) =>
+      this.bridge.tsgoIntegration.getReferences(
+        uri,
+        content,
+        line,
+        column,
+        params.context.includeDeclaration,
+      ),
+    );
+  }
+
+  /**
+   * Run a tsgo navigation request and convert its locations to LSP format.
+   */
+  private async navigate(
+    kind: TsgoNavigationKind,
+    params: DefinitionParams,
+    document: TextDocument,
+    request: (
+      uri: string,
+      content: string,
+      line: number,
+      column: number,
+    ) => Promise<TsgoLocation[]>,
+  ): Promise<Location[] | null> {
+    const uri = params.textDocument.uri;
+    const content = document.getText();
+    const position = this.positions.positionToServer(uri, params.position, content);
+
+    try {
+      const locations = await request(
+        uri,
+        content,
+        position.line,
+        position.character,
+      );
+      if (locations.length === 0) {
+        return null;
+      }
+      return this.dedupe(locations.map((l) => this.toLocation(l)));
+    } catch (err) {
+      this.logger.warn('Navigation request failed', {
+        kind,
+        uri,
+        line: position.line,
+        character: position.character,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Convert a tsgo location to an LSP Location. A missing end collapses the
+   * range to the start position.
+   */
+  private toLocation(location: TsgoLocation): Location {
+    return Location.create(
+      location.uri,
+      this.positions.rangeToClient(location.uri, {
+        start: { line: location.line, character: location.column },
+        end: {
+          line: location.endLine ?? location.line,
+          character: location.endColumn ?? location.column,
+        },
+      }),
+    );
+  }
+
+  /**
+   * Remove duplicate locations, keeping the first occurrence.
+   */
+  private dedupe(locations: Location[]): Location[] {
+    const seen = new Set<string>();
+    return locations.filter((l) => {
+      const key = `${l.uri}:${l.range.start.line}:${l.range.start.character}:${l.range.end.line}:${l.range.end.character}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+}
@@ -0,0 +1,331 @@
+import {
+  CancellationToken,
+  DocumentDiagnosticParams,
+  DocumentDiagnosticReport,
+  DocumentDiagnosticReportKind,
+  FullDocumentDiagnosticReport,
+  LSPErrorCodes,
+  ResponseError,
+  ResultProgressReporter,
+  WorkspaceDiagnosticParams,
+  WorkspaceDiagnosticReport,
+  WorkspaceDiagnosticReportPartialResult,
+  WorkspaceDocumentDiagnosticReport,
+  WorkspaceFullDocumentDiagnosticReport,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Logger } from '../logger/index.js';
+import { AnalysisPriority, type AnalysisBridge } from '../integrations/bridge.js';
+import { FileCache } from '../cache/fileCache.js';
+import { CancelledError } from '../integrations/cancellation.js';
+import type { DiagnosticsProvider } from './diagnostics.js';
+import { readFileUri } from '../workspace/files.js';
+
+/** Number of workspace files analyzed concurrently during a workspace pull. */
+const WORKSPACE_CONCURRENCY = 4;
+
+/** Number of file reports batched into one partial result. */
+const PARTIAL_RESULT_BATCH_SIZE = 50;
+
+/**
+ * PullDiagnosticsProvider answers `textDocument/diagnostic` and
+ * `workspace/diagnostic` requests (LSP 3.17 pull diagnostics).
+ *
+ * Result IDs are derived from the analyzed content hash, so a client that
+ * re-requests diagnostics for an unchanged file receives an `unchanged`
+ * report without the file being re-analyzed. A generation counter is mixed
+ * into every ID so configuration changes and cache clears invalidate all
+ * previously issued IDs at once, and a per-file revision covers forced
+ * re-analysis (e.g. on save) of content whose hash did not change.
+ *
+ * Workspace requests are long-polled: once a full pass has completed, the
+ * next request waits until the workspace is marked dirty (file change,
+ * config change) instead of rescanning every file on each client poll.
+ *
+ * @example
+ * ```ts
+ * const provider = new PullDiagnosticsProvider(bridge, diagnosticsProvider, logger);
+ * connection.languages.diagnostics.on((params, token) =>
+ *   provider.provideDocumentDiagnostics(params, documents.get(params.textDocument.uri), token),
+ * );
+ * ```
+ */
+export class PullDiagnosticsProvider {
+  private readonly bridge: AnalysisBridge;
+  private readonly diagnosticsProvider: DiagnosticsProvider;
+  private readonly logger: Logger;
+  /** Incremented whenever previously issued result IDs become invalid. */
+  private generation = 0;
+  /** Per-file revision, bumped when a file is force re-analyzed with unchanged content. */
+  private readonly revisions = new Map<string, number>();
+  /** Whether something changed since the last completed workspace pass. */
+  private workspaceDirty = true;
+  /** Resolvers for workspace requests waiting on a change. */
+  private workspaceWaiters: Array<() => void> = [];
+
+  /**
+   * @param bridge - the analysis bridge
+   * @param diagnosticsProvider - used for LSP conversion and tracking of open-file diagnostics
+   * @param logger - logger instance
+   */
+  constructor(
+    bridge: AnalysisBridge,
+    diagnosticsProvider: DiagnosticsProvider,
+    logger: Logger,
+  ) {
+    this.bridge = bridge;
+    this.diagnosticsProvider = diagnosticsProvider;
+    this.logger = logger;
+  }
+
+  /**
+   * Invalidate all previously issued result IDs, e.g. after a configuration
+   * change or cache clear, and wake up waiting workspace requests.
+   */
+  invalidateResultIds(): void {
+    this.generation++;
+    this.markWorkspaceDirty();
+  }
+
+  /**
+   * Record that a file's results may have changed although its content did
+   * not, e.g. after a forced re-analysis or a change to a file it imports, so
+   * the next pull returns a full report.
+   */
+  markReanalyzed(uri: string): void {
+    this.revisions.set(uri, (this.revisions.get(uri) ?? 0) + 1);
+    this.markWorkspaceDirty();
+  }
+
+  /**
+   * Signal that workspace files changed, so a pending workspace request
+   * should run another pass.
+   */
+  markWorkspaceDirty(): void {
+    this.workspaceDirty = true;
+    const waiters = this.workspaceWaiters;
+    this.workspaceWaiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+
+  /**
+   * Provide diagnostics for a single document.
+   *
+   * @param params - LSP document diagnostic parameters
+   * @param document - the open document, or undefined to read the file from disk
+   * @param token - cancellation token
+   * @returns a full report, or an unchanged report if the client is up to date
+   */
+  async provideDocumentDiagnostics(
+    params: DocumentDiagnosticParams,
+    document: TextDocument | undefined,
+    token: CancellationToken,
+  ): Promise<DocumentDiagnosticReport> {
+    const uri = params.textDocument.uri;
+    const content = document?.getText() ?? (await readFileUri(uri));
+    if (content === undefined) {
+      return { kind: DocumentDiagnosticReportKind.Full, items: [] };
+    }
+
+    const resultId = this.resultIdFor(uri, FileCache.computeHash(content));
+    if (params.previousResultId === resultId) {
+      return { kind: DocumentDiagnosticReportKind.Unchanged, resultId };
+    }
+    if (token.isCancellationRequested) {
+      return { kind: DocumentDiagnosticReportKind.Full, items: [] };
+    }
+
+    let result;
+    try {
+      result = await this.bridge.analyzeFile(
+        uri,
+        content,
+        false,
+        document ? AnalysisPriority.Active : AnalysisPriority.Background,
+        token,
+      );
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        throw new ResponseError(LSPErrorCodes.RequestCancelled, err.message);
+      }
+      throw err;
+    }
+
+    if (document) {
+      this.diagnosticsProvider.updateDiagnostics(uri, result.diagnostics);
+    }
+
+    const report: FullDocumentDiagnosticReport = {
+      kind: DocumentDiagnosticReportKind.Full,
+      items: this.diagnosticsProvider.toLspDiagnostics(uri, result.diagnostics),
+    };
+    // Without a result ID the next pull analyzes again, rather than
+    // confirming a result that is missing a tool's diagnostics
+    if (!result.partial) {
+      report.resultId = this.resultIdFor(uri, result.contentHash);
+    }
+    return report;
+  }
+
+  /**
+   * Provide diagnostics for every file in the workspace.
+   *
+   * Files are analyzed at background priority. When the client supports
+   * partial results, reports are streamed in batches as files complete.
+   *
+   * @param params - LSP workspace diagnostic parameters
+   * @param fileUris - lists the URIs of all workspace files to report on
+   * @param getDocument - lookup for open documents (their content wins over disk)
+   * @param token - cancellation token
+   * @param resultProgress - optional partial result reporter
+   * @returns the workspace diagnostic report
+   */
+  async provideWorkspaceDiagnostics(
+    params: WorkspaceDiagnosticParams,
+    fileUris: () => Promise<string[]>,
+    getDocument: (uri: string) => TextDocument | undefined,
+    token: CancellationToken,
+    resultProgress?: ResultProgressReporter<WorkspaceDiagnosticReportPartialResult>,
+  ): Promise<WorkspaceDiagnosticReport> {
+    await this.waitForWorkspaceChange(token);
+    if (token.isCancellationRequested) {
+      return { items: [] };
+    }
+    this.workspaceDirty = false;
+
+    const previousResultIds = new Map(
+      params.previousResultIds.map((p) => [p.uri, p.value]),
+    );
+    const files = await fileUris();
+    const items: WorkspaceDocumentDiagnosticReport[] = [];
+    let batch: WorkspaceDocumentDiagnosticReport[] = [];
+
+    const flush = () => {
+      if (resultProgress && batch.length > 0) {
+        resultProgress.report({ items: batch });
+        batch = [];
+      }
+    };
+
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < files.length && !token.isCancellationRequested) {
+        const uri = files[next++];
+        const report = await this.workspaceReportFor(
+          uri,
+          getDocument(uri),
+          previousResultIds.get(uri),
+          token,
+        );
+        if (!report) {
+          continue;
+        }
+        if (resultProgress) {
+          batch.push(report);
+          if (batch.length >= PARTIAL_RESULT_BATCH_SIZE) {
+            flush();
+          }
+        } else {
+          items.push(report);
+        }
+      }
+    };
+
+    const workers: Promise<void>[] = [];
+    for (let i = 0; i < Math.min(WORKSPACE_CONCURRENCY, files.length); i++) {
+      workers.push(worker());
+    }
+    await Promise.all(workers);
+    flush();
+
+    if (token.isCancellationRequested) {
+      // Let the next request redo the pass instead of waiting for a change
+      this.workspaceDirty = true;
+    }
+
+    this.logger.debug('Workspace diagnostics pass complete', {
+      files: files.length,
+      cancelled: token.isCancellationRequested,
+    });
+
+    return { items };
+  }
+
+  /**
+   * Build the workspace report for a single file.
+   */
+  private async workspaceReportFor(
+    uri: string,
+    document: TextDocument | undefined,
+    previousResultId: string | undefined,
+    token: CancellationToken,
+  ): Promise<WorkspaceDocumentDiagnosticReport | undefined> {
+    const content = document?.getText() ?? (await readFileUri(uri));
+    if (content === undefined) {
+      return undefined;
+    }
+
+    const version = document?.version ?? null;
+    const resultId = this.resultIdFor(uri, FileCache.computeHash(content));
+    if (previousResultId === resultId) {
+      return {
+        kind: DocumentDiagnosticReportKind.Unchanged,
+        uri,
+        version,
+        resultId,
+      };
+    }
+
+    try {
+      const result = await this.bridge.analyzeFile(
+        uri,
+        content,
+        false,
+        AnalysisPriority.Background,
+        token,
+      );
+      const report: WorkspaceFullDocumentDiagnosticReport = {
+        kind: DocumentDiagnosticReportKind.Full,
+        uri,
+        version,
+        items: this.diagnosticsProvider.toLspDiagnostics(uri, result.diagnostics),
+      };
+      if (!result.partial) {
+        report.resultId = this.resultIdFor(uri, result.contentHash);
+      }
+      return report;
+    } catch (err) {
+      this.logger.debug('Workspace diagnostics skipped file', {
+        uri,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return undefined;
+    }
+  }
+
+  /**
+   * Resolve when the workspace is dirty or the request is cancelled.
+   */
+  private waitForWorkspaceChange(token: CancellationToken): Promise<void> {
+    if (this.workspaceDirty || token.isCancellationRequested) {
+      return Promise.resolve();
+    }
+    return new Promise<void>((resolve) => {
+      const subscription = token.onCancellationRequested(() => {
+        this.workspaceWaiters = this.workspaceWaiters.filter((w) => w !== done);
+        resolve();
+      });
+      const done = () => {
+        subscription.dispose();
+        resolve();
+      };
+      this.workspaceWaiters.push(done);
+    });
+  }
+
+  private resultIdFor(uri: string, contentHash: string): string {
+    return `${this.generation}:${this.revisions.get(uri) ?? 0}:${contentHash}`;
+  }
+}
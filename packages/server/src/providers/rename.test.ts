@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { ErrorCodes, LSPErrorCodes, ResponseError } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DEFAULT_CONFIG } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { TsgoRenameInfo, TsgoRenameLocation } from '../integrations/tsgo.js';
+import { PositionEncoder } from '../positions/positionEncoder.js';
+import { RenameProvider } from './rename.js';
+
+const uri = 'file:///test.ts';
+const otherUri = 'file:///other.ts';
+
+function providerFor(
+  info: TsgoRenameInfo | undefined,
+  locations?: TsgoRenameLocation[],
+) {
+  const bridge = {
+    tsgoIntegration: {
+      prepareRename: async () => info,
+      getRenameLocations: async () => locations,
+    },
+  } as unknown as AnalysisBridge;
+  const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+  return new RenameProvider(bridge, new PositionEncoder(), logger);
+}
+
+function documentOf(text: string) {
+  return TextDocument.create(uri, 'typescript', 1, text);
+}
+
+describe('RenameProvider.prepareRename', () => {
+  it('returns the identifier range, falling back to its text as placeholder', async () => {
+    const provider = providerFor({
+      canRename: true,
+      range: { line: 0, column: 6, endLine: 0, endColumn: 10 },
+    });
+
+    const result = await provider.prepareRename(
+      { textDocument: { uri }, position: { line: 0, character: 7 } },
+      documentOf('const user = 1;'),
+    );
+
+    expect(result).toEqual({
+      range: { start: { line: 0, character: 6 }, end: { line: 0, character: 10 } },
+      placeholder: 'user',
+    });
+  });
+
+  it('refuses with a ResponseError carrying the reason tsgo gives', async () => {
+    const provider = providerFor({
+      canRename: false,
+      localizedErrorMessage: 'You cannot rename elements that are defined in the standard TypeScript library.',
+    });
+    const params = { textDocument: { uri }, position: { line: 0, character: 2 } };
+
+    const refusal = provider.prepareRename(params, documentOf('Array.from([]);'));
+
+    await expect(refusal).rejects.toBeInstanceOf(ResponseError);
+    await expect(refusal).rejects.toMatchObject({
+      code: LSPErrorCodes.RequestFailed,
+      message: 'You cannot rename elements that are defined in the standard TypeScript library.',
+    });
+    expect(await providerFor({ canRename: false }).prepareRename(params, documentOf('1;'))).toBeNull();
+  });
+});
+
+describe('RenameProvider.provideRename', () => {
+  const params = (newName: string) => ({
+    textDocument: { uri },
+    position: { line: 0, character: 7 },
+    newName,
+  });
+
+  it('rejects an empty new name', async () => {
+    const provider = providerFor(undefined, []);
+
+    await expect(provider.provideRename(params('  '), documentOf('const user = 1;'))).rejects.toMatchObject({
+      code: ErrorCodes.InvalidParams,
+    });
+  });
+
+  it('drops duplicate locations and keeps prefix and suffix text', async () => {
+    const provider = providerFor(undefined, [
+      { uri, line: 0, column: 6, endLine: 0, endColumn: 10 },
+      { uri, line: 0, column: 6, endLine: 0, endColumn: 10 },
+      { uri: otherUri, line: 2, column: 9, endLine: 2, endColumn: 13, prefixText: 'user: ' },
+      { uri: otherUri, line: 3, column: 0, endLine: 3, endColumn: 4, suffixText: ' as user' },
+    ]);
+
+    const edit = await provider.provideRename(params(' account '), documentOf('const user = 1;'));
+
+    expect(edit?.changes).toEqual({
+      [uri]: [
+        { range: { start: { line: 0, character: 6 }, end: { line: 0, character: 10 } }, newText: 'account' },
+      ],
+      [otherUri]: [
+        { range: { start: { line: 2, character: 9 }, end: { line: 2, character: 13 } }, newText: 'user: account' },
+        { range: { start: { line: 3, character: 0 }, end: { line: 3, character: 4 } }, newText: 'account as user' },
+      ],
+    });
+  });
+
+  it('fails with a ResponseError when tsgo computes no locations', async () => {
+    const provider = providerFor(undefined);
+
+    await expect(provider.provideRename(params('account'), documentOf('const user = 1;'))).rejects.toMatchObject({
+      code: LSPErrorCodes.RequestFailed,
+    });
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  ErrorCodes,
+  LSPErrorCodes,
+  PrepareRenameParams,
+  Range,
+  RenameParams,
+  ResponseError,
+  TextEdit,
+  WorkspaceEdit,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { TsgoRenameLocation } from '../integrations/tsgo.js';
+import type { PositionEncoder } from '../positions/positionEncoder.js';
+
+/**
+ * RenameProvider implements `textDocument/prepareRename` and
+ * `textDocument/rename` on top of tsgo, producing a {@link WorkspaceEdit}
+ * that spans every file referencing the symbol.
+ *
+ * Failures are surfaced as `ResponseError`s so the editor shows why a rename
+ * was refused, instead of silently doing nothing.
+ *
+ * @example
+ * ```ts
+ * const provider = new RenameProvider(bridge, positions, logger);
+ * const range = await provider.prepareRename(params, document);
+ * const edit = await provider.provideRename(renameParams, document);
+ * ```
+ */
+export class RenameProvider {
+  private readonly bridge: AnalysisBridge;
+  private readonly positions: PositionEncoder;
+  private readonly logger: Logger;
+
+  /**
+   * @param bridge - the analysis bridge for accessing tsgo
+   * @param positions - converts positions to and from the client's encoding
+   * @param logger - logger instance
+   */
+  constructor(bridge: AnalysisBridge, positions: PositionEncoder, logger: Logger) {
+    this.bridge = bridge;
+    this.positions = positions;
+    this.logger = logger;
+  }
+
+  /**
+   * Check that the symbol at the given position can be renamed.
+   *
+   * @param params - LSP prepareRename request parameters
+   * @param document - the text document
+   * @returns the identifier range and placeholder, or null if nothing renameable is there
+   * @throws ResponseError when tsgo refuses the rename with a reason
+   */
+  async prepareRename(
+    params: PrepareRenameParams,
+    document: TextDocument,
+  ): Promise<{ range: Range; placeholder: string } | null> {
+    const uri = params.textDocument.uri;
+    const content = document.getText();
+    const position = this.positions.positionToServer(uri, params.position, content);
+
+    const info = await this.bridge.tsgoIntegration.prepareRename(
+      uri,
+      content,
+      position.line,
+      position.character,
+    );
+
+    if (!info) {
+      return null;
+    }
+    if (!info.canRename) {
+      if (info.localizedErrorMessage) {
+        throw new ResponseError(LSPErrorCodes.RequestFailed, info.localizedErrorMessage);
+      }
+      return null;
+    }
+    if (!info.range) {
+      return null;
+    }
+
+    const range = Range.create(
+      info.range.line,
+      info.range.column,
+      info.range.endLine,
+      info.range.endColumn,
+    );
+    return {
+      range: this.positions.rangeToClient(uri, range, content),
+      placeholder: info.placeholder ?? document.getText(range),
+    };
+  }
+
+  /**
+   * Rename the symbol at the given position across the project.
+   *
+   * @param params - LSP rename request parameters
+   * @param document - the text document
+   * @returns a WorkspaceEdit with the changes for every affected file
+   * @throws ResponseError when the new name is empty or tsgo cannot compute the rename
+   */
+  async provideRename(
+    params: RenameParams,
+    document: TextDocument,
+  ): Promise<WorkspaceEdit | null> {
+    const uri = params.textDocument.uri;
+    const content = document.getText();
+    const position = this.positions.positionToServer(uri, params.position, content);
+    const newName = params.newName.trim();
+
+    if (!newName) {
+      throw new ResponseError(ErrorCodes.InvalidParams, 'The new name must not be empty');
+    }
+
+    const locations = await this.bridge.tsgoIntegration.getRenameLocations(
+      uri,
+      content,
+      position.line,
+      position.character,
+    );
+
+    if (!locations) {
+      throw new ResponseError(
+        LSPErrorCodes.RequestFailed,
+        'Rename failed: tsgo could not compute rename locations',
+      );
+    }
+    if (locations.length === 0) {
+      return null;
+    }
+
+    const edit = this.toWorkspaceEdit(locations, newName);
+
+    this.logger.debug('Rename computed', {
+      uri,
+      newName,
+      files: Object.keys(edit.changes ?? {}).length,
+      edits: locations.length,
+    });
+
+    return edit;
+  }
+
+  /**
+   * Group rename locations by file into a WorkspaceEdit, dropping duplicates
+   * (tsgo may report the same span through several declarations).
+   */
+  private toWorkspaceEdit(
+    locations: TsgoRenameLocation[],
+    newName: string,
+  ): WorkspaceEdit {
+    const changes: { [uri: string]: TextEdit[] } = {};
+    const seen = new Set<string>();
+
+    for (const loc of locations) {
+      const endLine = loc.endLine ?? loc.line;
+      const endColumn = loc.endColumn ?? loc.column;
+      const key = `${loc.uri}:${loc.line}:${loc.column}:${endLine}:${endColumn}`;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const edits = changes[loc.uri] ?? (changes[loc.uri] = []);
+      edits.push(
+        TextEdit.replace(
+          this.positions.rangeToClient(
+            loc.uri,
+            Range.create(loc.line, loc.column, endLine, endColumn),
+          ),
+          `${loc.prefixText ?? ''}${newName}${loc.suffixText ?? ''}`,
+        ),
+      );
+    }
+
+    return { changes };
+  }
+}
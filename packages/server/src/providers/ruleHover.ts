@@ -0,0 +1,172 @@
+import {
+  Hover,
+  HoverParams,
+  MarkupContent,
+  MarkupKind,
+  Position,
+} from 'vscode-languageserver';
+import type { TurbodiagnosticItem } from '@tsgo-turbo/shared';
+import type { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import { ruleDocumentationUrl, type OxcRuleInfo } from '../integrations/ruleInfo.js';
+import type { PositionEncoder } from '../positions/positionEncoder.js';
+import type { DiagnosticsProvider } from './diagnostics.js';
+
+/**
+ * RuleHoverProvider explains the diagnostics under the cursor: which oxc
+ * rule or TypeScript error each one is, with a link to its documentation.
+ * For oxc rules it also shows the rule's description, its category and the
+ * severity it is currently set to, from `oxc.rules` or the oxlint config
+ * file.
+ *
+ * @example
+ * ```ts
+ * const provider = new RuleHoverProvider(diagnosticsProvider, bridge, positions, logger);
+ * const section = await provider.provideRuleHover(params);
+ * return appendHoverSection(typeHover, section);
+ * ```
+ */
+export class RuleHoverProvider {
+  private readonly diagnosticsProvider: DiagnosticsProvider;
+  private readonly bridge: AnalysisBridge;
+  private readonly positions: PositionEncoder;
+  private readonly logger: Logger;
+
+  /**
+   * @param diagnosticsProvider - the diagnostics provider for the diagnostics at a position
+   * @param bridge - the analysis bridge, which looks up oxc rules
+   * @param positions - converts the hover position from the client's encoding
+   * @param logger - logger instance
+   */
+  constructor(
+    diagnosticsProvider: DiagnosticsProvider,
+    bridge: AnalysisBridge,
+    positions: PositionEncoder,
+    logger: Logger,
+  ) {
+    this.diagnosticsProvider = diagnosticsProvider;
+    this.bridge = bridge;
+    this.positions = positions;
+    this.logger = logger;
+  }
+
+  /**
+   * Describe the rules of the diagnostics at the given position.
+   *
+   * @param params - LSP hover request parameters
+   * @returns a Markdown section, or null when no diagnostic with a code is there
+   */
+  async provideRuleHover(params: HoverParams): Promise<MarkupContent | null> {
+    const uri = params.textDocument.uri;
+    const position = this.positions.positionToServer(uri, params.position);
+    const seen = new Set<string>();
+    const items = this.diagnosticsProvider
+      .getDiagnostics(uri)
+      .filter((item) => {
+        const key = `${item.source}:${item.code}`;
+        if (!item.code || seen.has(key) || !this.contains(item, position)) {
+          return false;
+        }
+        seen.add(key);
+        return true;
+      });
+    if (items.length === 0) {
+      return null;
+    }
+
+    const sections = await Promise.all(items.map((item) => this.describe(item)));
+    return {
+      kind: MarkupKind.Markdown,
+      value: sections.join('\n\n---\n\n'),
+    };
+  }
+
+  /**
+   * Format one diagnostic's rule as Markdown.
+   */
+  private async describe(item: TurbodiagnosticItem): Promise<string> {
+    const code = item.code ?? '';
+    const url = ruleDocumentationUrl(item.source, code);
+    const link = (label: string) => (url ? `[\`${label}\`](${url})` : `\`${label}\``);
+
+    if (item.source !== 'oxc') {
+      return [
+        `**TypeScript** ${link(code)}`,
+        '',
+        `Category: \`${item.severity}\``,
+      ].join('\n');
+    }
+
+    let info: OxcRuleInfo | undefined;
+    try {
+      info = await this.bridge.oxcRuleInfo(code);
+    } catch (err) {
+      this.logger.debug('Failed to look up oxc rule', {
+        code,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+    if (!info) {
+      return `**oxc** ${link(code)}`;
+    }
+
+    const parts = [`**oxc** [\`${info.id.scope}/${info.id.rule}\`](${info.url})`];
+    const description = info.description ?? item.help;
+    if (description) {
+      parts.push('', description);
+    }
+    parts.push('');
+    if (info.category) {
+      parts.push(`Category: \`${info.category}\`  `);
+    }
+    parts.push(
+      info.setting
+        ? `Setting: \`${info.setting.severity}\` (from \`${info.setting.origin}\`)`
+        : 'Setting: oxlint default',
+    );
+    return parts.join('\n');
+  }
+
+  /**
+   * Whether a diagnostic's range (one-based) contains a position (zero-based).
+   */
+  private contains(item: TurbodiagnosticItem, position: Position): boolean {
+    const start = { line: item.line - 1, character: item.column - 1 };
+    const end = {
+      line: (item.endLine ?? item.line) - 1,
+      character: (item.endColumn ?? item.column) - 1,
+    };
+    const afterStart =
+      position.line > start.line ||
+      (position.line === start.line && position.character >= start.character);
+    const beforeEnd =
+      position.line < end.line ||
+      (position.line === end.line && position.character <= end.character);
+    return afterStart && beforeEnd;
+  }
+}
+
+/**
+ * Add a section below a hover's content, or make a hover of it.
+ *
+ * @param hover - the type hover, if any
+ * @param section - Markdown to add, if any
+ */
+export function appendHoverSection(
+  hover: Hover | null,
+  section: MarkupContent | null,
+): Hover | null {
+  if (!section) {
+    return hover;
+  }
+  if (!hover || !MarkupContent.is(hover.contents)) {
+    return hover ?? { contents: section };
+  }
+  return {
+    ...hover,
+    contents: {
+      kind: MarkupKind.Markdown,
+      value: `${hover.contents.value}\n\n---\n\n${section.value}`,
+    },
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DEFAULT_CONFIG } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { TsgoSemanticToken } from '../integrations/tsgo.js';
+import { PositionEncoder } from '../positions/positionEncoder.js';
+import { SemanticTokensProvider, SEMANTIC_TOKENS_LEGEND } from './semanticTokens.js';
+
+const uri = 'file:///test.ts';
+const document = TextDocument.create(uri, 'typescript', 1, '');
+
+function createProvider(tokens: TsgoSemanticToken[][]) {
+  let call = 0;
+  const bridge = {
+    getSemanticTokens: async () => tokens[Math.min(call++, tokens.length - 1)],
+  } as unknown as AnalysisBridge;
+  const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+  return new SemanticTokensProvider(bridge, new PositionEncoder(), logger);
+}
+
+const typeIndex = (type: string) => SEMANTIC_TOKENS_LEGEND.tokenTypes.indexOf(type);
+const modifierBit = (modifier: string) =>
+  1 << SEMANTIC_TOKENS_LEGEND.tokenModifiers.indexOf(modifier);
+
+describe('SemanticTokensProvider', () => {
+  it('encodes sorted tokens relative to the previous token', async () => {
+    const provider = createProvider([
+      [
+        { line: 2, column: 4, length: 3, type: 'enumMember', modifiers: ['readonly'] },
+        { line: 0, column: 6, length: 1, type: 'typeParameter' },
+        { line: 2, column: 10, length: 5, type: 'property', modifiers: ['deprecated', 'unknown'] },
+        { line: 3, column: 0, length: 2, type: 'notInLegend' },
+      ],
+    ]);
+
+    const result = await provider.provideFull({ textDocument: { uri } }, document);
+    expect(result.data).toEqual([
+      0, 6, 1, typeIndex('typeParameter'), 0,
+      2, 4, 3, typeIndex('enumMember'), modifierBit('readonly'),
+      0, 6, 5, typeIndex('property'), modifierBit('deprecated'),
+    ]);
+  });
+
+  it('answers delta requests with a single splice edit', async () => {
+    const provider = createProvider([
+      [
+        { line: 0, column: 0, length: 3, type: 'variable' },
+        { line: 1, column: 0, length: 3, type: 'variable' },
+      ],
+      [
+        { line: 0, column: 0, length: 3, type: 'variable' },
+        { line: 1, column: 0, length: 3, type: 'function' },
+      ],
+    ]);
+
+    const full = await provider.provideFull({ textDocument: { uri } }, document);
+    const delta = await provider.provideDelta(
+      { textDocument: { uri }, previousResultId: full.resultId! },
+      document,
+    );
+
+    expect('edits' in delta && delta.edits).toEqual([
+      { start: 8, deleteCount: 1, data: [typeIndex('function')] },
+    ]);
+  });
+
+  it('returns full tokens for an unknown previous result', async () => {
+    const provider = createProvider([[{ line: 0, column: 0, length: 1, type: 'class' }]]);
+
+    const delta = await provider.provideDelta(
+      { textDocument: { uri }, previousResultId: 'stale' },
+      document,
+    );
+    expect('data' in delta && delta.data).toEqual([0, 0, 1, typeIndex('class'), 0]);
+  });
+});
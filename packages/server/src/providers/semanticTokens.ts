@@ -0,0 +1,247 @@
+import {
+  SemanticTokenModifiers,
+  SemanticTokenTypes,
+  SemanticTokens,
+  SemanticTokensDelta,
+  SemanticTokensDeltaParams,
+  SemanticTokensLegend,
+  SemanticTokensParams,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { TsgoSemanticToken } from '../integrations/tsgo.js';
+import type { PositionEncoder } from '../positions/positionEncoder.js';
+
+/** Token types advertised to the client, in legend order. */
+const TOKEN_TYPES: string[] = [
+  SemanticTokenTypes.namespace,
+  SemanticTokenTypes.type,
+  SemanticTokenTypes.class,
+  SemanticTokenTypes.enum,
+  SemanticTokenTypes.interface,
+  SemanticTokenTypes.typeParameter,
+  SemanticTokenTypes.parameter,
+  SemanticTokenTypes.variable,
+  SemanticTokenTypes.property,
+  SemanticTokenTypes.enumMember,
+  SemanticTokenTypes.function,
+  SemanticTokenTypes.method,
+  SemanticTokenTypes.decorator,
+];
+
+/** Token modifiers advertised to the client, in legend (bit) order. */
+const TOKEN_MODIFIERS: string[] = [
+  SemanticTokenModifiers.declaration,
+  SemanticTokenModifiers.readonly,
+  SemanticTokenModifiers.static,
+  SemanticTokenModifiers.deprecated,
+  SemanticTokenModifiers.abstract,
+  SemanticTokenModifiers.async,
+  SemanticTokenModifiers.defaultLibrary,
+];
+
+/** Legend for the `semanticTokensProvider` capability. */
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+  tokenTypes: TOKEN_TYPES,
+  tokenModifiers: TOKEN_MODIFIERS,
+};
+
+const TOKEN_TYPE_INDEX = new Map(TOKEN_TYPES.map((t, i) => [t, i]));
+const TOKEN_MODIFIER_BIT = new Map(TOKEN_MODIFIERS.map((m, i) => [m, 1 << i]));
+
+/**
+ * SemanticTokensProvider serves `textDocument/semanticTokens/full` and
+ * `textDocument/semanticTokens/full/delta` from tsgo symbol classifications.
+ *
+ * The last encoded result per document is kept so delta requests can be
+ * answered with a single splice edit covering only the changed region.
+ *
+ * @example
+ * ```ts
+ * const provider = new SemanticTokensProvider(bridge, positions, logger);
+ * const tokens = await provider.provideFull(params, document);
+ * const delta = await provider.provideDelta(deltaParams, document);
+ * ```
+ */
+export class SemanticTokensProvider {
+  private readonly bridge: AnalysisBridge;
+  private readonly positions: PositionEncoder;
+  private readonly logger: Logger;
+  /** Last result sent per document, the base for delta requests. */
+  private readonly previousResults = new Map<
+    string,
+    { resultId: string; data: number[] }
+  >();
+  private nextResultId = 1;
+
+  /**
+   * @param bridge - the analysis bridge for accessing tsgo
+   * @param positions - converts positions to and from the client's encoding
+   * @param logger - logger instance
+   */
+  constructor(bridge: AnalysisBridge, positions: PositionEncoder, logger: Logger) {
+    this.bridge = bridge;
+    this.positions = positions;
+    this.logger = logger;
+  }
+
+  /**
+   * Provide all semantic tokens for a document.
+   *
+   * @param params - LSP semantic tokens request parameters
+   * @param document - the text document
+   * @returns encoded semantic tokens
+   */
+  async provideFull(
+    params: SemanticTokensParams,
+    document: TextDocument,
+  ): Promise<SemanticTokens> {
+    const uri = params.textDocument.uri;
+    const data = await this.computeTokens(uri, document);
+    return this.remember(uri, data);
+  }
+
+  /**
+   * Provide semantic tokens as edits against a previous result. Falls back
+   * to a full result when the previous result is unknown.
+   *
+   * @param params - LSP semantic tokens delta request parameters
+   * @param document - the text document
+   * @returns a delta, or full tokens if no usable base exists
+   */
+  async provideDelta(
+    params: SemanticTokensDeltaParams,
+    document: TextDocument,
+  ): Promise<SemanticTokens | SemanticTokensDelta> {
+    const uri = params.textDocument.uri;
+    const previous = this.previousResults.get(uri);
+    const data = await this.computeTokens(uri, document);
+
+    if (!previous || previous.resultId !== params.previousResultId) {
+      return this.remember(uri, data);
+    }
+
+    const { resultId } = this.remember(uri, data);
+    return { resultId, edits: this.diff(previous.data, data) };
+  }
+
+  /**
+   * Forget the stored result for a closed document.
+   */
+  forget(uri: string): void {
+    this.previousResults.delete(uri);
+  }
+
+  /**
+   * Fetch tokens through the bridge (cached by content hash) and encode them.
+   */
+  private async computeTokens(
+    uri: string,
+    document: TextDocument,
+  ): Promise<number[]> {
+    try {
+      const content = document.getText();
+      const tokens = await this.bridge.getSemanticTokens(uri, content);
+      return this.encode(uri, content, tokens);
+    } catch (err) {
+      this.logger.warn('Semantic tokens request failed', {
+        uri,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return [];
+    }
+  }
+
+  private remember(
+    uri: string,
+    data: number[],
+  ): { resultId: string; data: number[] } {
+    const resultId = String(this.nextResultId++);
+    this.previousResults.set(uri, { resultId, data });
+    return { resultId, data };
+  }
+
+  /**
+   * Encode tokens into the LSP relative integer format, with columns and
+   * lengths in the client's encoding. Tokens with a type outside the legend
+   * are dropped; unknown modifiers are ignored.
+   */
+  private encode(uri: string, content: string, tokens: TsgoSemanticToken[]): number[] {
+    const sorted = [...tokens].sort(
+      (a, b) => a.line - b.line || a.column - b.column,
+    );
+
+    const data: number[] = [];
+    let prevLine = 0;
+    let prevColumn = 0;
+
+    for (const token of sorted) {
+      const typeIndex = TOKEN_TYPE_INDEX.get(token.type);
+      if (typeIndex === undefined || token.length <= 0) {
+        continue;
+      }
+
+      let modifierBits = 0;
+      for (const modifier of token.modifiers ?? []) {
+        modifierBits |= TOKEN_MODIFIER_BIT.get(modifier) ?? 0;
+      }
+
+      const start = this.positions.positionToClient(
+        uri,
+        { line: token.line, character: token.column },
+        content,
+      );
+      const end = this.positions.positionToClient(
+        uri,
+        { line: token.line, character: token.column + token.length },
+        content,
+      );
+
+      const deltaLine = token.line - prevLine;
+      const deltaColumn = deltaLine === 0 ? start.character - prevColumn : start.character;
+      data.push(deltaLine, deltaColumn, end.character - start.character, typeIndex, modifierBits);
+
+      prevLine = token.line;
+      prevColumn = start.character;
+    }
+
+    return data;
+  }
+
+  /**
+   * Compute the edits turning `previous` into `current` as a single splice
+   * between their common prefix and suffix.
+   */
+  private diff(previous: number[], current: number[]): SemanticTokensDelta['edits'] {
+    let start = 0;
+    while (
+      start < previous.length &&
+      start < current.length &&
+      previous[start] === current[start]
+    ) {
+      start++;
+    }
+
+    if (start === previous.length && start === current.length) {
+      return [];
+    }
+
+    let end = 0;
+    while (
+      end < previous.length - start &&
+      end < current.length - start &&
+      previous[previous.length - 1 - end] === current[current.length - 1 - end]
+    ) {
+      end++;
+    }
+
+    return [
+      {
+        start,
+        deleteCount: previous.length - start - end,
+        data: current.slice(start, current.length - end),
+      },
+    ];
+  }
+}
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import type { SignatureHelpParams } from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { DEFAULT_CONFIG } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import { TypeExpansionGuard } from '../guards/typeExpansion.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { TsgoSignature, TsgoSignatureHelp } from '../integrations/tsgo.js';
+import type { PositionEncoding } from '../positions/lineIndex.js';
+import { PositionEncoder } from '../positions/positionEncoder.js';
+import { SignatureHelpProvider } from './signatureHelp.js';
+
+const uri = 'file:///test.ts';
+
+function signature(...names: string[]): TsgoSignature {
+  return {
+    prefix: 'fetchUser(',
+    separator: ', ',
+    suffix: '): User',
+    parameters: names.map((name) => ({
+      name: name.replace('...', ''),
+      type: 'string',
+      typeName: 'string',
+      depth: 1,
+      rest: name.startsWith('...'),
+    })),
+  };
+}
+
+function providerFor(help: TsgoSignatureHelp, encoding: PositionEncoding = 'utf-16') {
+  const requests: Array<{ line: number; character: number }> = [];
+  const bridge = {
+    tsgoIntegration: {
+      getSignatureHelp: async (_uri: string, _content: string, line: number, character: number) => {
+        requests.push({ line, character });
+        return help;
+      },
+    },
+  } as unknown as AnalysisBridge;
+  const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+  const provider = new SignatureHelpProvider(
+    bridge,
+    new TypeExpansionGuard(50),
+    new PositionEncoder(encoding),
+    logger,
+  );
+  return { provider, requests };
+}
+
+function params(character: number, context?: SignatureHelpParams['context']): SignatureHelpParams {
+  const base = { textDocument: { uri }, position: { line: 0, character } };
+  return context ? { ...base, context } : base;
+}
+
+describe('SignatureHelpProvider', () => {
+  const document = TextDocument.create(uri, 'typescript', 1, 'fetchUser(id, ');
+
+  it('labels parameters by offset and maps the argument index to the active parameter', async () => {
+    const { provider } = providerFor({
+      signatures: [signature('id', 'id')],
+      activeSignature: 0,
+      activeParameter: 1,
+    });
+
+    const help = await provider.provideSignatureHelp(params(14), document);
+
+    expect(help?.signatures[0]).toMatchObject({
+      label: 'fetchUser(id: string, id: string): User',
+      parameters: [{ label: [10, 20] }, { label: [22, 32] }],
+      activeParameter: 1,
+    });
+    expect(help?.activeSignature).toBe(0);
+    expect(help?.activeParameter).toBe(1);
+  });
+
+  it('keeps arguments past the end on a rest parameter and highlights nothing otherwise', async () => {
+    const rest = providerFor({ signatures: [signature('id', '...fields')], activeSignature: 0, activeParameter: 4 });
+    const fixed = providerFor({ signatures: [signature('id')], activeSignature: 0, activeParameter: 2 });
+
+    expect((await rest.provider.provideSignatureHelp(params(14), document))?.activeParameter).toBe(1);
+    expect((await fixed.provider.provideSignatureHelp(params(14), document))?.activeParameter).toBe(2);
+  });
+
+  it('keeps the overload selected in the popup on a retrigger, within range', async () => {
+    const { provider } = providerFor({
+      signatures: [signature('id'), signature('id', 'name')],
+      activeSignature: 0,
+      activeParameter: 0,
+    });
+    const previous = { signatures: [{ label: 'a' }, { label: 'b' }], activeSignature: 1 };
+
+    const retriggered = await provider.provideSignatureHelp(
+      params(14, { triggerKind: 3, isRetrigger: true, activeSignatureHelp: previous }),
+      document,
+    );
+    const fresh = await provider.provideSignatureHelp(
+      params(14, { triggerKind: 1, isRetrigger: false, activeSignatureHelp: previous }),
+      document,
+    );
+
+    expect(retriggered?.activeSignature).toBe(1);
+    expect(fresh?.activeSignature).toBe(0);
+  });
+
+  it('converts the position from the client encoding before asking tsgo', async () => {
+    const text = 'const é = fetchUser(id, ';
+    const { provider, requests } = providerFor(
+      { signatures: [signature('id')], activeSignature: 0, activeParameter: 0 },
+      'utf-8',
+    );
+
+    // "é" is one UTF-16 code unit but two UTF-8 bytes
+    await provider.provideSignatureHelp(
+      params(Buffer.byteLength(text)),
+      TextDocument.create(uri, 'typescript', 1, text),
+    );
+
+    expect(requests).toEqual([{ line: 0, character: text.length }]);
+  });
+});
@@ -0,0 +1,253 @@
+import {
+  MarkupKind,
+  ParameterInformation,
+  SignatureHelp,
+  SignatureHelpParams,
+  SignatureInformation,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { TypeExpansionGuard } from '../guards/typeExpansion.js';
+import type { PositionEncoder } from '../positions/positionEncoder.js';
+import type {
+  TsgoSignature,
+  TsgoSignatureParameter,
+} from '../integrations/tsgo.js';
+import { TimeoutError, withTimeout } from './timeout.js';
+
+/**
+ * Maximum length of a single parameter or return type shown in the
+ * signature popup before truncation.
+ */
+const MAX_SIGNATURE_TYPE_LENGTH = 160;
+
+/**
+ * SignatureHelpProvider shows the parameter list of the call or JSX element
+ * under the cursor and tracks which parameter is active.
+ *
+ * Parameter types pass through the TypeExpansionGuard: when a type exceeds
+ * the allowed expansion depth (common with tRPC procedure inputs and Prisma
+ * `*Args` generics), its alias name is shown instead of the expanded type,
+ * and every type is length-capped so the popup stays responsive.
+ *
+ * @example
+ * ```ts
+ * const provider = new SignatureHelpProvider(bridge, guard, positions, logger);
+ * const help = await provider.provideSignatureHelp(params, document);
+ * ```
+ */
+export class SignatureHelpProvider {
+  private readonly bridge: AnalysisBridge;
+  private readonly guard: TypeExpansionGuard;
+  private readonly positions: PositionEncoder;
+  private readonly logger: Logger;
+  private timeoutMs: number;
+
+  /**
+   * @param bridge - the analysis bridge for accessing tsgo
+   * @param guard - type expansion guard for truncating deep types
+   * @param positions - converts positions to and from the client's encoding
+   * @param logger - logger instance
+   * @param timeoutMs - timeout for signature help requests (default 5000ms)
+   */
+  constructor(
+    bridge: AnalysisBridge,
+    guard: TypeExpansionGuard,
+    positions: PositionEncoder,
+    logger: Logger,
+    timeoutMs = 5000,
+  ) {
+    this.bridge = bridge;
+    this.guard = guard;
+    this.positions = positions;
+    this.logger = logger;
+    this.timeoutMs = timeoutMs;
+  }
+
+  /**
+   * Provide signature help at the given position.
+   *
+   * On a retrigger with the same set of overloads, the overload the user
+   * selected in the popup is kept active.
+   *
+   * @param params - LSP signature help request parameters
+   * @param document - the text document
+   * @returns signature help, or null when the cursor is not inside a call
+   */
+  async provideSignatureHelp(
+    params: SignatureHelpParams,
+    document: TextDocument,
+  ): Promise<SignatureHelp | null> {
+    const uri = params.textDocument.uri;
+    const content = document.getText();
+    const position = this.positions.positionToServer(uri, params.position, content);
+
+    try {
+      const help = await withTimeout(
+        this.bridge.tsgoIntegration.getSignatureHelp(
+          uri,
+          content,
+          position.line,
+          position.character,
+          params.context?.triggerCharacter,
+        ),
+        this.timeoutMs,
+        'Signature help',
+      );
+
+      if (!help || help.signatures.length === 0) {
+        return null;
+      }
+
+      const signatures = help.signatures.map((sig) =>
+        this.toSignatureInformation(sig, help.activeParameter),
+      );
+
+      const previous = params.context?.activeSignatureHelp;
+      const requested =
+        params.context?.isRetrigger &&
+        previous?.activeSignature !== undefined &&
+        previous.signatures.length === signatures.length
+          ? previous.activeSignature
+          : help.activeSignature;
+      const activeSignature = Math.min(
+        Math.max(requested, 0),
+        signatures.length - 1,
+      );
+
+      const result: SignatureHelp = { signatures, activeSignature };
+      const activeParameter = signatures[activeSignature].activeParameter;
+      if (typeof activeParameter === 'number') {
+        result.activeParameter = activeParameter;
+      }
+      return result;
+    } catch (err) {
+      if (err instanceof TimeoutError) {
+        this.logger.debug('Signature help request timed out', {
+          uri,
+          line: position.line,
+          character: position.character,
+          timeoutMs: this.timeoutMs,
+        });
+      } else {
+        this.logger.warn('Signature help request failed', {
+          uri,
+          line: position.line,
+          character: position.character,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Update the timeout for signature help requests.
+   */
+  setTimeoutMs(ms: number): void {
+    this.timeoutMs = ms;
+  }
+
+  /**
+   * Build the LSP signature. Parameter labels are offsets into the
+   * signature label, so identical parameter texts never highlight the
+   * wrong occurrence.
+   */
+  private toSignatureInformation(
+    sig: TsgoSignature,
+    argumentIndex: number,
+  ): SignatureInformation {
+    let label = sig.prefix;
+    const parameters: ParameterInformation[] = [];
+    const truncatedTypes: string[] = [];
+
+    sig.parameters.forEach((param, index) => {
+      if (index > 0) {
+        label += sig.separator;
+      }
+      const start = label.length;
+      label += this.renderParameter(param, truncatedTypes);
+
+      const info: ParameterInformation = { label: [start, label.length] };
+      if (param.documentation) {
+        info.documentation = param.documentation;
+      }
+      parameters.push(info);
+    });
+
+    label += this.capLength(sig.suffix);
+
+    const docParts: string[] = [];
+    if (sig.documentation) {
+      docParts.push(sig.documentation);
+    }
+    if (truncatedTypes.length > 0) {
+      docParts.push(
+        `*Type expansion truncated for: ${truncatedTypes.map((t) => `\`${t}\``).join(', ')}*`,
+      );
+    }
+
+    const information: SignatureInformation = { label, parameters };
+    if (docParts.length > 0) {
+      information.documentation = {
+        kind: MarkupKind.Markdown,
+        value: docParts.join('\n\n'),
+      };
+    }
+
+    information.activeParameter = this.resolveActiveParameter(
+      sig.parameters,
+      argumentIndex,
+    );
+
+    return information;
+  }
+
+  /**
+   * Render a single parameter as `name?: Type`, applying the expansion guard.
+   */
+  private renderParameter(
+    param: TsgoSignatureParameter,
+    truncatedTypes: string[],
+  ): string {
+    const expansion = this.guard.checkExpansion(param.typeName, param.depth);
+    let type = param.type;
+    if (expansion.truncated) {
+      type = param.typeName;
+      truncatedTypes.push(param.typeName);
+    }
+
+    const rest = param.rest ? '...' : '';
+    const optional = param.optional ? '?' : '';
+    return `${rest}${param.name}${optional}: ${this.capLength(type)}`;
+  }
+
+  /**
+   * Map the argument index to a parameter index. Arguments past the end
+   * stay on a trailing rest parameter; otherwise the index is left out of
+   * range so the client highlights nothing.
+   */
+  private resolveActiveParameter(
+    parameters: TsgoSignatureParameter[],
+    argumentIndex: number,
+  ): number {
+    const index = Math.max(argumentIndex, 0);
+    const last = parameters[parameters.length - 1];
+    if (index >= parameters.length && last?.rest) {
+      return parameters.length - 1;
+    }
+    return index;
+  }
+
+  /**
+   * Collapse whitespace and cap the length of a type for single-line display.
+   */
+  private capLength(text: string): string {
+    const singleLine = text.replace(/\s+/g, ' ');
+    if (singleLine.length <= MAX_SIGNATURE_TYPE_LENGTH) {
+      return singleLine;
+    }
+    return `${singleLine.slice(0, MAX_SIGNATURE_TYPE_LENGTH)}…`;
+  }
+}
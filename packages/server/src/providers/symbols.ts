@@ -0,0 +1,150 @@
+import {
+  DocumentSymbol,
+  DocumentSymbolParams,
+  Range,
+  SymbolInformation,
+  SymbolKind,
+  SymbolTag,
+  WorkspaceSymbolParams,
+} from 'vscode-languageserver';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import type { Logger } from '../logger/index.js';
+import type { AnalysisBridge } from '../integrations/bridge.js';
+import type { TsgoDocumentSymbol, TsgoRange } from '../integrations/tsgo.js';
+import type { PositionEncoder } from '../positions/positionEncoder.js';
+import type { SymbolIndex } from '../workspace/symbolIndex.js';
+
+/** Maximum number of results returned for a workspace symbol query. */
+const MAX_WORKSPACE_SYMBOLS = 256;
+
+/** tsgo kind names (lowercased SymbolKind keys) to LSP SymbolKind values. */
+const SYMBOL_KINDS = new Map<string, SymbolKind>(
+  Object.entries(SymbolKind)
+    .filter((entry): entry is [string, SymbolKind] => typeof entry[1] === 'number')
+    .map(([name, value]) => [name.toLowerCase(), value]),
+);
+
+/**
+ * SymbolProvider serves the document outline (`textDocument/documentSymbol`)
+ * from tsgo and workspace symbol search (`workspace/symbol`) from the
+ * in-memory {@link SymbolIndex}, so Ctrl+T never waits on tsgo.
+ *
+ * @example
+ * ```ts
+ * const provider = new SymbolProvider(bridge, index, positions, logger);
+ * const outline = await provider.provideDocumentSymbols(params, document);
+ * const matches = provider.provideWorkspaceSymbols({ query: 'userRouter' });
+ * ```
+ */
+export class SymbolProvider {
+  private readonly bridge: AnalysisBridge;
+  private readonly index: SymbolIndex;
+  private readonly positions: PositionEncoder;
+  private readonly logger: Logger;
+
+  /**
+   * @param bridge - the analysis bridge for accessing tsgo
+   * @param index - workspace symbol index, kept current by the bridge
+   * @param positions - converts positions to and from the client's encoding
+   * @param logger - logger instance
+   */
+  constructor(
+    bridge: AnalysisBridge,
+    index: SymbolIndex,
+    positions: PositionEncoder,
+    logger: Logger,
+  ) {
+    this.bridge = bridge;
+    this.index = index;
+    this.positions = positions;
+    this.logger = logger;
+  }
+
+  /**
+   * Provide the hierarchical outline of a document.
+   *
+   * @param params - LSP document symbol request parameters
+   * @param document - the text document
+   * @returns document symbols
+   */
+  async provideDocumentSymbols(
+    params: DocumentSymbolParams,
+    document: TextDocument,
+  ): Promise<DocumentSymbol[]> {
+    const uri = params.textDocument.uri;
+    try {
+      const content = document.getText();
+      const symbols = await this.bridge.getDocumentSymbols(uri, content);
+      return symbols.map((s) => this.toDocumentSymbol(uri, content, s));
+    } catch (err) {
+      this.logger.warn('Document symbol request failed', {
+        uri,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Search workspace symbols in the index.
+   *
+   * @param params - LSP workspace symbol request parameters
+   * @returns matching symbols, best match first
+   */
+  provideWorkspaceSymbols(params: WorkspaceSymbolParams): SymbolInformation[] {
+    const startTime = Date.now();
+    const matches = this.index.search(params.query, MAX_WORKSPACE_SYMBOLS);
+
+    this.logger.debug('Workspace symbol search', {
+      query: params.query,
+      results: matches.length,
+      indexSize: this.index.size,
+      durationMs: Date.now() - startTime,
+    });
+
+    return matches.map((symbol) => {
+      const info = SymbolInformation.create(
+        symbol.name,
+        this.toSymbolKind(symbol.kind),
+        this.toRange(symbol.uri, symbol.range),
+        symbol.uri,
+        symbol.containerName,
+      );
+      if (symbol.deprecated) {
+        info.tags = [SymbolTag.Deprecated];
+      }
+      return info;
+    });
+  }
+
+  private toDocumentSymbol(
+    uri: string,
+    content: string,
+    symbol: TsgoDocumentSymbol,
+  ): DocumentSymbol {
+    const result = DocumentSymbol.create(
+      symbol.name,
+      symbol.detail,
+      this.toSymbolKind(symbol.kind),
+      this.toRange(uri, symbol.range, content),
+      this.toRange(uri, symbol.selectionRange, content),
+      symbol.children?.map((c) => this.toDocumentSymbol(uri, content, c)),
+    );
+    if (symbol.deprecated) {
+      result.tags = [SymbolTag.Deprecated];
+    }
+    return result;
+  }
+
+  private toSymbolKind(kind: string): SymbolKind {
+    return SYMBOL_KINDS.get(kind.toLowerCase()) ?? SymbolKind.Variable;
+  }
+
+  private toRange(uri: string, range: TsgoRange, content?: string): Range {
+    return this.positions.rangeToClient(
+      uri,
+      Range.create(range.line, range.column, range.endLine, range.endColumn),
+      content,
+    );
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Error raised when an editor-facing request exceeds its time budget.
+ */
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Race a promise against a timeout.
+ *
+ * Interactive providers (hover, signature help) use a budget much shorter
+ * than the per-file tsgo timeout so a slow request never blocks the UI.
+ *
+ * @param promise - the request to wait for
+ * @param ms - timeout in milliseconds
+ * @param label - request name used in the timeout message
+ * @throws TimeoutError when the timeout elapses first
+ */
+export function withTimeout<T>(
+  promise: Promise<T>,
+  ms: number,
+  label: string,
+): Promise<T | undefined> {
+  return new Promise<T | undefined>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      reject(new TimeoutError(`${label} request timed out after ${ms}ms`));
+    }, ms);
+
+    promise
+      .then((result) => {
+        clearTimeout(timer);
+        resolve(result);
+      })
+      .catch((err) => {
+        clearTimeout(timer);
+        reject(err);
+      });
+  });
+}
@@ -0,0 +1,254 @@
+#!/usr/bin/env node
+// Stand-in for the oxlint binary, used by the integration tests.
+//
+// `oxlint --format=json --stdin-filename=<name> -` reads the file from stdin
+// and prints the JSON diagnostics array OxcIntegration parses. A line
+// `// @fake-lint: <message>` in the content becomes a warning on that line.
+//
+// `oxlint --format=json <paths...>` lints files, and the files in
+// directories, from disk in one run and logs each with method `batch`. Like
+// oxlint, it names the files relative to its working directory.
+//
+// `oxlint --rules --format=json` lists the one rule, `fake/rule`.
+//
+// `oxlint --lsp` speaks the language server protocol instead, like
+// oxc_language_server: it needs a root URI, lints the file on disk when a
+// document is opened and the full text sent with each change, and publishes
+// the diagnostics after each.
+//
+// Behaviour is scripted by the JSON file named in FAKE_OXLINT_SCENARIO, re-read
+// on every lint:
+//   latencyMs   delay before printing the result (or publishing diagnostics)
+//   crash       exit with code 2 and no output
+//   malformed   print output that is not JSON (spawn mode only)
+//   noLsp       reject the --lsp flag, like an oxlint without it
+//   requestLog  file to append `{ pid, cwd, filename, method }` lines to
+
+import { appendFileSync, readdirSync, readFileSync, statSync } from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+function scenario() {
+  const file = process.env.FAKE_OXLINT_SCENARIO;
+  if (!file) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+function lintMessages(content) {
+  const found = [];
+  content.split('\n').forEach((text, index) => {
+    const match = /\/\/ @fake-lint: (.*)$/.exec(text);
+    if (match) {
+      found.push({ message: match[1].trim(), line: index, column: match.index, endColumn: text.length });
+    }
+  });
+  return found;
+}
+
+function log(entry) {
+  const current = scenario();
+  if (current.requestLog) {
+    appendFileSync(current.requestLog, JSON.stringify({ pid: process.pid, cwd: process.cwd(), ...entry }) + '\n');
+  }
+}
+
+function readOnDisk(uri) {
+  try {
+    return readFileSync(fileURLToPath(uri), 'utf-8');
+  } catch {
+    return '';
+  }
+}
+
+function serveLsp() {
+  const documents = new Map();
+  let buffer = Buffer.alloc(0);
+
+  const send = (message) => {
+    const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+    process.stdout.write(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+  };
+
+  const publish = (uri, version) => {
+    const current = scenario();
+    if (current.crash) {
+      process.stderr.write('fake-oxlint: crashing\n');
+      process.exit(2);
+    }
+    setTimeout(() => {
+      const document = documents.get(uri);
+      if (!document || document.version !== version) {
+        return;
+      }
+      const diagnostics = lintMessages(document.text).map((found) => ({
+        range: {
+          start: { line: found.line, character: found.column },
+          end: { line: found.line, character: found.endColumn },
+        },
+        severity: 2,
+        code: 'fake/rule',
+        source: 'oxc',
+        message: found.message,
+      }));
+      send({ method: 'textDocument/publishDiagnostics', params: { uri, version, diagnostics } });
+    }, current.latencyMs ?? 0);
+  };
+
+  const handle = (message) => {
+    const { id, method, params } = message;
+    switch (method) {
+      case 'initialize':
+        if (!params.rootUri) {
+          process.stderr.write("thread 'main' panicked: should get uri\n");
+          process.exit(13);
+        }
+        send({ id, result: { capabilities: { textDocumentSync: 1 }, serverInfo: { name: 'fake-oxlint' } } });
+        break;
+      case 'textDocument/didOpen':
+      case 'textDocument/didChange': {
+        const { uri, version } = params.textDocument;
+        const text = method === 'textDocument/didOpen' ? readOnDisk(uri) : params.contentChanges.at(-1).text;
+        log({ filename: fileURLToPath(uri), method });
+        documents.set(uri, { version, text });
+        publish(uri, version);
+        break;
+      }
+      case 'textDocument/didClose':
+        log({ filename: fileURLToPath(params.textDocument.uri), method });
+        documents.delete(params.textDocument.uri);
+        break;
+      case 'shutdown':
+        send({ id, result: null });
+        break;
+      case 'exit':
+        process.exit(0);
+        break;
+      default:
+        if (id !== undefined) {
+          send({ id, error: { code: -32601, message: `Unhandled method ${method}` } });
+        }
+    }
+  };
+
+  process.stdin.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf('\r\n\r\n');
+      if (headerEnd < 0) {
+        return;
+      }
+      const length = Number(/Content-Length: (\d+)/i.exec(buffer.subarray(0, headerEnd).toString())[1]);
+      if (buffer.length < headerEnd + 4 + length) {
+        return;
+      }
+      const body = buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString('utf-8');
+      buffer = buffer.subarray(headerEnd + 4 + length);
+      handle(JSON.parse(body));
+    }
+  });
+}
+
+if (process.argv.includes('--version')) {
+  process.stdout.write('fake-oxlint 0.0.0\n');
+  process.exit(0);
+}
+
+if (process.argv.includes('--rules')) {
+  const rules = [
+    { scope: 'fake', value: 'rule', category: 'correctness', description: 'Reports `// @fake-lint:` comments' },
+  ];
+  process.stdout.write(JSON.stringify(rules));
+  process.exit(0);
+}
+
+if (process.argv.includes('--lsp')) {
+  if (scenario().noLsp) {
+    process.stderr.write("error: unexpected argument '--lsp' found\n");
+    process.exit(2);
+  }
+  serveLsp();
+} else if (process.argv.includes('-')) {
+  lintStdin();
+} else {
+  lintFiles();
+}
+
+function toDiagnostics(content, filename) {
+  return lintMessages(content).map((found) => ({
+    filename,
+    message: found.message,
+    severity: 'warning',
+    rule_id: 'fake/rule',
+    start: { line: found.line + 1, column: found.column + 1 },
+    end: { line: found.line + 1, column: found.endColumn + 1 },
+  }));
+}
+
+function lintFiles() {
+  const current = scenario();
+  const files = [];
+  const collect = (target) => {
+    if (statSync(target).isDirectory()) {
+      for (const name of readdirSync(target).sort()) {
+        collect(path.join(target, name));
+      }
+    } else {
+      files.push(target);
+    }
+  };
+  for (const arg of process.argv.slice(2).filter((a) => !a.startsWith('-'))) {
+    collect(arg);
+  }
+
+  // Read up front, so a file changed during the delay is reported as it was
+  const contents = files.map((file) => readFileSync(file, 'utf-8'));
+  setTimeout(() => {
+    if (current.crash) {
+      process.stderr.write('fake-oxlint: crashing\n');
+      process.exit(2);
+    }
+    const diagnostics = files.flatMap((file, i) => {
+      log({ filename: file, method: 'batch' });
+      return toDiagnostics(contents[i], path.relative(process.cwd(), file));
+    });
+    process.stdout.write(JSON.stringify(diagnostics));
+    process.exit(diagnostics.length > 0 ? 1 : 0);
+  }, current.latencyMs ?? 0);
+}
+
+function lintStdin() {
+  const current = scenario();
+  const filenameArg = process.argv.find((arg) => arg.startsWith('--stdin-filename='));
+  const filename = filenameArg ? filenameArg.slice('--stdin-filename='.length) : 'stdin.ts';
+
+  log({ filename });
+
+  let content = '';
+  process.stdin.setEncoding('utf-8');
+  process.stdin.on('data', (chunk) => {
+    content += chunk;
+  });
+  process.stdin.on('end', () => {
+    setTimeout(() => {
+      if (current.crash) {
+        process.stderr.write('fake-oxlint: crashing\n');
+        process.exit(2);
+      }
+      if (current.malformed) {
+        process.stdout.write('this is not json\n');
+        process.exit(1);
+      }
+
+      // Diagnostics of stdin have no filename
+      const diagnostics = toDiagnostics(content, undefined);
+      process.stdout.write(JSON.stringify(diagnostics));
+      process.exit(diagnostics.length > 0 ? 1 : 0);
+    }, current.latencyMs ?? 0);
+  });
+}
@@ -0,0 +1,232 @@
+#!/usr/bin/env node
+// Stand-in for the tsgo binary, used by the integration tests.
+//
+// Speaks the newline-delimited JSON protocol of `tsgo --lsp-stdio`: one
+// request per line on stdin, one response per line on stdout. A line
+// `// @fake-error: <message>` in the analyzed content becomes an error
+// diagnostic on that line; `import ... from './x'` lines are reported as
+// imports. Documents sent with `open` are kept and updated by `change`
+// edits; requests may then refer to them by `version` instead of `content`.
+//
+// Behaviour is scripted by the JSON file named in FAKE_TSGO_SCENARIO, re-read
+// on every request so a test can change it while the process runs:
+//   latencyMs          delay before each response
+//   crashOnStart       exit with code 1 right after starting
+//   crashAfterRequests exit with code 1 on receiving this many analyze requests
+//   malformed          answer with a line that is not JSON
+//   memoryGrowthMb     retain this many MB per request
+//   capabilities       request types listed in the capabilities handshake
+//                      (default: all of them)
+//   requestLog         file to append `{ pid, type, uri, version }` lines to
+
+import { appendFileSync, readFileSync } from 'node:fs';
+import { createInterface } from 'node:readline';
+
+function scenario() {
+  const file = process.env.FAKE_TSGO_SCENARIO;
+  if (!file) {
+    return {};
+  }
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
+
+if (process.argv.includes('--version')) {
+  process.stdout.write('fake-tsgo 0.0.0\n');
+  process.exit(0);
+}
+
+if (scenario().crashOnStart) {
+  process.stderr.write('fake-tsgo: crashing on start\n');
+  process.exit(1);
+}
+
+const ALL_CAPABILITIES = [
+  'typeInfo',
+  'completions',
+  'completionDetails',
+  'semanticTokens',
+  'inlayHints',
+  'documentSymbols',
+  'signatureHelp',
+  'definition',
+  'typeDefinition',
+  'implementation',
+  'references',
+  'prepareRename',
+  'rename',
+  'documentSync',
+];
+
+const retained = [];
+const documents = new Map();
+let analyzeCount = 0;
+let active;
+
+function log(message) {
+  const current = scenario();
+  if (current.requestLog) {
+    appendFileSync(
+      current.requestLog,
+      JSON.stringify({
+        pid: process.pid,
+        type: message.type,
+        uri: message.uri,
+        version: message.version,
+      }) + '\n',
+    );
+  }
+}
+
+function applyEdits(content, changes) {
+  for (const change of changes) {
+    const lines = content.split('\n');
+    const offset = (line, column) =>
+      lines.slice(0, line).reduce((sum, text) => sum + text.length + 1, 0) + column;
+    content =
+      content.slice(0, offset(change.line, change.column)) +
+      change.newText +
+      content.slice(offset(change.endLine, change.endColumn));
+  }
+  return content;
+}
+
+// The request's content, or the snapshot of the version it refers to
+function contentOf(request) {
+  if (request.content !== undefined) {
+    return request.content;
+  }
+  const document = documents.get(request.uri);
+  return document && document.version === request.version ? document.content : undefined;
+}
+
+function diagnosticsFor(uri, content) {
+  const diagnostics = [];
+  content.split('\n').forEach((text, index) => {
+    const match = /\/\/ @fake-error: (.*)$/.exec(text);
+    if (match) {
+      diagnostics.push({
+        file: uri,
+        line: index + 1,
+        column: match.index + 1,
+        message: match[1].trim(),
+        severity: 'error',
+        code: 'TS9999',
+      });
+    }
+  });
+  return diagnostics;
+}
+
+function importsFor(uri, content) {
+  const imports = [];
+  for (const match of content.matchAll(/from\s+['"](\.{1,2}\/[^'"]+)['"]/g)) {
+    imports.push(new URL(match[1].replace(/\.js$/, '.ts'), uri).toString());
+  }
+  return imports;
+}
+
+function respond(request, content) {
+  const current = scenario();
+  if (current.malformed) {
+    return '{"type": "result", "diagnostics": [';
+  }
+  if (content === undefined) {
+    return JSON.stringify({ type: 'error', error: `unknown version of ${request.uri}` });
+  }
+  if (request.type === 'analyze') {
+    const response = {
+      type: 'result',
+      uri: request.uri,
+      diagnostics: diagnosticsFor(request.uri, content),
+      durationMs: current.latencyMs ?? 0,
+    };
+    if (request.includeSymbols) {
+      response.symbols = [];
+    }
+    if (request.includeImports) {
+      response.imports = importsFor(request.uri, content);
+    }
+    return JSON.stringify(response);
+  }
+  return JSON.stringify({ type: 'result', uri: request.uri });
+}
+
+function handle(request) {
+  const current = scenario();
+  log(request);
+  const content = contentOf(request);
+
+  if (request.type === 'analyze') {
+    analyzeCount++;
+    if (current.crashAfterRequests && analyzeCount >= current.crashAfterRequests) {
+      process.stderr.write('fake-tsgo: crashing\n');
+      process.exit(1);
+    }
+  }
+  if (current.memoryGrowthMb) {
+    retained.push(Buffer.alloc(current.memoryGrowthMb * 1024 * 1024, 1));
+  }
+
+  active = request.id;
+  setTimeout(() => {
+    if (active !== request.id) {
+      return;
+    }
+    active = undefined;
+    process.stdout.write(respond(request, content) + '\n');
+  }, current.latencyMs ?? 0);
+}
+
+createInterface({ input: process.stdin }).on('line', (line) => {
+  if (!line.trim()) {
+    return;
+  }
+  const message = JSON.parse(line);
+  switch (message.type) {
+    case 'health':
+      break;
+    case 'capabilities':
+      process.stdout.write(
+        JSON.stringify({
+          type: 'result',
+          capabilities: scenario().capabilities ?? ALL_CAPABILITIES,
+        }) + '\n',
+      );
+      break;
+    case 'open':
+      log(message);
+      documents.set(message.uri, { version: message.version, content: message.content });
+      break;
+    case 'change': {
+      log(message);
+      const document = documents.get(message.uri);
+      if (document) {
+        documents.set(message.uri, {
+          version: message.version,
+          content: applyEdits(document.content, message.changes),
+        });
+      }
+      break;
+    }
+    case 'close':
+      log(message);
+      documents.delete(message.uri);
+      break;
+    case 'shutdown':
+      process.exit(0);
+      break;
+    case 'cancel':
+      // Answer the cancelled request at once so the worker is free again
+      if (active === message.id) {
+        active = undefined;
+        process.stdout.write(JSON.stringify({ type: 'error', error: 'cancelled' }) + '\n');
+      }
+      break;
+    default:
+      handle(message);
+  }
+});
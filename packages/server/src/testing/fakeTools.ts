@@ -0,0 +1,182 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { DEFAULT_CONFIG, type TsgoTurboConfig } from '@tsgo-turbo/shared';
+
+/**
+ * Behaviour of the fake tsgo binary (see `fake-tsgo.mjs`).
+ */
+export interface FakeTsgoScenario {
+  /** Delay (ms) before each response */
+  latencyMs?: number;
+  /** Exit with code 1 right after starting */
+  crashOnStart?: boolean;
+  /** Exit with code 1 on receiving this many analyze requests */
+  crashAfterRequests?: number;
+  /** Answer with a line that is not JSON */
+  malformed?: boolean;
+  /** Retain this many MB per request */
+  memoryGrowthMb?: number;
+  /** Request types listed in the capabilities handshake (default: all) */
+  capabilities?: string[];
+}
+
+/**
+ * Behaviour of the fake oxlint binary (see `fake-oxlint.mjs`).
+ */
+export interface FakeOxlintScenario {
+  /** Delay (ms) before printing the result, or publishing diagnostics */
+  latencyMs?: number;
+  /** Exit with code 2 and no output; with `--lsp`, on the next lint */
+  crash?: boolean;
+  /** Print output that is not JSON (spawn per file only) */
+  malformed?: boolean;
+  /** Reject the `--lsp` flag, like an oxlint without language server mode */
+  noLsp?: boolean;
+}
+
+/** A request or document notification received by the fake tsgo. */
+export interface FakeTsgoRequest {
+  pid: number;
+  type: string;
+  uri: string;
+  /** Document version, for notifications and requests that refer to one */
+  version?: number;
+}
+
+/**
+ * A lint run of the fake oxlint, a file of a batch run, or a document
+ * notification to `oxlint --lsp`.
+ */
+export interface FakeOxlintRequest {
+  pid: number;
+  /** Working directory of the process */
+  cwd: string;
+  filename: string;
+  /** LSP method in `--lsp` mode, or `batch` for a file of a batch run */
+  method?: string;
+}
+
+/**
+ * FakeTools points the tsgo and oxc integrations at the scriptable stand-in
+ * binaries next to this file, for integration tests.
+ *
+ * Scenarios are written to a temporary directory named by the
+ * `FAKE_TSGO_SCENARIO` / `FAKE_OXLINT_SCENARIO` environment variables, which
+ * spawned processes inherit. The fakes re-read them on every request, so a
+ * test can switch behaviour while processes are running. Each request is
+ * logged and can be inspected with {@link tsgoRequests} and
+ * {@link oxlintRequests}.
+ *
+ * @example
+ * ```ts
+ * const tools = new FakeTools();
+ * tools.setTsgo({ latencyMs: 500 });
+ * const bridge = new AnalysisBridge(tools.config(), logger, perfTracer);
+ * // ...
+ * tools.dispose();
+ * ```
+ */
+export class FakeTools {
+  readonly tsgoPath = path.join(__dirname, 'fake-tsgo.mjs');
+  readonly oxlintPath = path.join(__dirname, 'fake-oxlint.mjs');
+  private readonly directory: string;
+  private readonly previousEnv: Record<string, string | undefined>;
+
+  constructor() {
+    this.directory = mkdtempSync(path.join(tmpdir(), 'tsgo-turbo-fakes-'));
+    this.previousEnv = {
+      FAKE_TSGO_SCENARIO: process.env['FAKE_TSGO_SCENARIO'],
+      FAKE_OXLINT_SCENARIO: process.env['FAKE_OXLINT_SCENARIO'],
+    };
+    process.env['FAKE_TSGO_SCENARIO'] = this.file('tsgo.json');
+    process.env['FAKE_OXLINT_SCENARIO'] = this.file('oxlint.json');
+    this.setTsgo({});
+    this.setOxlint({});
+  }
+
+  /** Replace the fake tsgo's behaviour. */
+  setTsgo(scenario: FakeTsgoScenario): void {
+    writeFileSync(
+      this.file('tsgo.json'),
+      JSON.stringify({ ...scenario, requestLog: this.file('tsgo-requests.jsonl') }),
+    );
+  }
+
+  /** Replace the fake oxlint's behaviour. */
+  setOxlint(scenario: FakeOxlintScenario): void {
+    writeFileSync(
+      this.file('oxlint.json'),
+      JSON.stringify({ ...scenario, requestLog: this.file('oxlint-requests.jsonl') }),
+    );
+  }
+
+  /** Requests received by tsgo processes so far, in order. */
+  tsgoRequests(): FakeTsgoRequest[] {
+    return this.readLog<FakeTsgoRequest>('tsgo-requests.jsonl');
+  }
+
+  /** Lint runs of oxlint so far, in order. */
+  oxlintRequests(): FakeOxlintRequest[] {
+    return this.readLog<FakeOxlintRequest>('oxlint-requests.jsonl');
+  }
+
+  /**
+   * A config using the fake binaries: one tsgo process, short timeouts and
+   * debounce, with formatting and caching off.
+   *
+   * @param overrides - tsgo and oxc settings to change
+   */
+  config(overrides: {
+    tsgo?: Partial<TsgoTurboConfig['tsgo']>;
+    oxc?: Partial<TsgoTurboConfig['oxc']>;
+  } = {}): TsgoTurboConfig {
+    return {
+      ...DEFAULT_CONFIG,
+      tsgo: {
+        ...DEFAULT_CONFIG.tsgo,
+        binaryPath: this.tsgoPath,
+        poolSize: 1,
+        fileTimeoutMs: 2_000,
+        ...overrides.tsgo,
+      },
+      oxc: {
+        ...DEFAULT_CONFIG.oxc,
+        binaryPath: this.oxlintPath,
+        ...overrides.oxc,
+      },
+      format: { ...DEFAULT_CONFIG.format, enabled: false },
+      cache: { ...DEFAULT_CONFIG.cache, enabled: false },
+      watch: { ...DEFAULT_CONFIG.watch, debounceMs: 10 },
+    };
+  }
+
+  /**
+   * Restore the environment and remove the scenario files.
+   */
+  dispose(): void {
+    for (const [name, value] of Object.entries(this.previousEnv)) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    rmSync(this.directory, { recursive: true, force: true });
+  }
+
+  private file(name: string): string {
+    return path.join(this.directory, name);
+  }
+
+  private readLog<T>(name: string): T[] {
+    const file = this.file(name);
+    if (!existsSync(file)) {
+      return [];
+    }
+    return readFileSync(file, 'utf-8')
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line) as T);
+  }
+}
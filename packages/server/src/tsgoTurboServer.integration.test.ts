@@ -0,0 +1,158 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { PassThrough } from 'node:stream';
+import {
+  createConnection,
+  createMessageConnection,
+  ProposedFeatures,
+  StreamMessageReader,
+  StreamMessageWriter,
+  type InitializeResult,
+  type MessageConnection,
+  type PublishDiagnosticsParams,
+} from 'vscode-languageserver/node';
+import { CustomMethods, type ServerStatusNotification } from '@tsgo-turbo/shared';
+import { FakeTools } from './testing/fakeTools.js';
+import { TsgoTurboServer } from './tsgoTurboServer.js';
+
+const uri = 'file:///project/src/a.ts';
+const content = [
+  'const a: string = 1; // @fake-error: Type number is not assignable to type string',
+  'debugger; // @fake-lint: Unexpected debugger statement',
+].join('\n');
+
+/**
+ * An LSP client talking to a server over in-memory streams, recording the
+ * notifications the server sends.
+ */
+interface TestClient {
+  connection: MessageConnection;
+  initialized: InitializeResult;
+  statuses: ServerStatusNotification[];
+  diagnostics: Map<string, PublishDiagnosticsParams['diagnostics']>;
+}
+
+let tools: FakeTools | undefined;
+let client: TestClient | undefined;
+
+async function startServer(
+  settings: unknown,
+  capabilities: Record<string, unknown> = {},
+): Promise<TestClient> {
+  const toServer = new PassThrough();
+  const toClient = new PassThrough();
+  const server = new TsgoTurboServer(
+    createConnection(
+      ProposedFeatures.all,
+      new StreamMessageReader(toServer),
+      new StreamMessageWriter(toClient),
+    ),
+  );
+  server.start();
+
+  const connection = createMessageConnection(
+    new StreamMessageReader(toClient),
+    new StreamMessageWriter(toServer),
+  );
+  const started: Omit<TestClient, 'initialized'> = {
+    connection,
+    statuses: [],
+    diagnostics: new Map(),
+  };
+  connection.onRequest('workspace/configuration', () => [settings]);
+  connection.onRequest('client/registerCapability', () => null);
+  connection.onNotification(CustomMethods.serverStatus, (status: ServerStatusNotification) => {
+    started.statuses.push(status);
+  });
+  connection.onNotification(
+    'textDocument/publishDiagnostics',
+    (params: PublishDiagnosticsParams) => {
+      started.diagnostics.set(params.uri, params.diagnostics);
+    },
+  );
+  connection.listen();
+
+  const initialized = await connection.sendRequest<InitializeResult>('initialize', {
+    processId: null,
+    rootUri: null,
+    capabilities: { workspace: { configuration: true }, ...capabilities },
+  });
+  await connection.sendNotification('initialized', {});
+  // Started: ready, or degraded when a tool could not start
+  await vi.waitFor(
+    () => expect(['ready', 'degraded']).toContain(started.statuses.at(-1)?.status),
+    { timeout: 10_000, interval: 50 },
+  );
+  return { ...started, initialized };
+}
+
+function openDocument(connection: MessageConnection, text = content): Promise<void> {
+  return connection.sendNotification('textDocument/didOpen', {
+    textDocument: { uri, languageId: 'typescript', version: 1, text },
+  });
+}
+
+describe('TsgoTurboServer with fake tsgo and oxlint', { timeout: 20_000 }, () => {
+  afterEach(async () => {
+    if (client) {
+      await client.connection.sendRequest('shutdown');
+      client.connection.dispose();
+      client = undefined;
+    }
+    tools?.dispose();
+    tools = undefined;
+  });
+
+  it('publishes diagnostics from both tools for an opened document', async () => {
+    tools = new FakeTools();
+    client = await startServer(tools.config());
+
+    await openDocument(client.connection);
+
+    await vi.waitFor(() => expect(client?.diagnostics.get(uri)).toHaveLength(2));
+    const published = client.diagnostics.get(uri) ?? [];
+    expect(published.map((d) => d.source).sort()).toEqual([
+      'tsgo-turbo (oxc)',
+      'tsgo-turbo (tsgo)',
+    ]);
+    expect(published.find((d) => d.source === 'tsgo-turbo (tsgo)')?.range.start.line).toBe(0);
+    expect(published.find((d) => d.source === 'tsgo-turbo (oxc)')?.range.start.line).toBe(1);
+  });
+
+  it('reports the server as degraded and keeps linting when tsgo keeps crashing', async () => {
+    tools = new FakeTools();
+    tools.setTsgo({ crashOnStart: true });
+    client = await startServer(tools.config());
+
+    await vi.waitFor(
+      () => expect(client?.statuses.at(-1)?.status).toBe('degraded'),
+      { timeout: 10_000, interval: 50 },
+    );
+    const status = client.statuses.at(-1);
+    expect(status?.message).toContain('tsgo is down');
+    expect(status?.subsystems).toContainEqual(
+      expect.objectContaining({ tool: 'tsgo', status: 'down' }),
+    );
+
+    await openDocument(client.connection);
+    await vi.waitFor(() => expect(client?.diagnostics.get(uri)).toHaveLength(1));
+    expect(client.diagnostics.get(uri)?.[0]?.source).toBe('tsgo-turbo (oxc)');
+  });
+
+  it('negotiates UTF-8 positions and reports columns in bytes', async () => {
+    tools = new FakeTools();
+    client = await startServer(tools.config(), {
+      general: { positionEncodings: ['utf-8', 'utf-16'] },
+    });
+    expect(client.initialized.capabilities.positionEncoding).toBe('utf-8');
+
+    const text = 'const s = "héllo 👋"; // @fake-lint: Unexpected greeting';
+    await openDocument(client.connection, text);
+
+    await vi.waitFor(() => expect(client?.diagnostics.get(uri)).toHaveLength(1));
+    const start = text.indexOf('//');
+    expect(client.diagnostics.get(uri)?.[0]?.range).toEqual({
+      start: { line: 0, character: Buffer.byteLength(text.slice(0, start)) },
+      end: { line: 0, character: Buffer.byteLength(text) },
+    });
+  });
+});
@@ -0,0 +1,1507 @@
+import {
+  createConnection,
+  TextDocuments,
+  ProposedFeatures,
+  InitializeParams,
+  InitializeResult,
+  TextDocumentSyncKind,
+  DidChangeConfigurationNotification,
+  CodeActionKind,
+  DocumentDiagnosticReportKind,
+  FileChangeType,
+  CancellationTokenSource,
+  type Connection,
+} from 'vscode-languageserver/node';
+import * as path from 'node:path';
+import { TextDocument } from 'vscode-languageserver-textdocument';
+import { URI } from 'vscode-uri';
+import type {
+  TsgoTurboConfig,
+  TsgoTurboInitializationOptions,
+  InspectorDataRequest,
+  InspectorDataResponse,
+  AnalyzeFileRequest,
+  AnalyzeFileResponse,
+  AnalyzeWorkspaceRequest,
+  AnalyzeWorkspaceResponse,
+  ServerStatusNotification,
+  SubsystemHealth,
+} from '@tsgo-turbo/shared';
+import {
+  CustomMethods,
+  DEFAULT_CONFIG,
+  LSP_SERVER_ID,
+} from '@tsgo-turbo/shared';
+
+import { Logger } from './logger/index.js';
+import { PerfTracer } from './logger/performance.js';
+import { ConfigLoader } from './config/loader.js';
+import { AnalysisBridge, AnalysisPriority } from './integrations/bridge.js';
+import { CancelledError } from './integrations/cancellation.js';
+import type { CircuitState } from './integrations/circuitBreaker.js';
+import { DiagnosticsProvider } from './providers/diagnostics.js';
+import { PullDiagnosticsProvider } from './providers/pullDiagnostics.js';
+import { CompletionProvider } from './providers/completion.js';
+import { HoverProvider } from './providers/hover.js';
+import { RuleHoverProvider, appendHoverSection } from './providers/ruleHover.js';
+import { CodeActionProvider, FIX_ALL_KIND } from './providers/codeAction.js';
+import { NavigationProvider } from './providers/navigation.js';
+import { RenameProvider } from './providers/rename.js';
+import { SymbolProvider } from './providers/symbols.js';
+import { SignatureHelpProvider } from './providers/signatureHelp.js';
+import { InlayHintProvider } from './providers/inlayHints.js';
+import {
+  FormattingProvider,
+  ON_TYPE_FORMATTING_TRIGGERS,
+} from './providers/formatting.js';
+import {
+  SemanticTokensProvider,
+  SEMANTIC_TOKENS_LEGEND,
+} from './providers/semanticTokens.js';
+import { TypeExpansionGuard } from './guards/typeExpansion.js';
+import { negotiatePositionEncoding } from './positions/lineIndex.js';
+import { PositionEncoder } from './positions/positionEncoder.js';
+import { TypeCache } from './cache/typeCache.js';
+import { DiskCache } from './cache/diskCache.js';
+import { collectFiles } from './workspace/files.js';
+import { SymbolIndex } from './workspace/symbolIndex.js';
+import { WorkspaceAnalysisJob } from './workspace/analysisJob.js';
+
+/**
+ * TsgoTurboServer is the main LSP server that integrates tsgo (Go-based
+ * TypeScript compiler) and oxc (Rust-based linter) for high-performance
+ * analysis of massive Next.js + tRPC + Prisma codebases.
+ *
+ * It manages:
+ * - Connection lifecycle (initialize, shutdown)
+ * - Process pools for tsgo and oxc
+ * - Document synchronization and analysis triggers
+ * - Provider registration (diagnostics, completion, hover, signature help,
+ *   inlay hints, code actions, navigation, rename, semantic tokens, symbols,
+ *   formatting)
+ * - Configuration hot-reloading
+ * - Custom method handlers for inspector, cache clearing, etc.
+ * - Graceful shutdown with child process cleanup
+ *
+ * The entry point (`server.ts`) serves it over the process's stdio or IPC;
+ * tests pass an in-memory connection.
+ */
+export class TsgoTurboServer {
+  private readonly connection: Connection;
+  private readonly documents: TextDocuments<TextDocument>;
+  private logger!: Logger;
+  private configLoader!: ConfigLoader;
+  private bridge!: AnalysisBridge;
+  private diagnosticsProvider!: DiagnosticsProvider;
+  private pullDiagnosticsProvider!: PullDiagnosticsProvider;
+  private completionProvider!: CompletionProvider;
+  private formattingProvider!: FormattingProvider;
+  private hoverProvider!: HoverProvider;
+  private ruleHoverProvider!: RuleHoverProvider;
+  private codeActionProvider!: CodeActionProvider;
+  private navigationProvider!: NavigationProvider;
+  private renameProvider!: RenameProvider;
+  private symbolProvider!: SymbolProvider;
+  private readonly symbolIndex = new SymbolIndex();
+  /** Converts positions to and from the encoding negotiated in initialize. */
+  private positions = new PositionEncoder();
+  private signatureHelpProvider!: SignatureHelpProvider;
+  private inlayHintProvider!: InlayHintProvider;
+  private semanticTokensProvider!: SemanticTokensProvider;
+  private typeExpansionGuard!: TypeExpansionGuard;
+  private typeCache!: TypeCache;
+  /** Persistent cache backend, when `cache.persistent` is on. */
+  private diskCache: DiskCache | undefined;
+  /** Client workspace storage directory, from the initialize options. */
+  private storagePath: string | undefined;
+  private perfTracer!: PerfTracer;
+  private config: TsgoTurboConfig = DEFAULT_CONFIG;
+  private hasConfigCapability = false;
+  private hasWorkspaceFolderCapability = false;
+  private hasPullDiagnosticsCapability = false;
+  private hasDiagnosticRefreshCapability = false;
+  private hasSnippetCapability = false;
+  /** URIs of the open workspace folders (or the root URI). */
+  private workspaceFolders: string[] = [];
+  private readonly startTime: number;
+
+  /** Map of open file URIs to debounce timers for analysis. */
+  private readonly analysisDebounceTimers = new Map<
+    string,
+    ReturnType<typeof setTimeout>
+  >();
+
+  /** Content hash of the last analysis of each open file. */
+  private readonly analyzedHashes = new Map<string, string>();
+
+  /** Running analyses per URI, cancelled when the file changes again. */
+  private readonly analysisCancellations = new Map<
+    string,
+    CancellationTokenSource
+  >();
+
+  /** The running workspace analysis, cancelled when another one starts. */
+  private workspaceAnalysis: CancellationTokenSource | undefined;
+
+  /**
+   * @param connection - LSP connection; by default created from the
+   *   command line (`--stdio`, `--node-ipc`, ...)
+   */
+  constructor(connection: Connection = createConnection(ProposedFeatures.all)) {
+    this.startTime = Date.now();
+    this.connection = connection;
+    // Edits are forwarded to the tsgo workers as they arrive
+    this.documents = new TextDocuments({
+      create: TextDocument.create,
+      update: (document, changes, version) => {
+        const serverChanges = this.positions.changesToServer(document, changes);
+        const updated = TextDocument.update(document, serverChanges, version);
+        this.bridge?.changeDocument(updated.uri, version, updated.getText(), serverChanges);
+        return updated;
+      },
+    });
+
+    this.setupConnectionHandlers();
+    this.setupDocumentHandlers();
+    this.setupCustomMethods();
+  }
+
+  /**
+   * Start listening on the connection.
+   */
+  start(): void {
+    this.documents.listen(this.connection);
+    this.connection.listen();
+  }
+
+  /**
+   * Set up LSP connection lifecycle handlers.
+   */
+  private setupConnectionHandlers(): void {
+    this.connection.onInitialize((params) => this.onInitialize(params));
+    this.connection.onInitialized(() => this.onInitialized());
+    this.connection.onShutdown(() => this.onShutdown());
+
+    this.connection.onDidChangeConfiguration((change) => {
+      this.onDidChangeConfiguration(change.settings);
+    });
+
+    // Providers
+    this.connection.onCompletion((params, token) =>
+      this.onCompletion(params, token),
+    );
+    this.connection.onCompletionResolve((item) =>
+      this.onCompletionResolve(item),
+    );
+    this.connection.onHover((params, token) => this.onHover(params, token));
+    this.connection.onSignatureHelp((params) => this.onSignatureHelp(params));
+    this.connection.onCodeAction((params) => this.onCodeAction(params));
+    this.connection.onDefinition((params) => this.onDefinition(params));
+    this.connection.onTypeDefinition((params) => this.onTypeDefinition(params));
+    this.connection.onImplementation((params) => this.onImplementation(params));
+    this.connection.onReferences((params) => this.onReferences(params));
+    this.connection.languages.inlayHint.on((params) => this.onInlayHint(params));
+    this.connection.languages.inlayHint.resolve((hint) =>
+      this.onInlayHintResolve(hint),
+    );
+    this.connection.languages.semanticTokens.on((params) =>
+      this.onSemanticTokens(params),
+    );
+    this.connection.languages.semanticTokens.onDelta((params) =>
+      this.onSemanticTokensDelta(params),
+    );
+    this.connection.onDocumentFormatting((params) =>
+      this.onDocumentFormatting(params),
+    );
+    this.connection.onDocumentRangeFormatting((params) =>
+      this.onDocumentRangeFormatting(params),
+    );
+    this.connection.onDocumentOnTypeFormatting((params) =>
+      this.onDocumentOnTypeFormatting(params),
+    );
+    this.connection.onPrepareRename((params) => this.onPrepareRename(params));
+    this.connection.onRenameRequest((params) => this.onRename(params));
+
+    // Pull diagnostics (LSP 3.17)
+    this.connection.languages.diagnostics.on((params, token) =>
+      this.onDocumentDiagnostic(params, token),
+    );
+    this.connection.languages.diagnostics.onWorkspace(
+      (params, token, _workDoneProgress, resultProgress) =>
+        this.onWorkspaceDiagnostic(params, token, resultProgress),
+    );
+
+    this.connection.onDocumentSymbol((params) => this.onDocumentSymbol(params));
+    this.connection.onWorkspaceSymbol((params) => this.onWorkspaceSymbol(params));
+
+    this.connection.onDidChangeWatchedFiles((params) => {
+      for (const change of params.changes) {
+        if (change.type === FileChangeType.Deleted) {
+          this.symbolIndex.remove(change.uri);
+        }
+        // Edits to open files are handled when their analysis completes
+        if (!this.documents.get(change.uri)) {
+          this.reanalyzeDependents(change.uri);
+        }
+      }
+      // A tsconfig or oxlint config file may be among the changes
+      this.bridge?.refreshCacheNamespace();
+      this.pullDiagnosticsProvider?.markWorkspaceDirty();
+    });
+  }
+
+  /**
+   * Set up document synchronization event handlers.
+   */
+  private setupDocumentHandlers(): void {
+    this.documents.onDidOpen((event) => {
+      const { document } = event;
+      this.bridge?.openDocument(document.uri, document.version, document.getText());
+      this.scheduleAnalysis(document.uri, AnalysisPriority.Open);
+    });
+
+    this.documents.onDidChangeContent((change) => {
+      this.scheduleAnalysis(
+        change.document.uri,
+        AnalysisPriority.Active,
+      );
+    });
+
+    this.documents.onDidSave((event) => {
+      // Force re-analysis on save (bypass cache)
+      this.scheduleAnalysis(event.document.uri, AnalysisPriority.Active, true);
+    });
+
+    this.documents.onDidClose((event) => {
+      // Clear diagnostics and cancel pending analysis for closed files
+      const uri = event.document.uri;
+      this.bridge?.closeDocument(uri);
+      this.cancelAnalysis(uri);
+      this.analyzedHashes.delete(uri);
+      this.diagnosticsProvider?.clearDiagnostics(uri);
+      this.semanticTokensProvider?.forget(uri);
+      // The file falls back to its on-disk content in workspace reports
+      this.pullDiagnosticsProvider?.markWorkspaceDirty();
+    });
+  }
+
+  /**
+   * Set up custom method handlers for inspector, cache, and config operations.
+   */
+  private setupCustomMethods(): void {
+    // Inspector data request
+    this.connection.onRequest(
+      CustomMethods.inspectorData,
+      (params: InspectorDataRequest): InspectorDataResponse => {
+        return this.handleInspectorData(params);
+      },
+    );
+
+    // Clear all caches
+    this.connection.onRequest(CustomMethods.clearCache, () => {
+      this.handleClearCache();
+      return { success: true };
+    });
+
+    // Reload configuration
+    this.connection.onRequest(CustomMethods.reloadConfig, async () => {
+      await this.handleReloadConfig();
+      return { success: true };
+    });
+
+    // Analyze single file on demand
+    this.connection.onRequest(
+      CustomMethods.analyzeFile,
+      async (params: AnalyzeFileRequest): Promise<AnalyzeFileResponse> => {
+        return this.handleAnalyzeFile(params);
+      },
+    );
+
+    // Analyze every workspace file in the background
+    this.connection.onRequest(
+      CustomMethods.analyzeWorkspace,
+      async (
+        params: AnalyzeWorkspaceRequest,
+        token: import('vscode-languageserver').CancellationToken,
+      ): Promise<AnalyzeWorkspaceResponse> => {
+        return this.handleAnalyzeWorkspace(params, token);
+      },
+    );
+  }
+
+  /**
+   * Handle the initialize request from the client.
+   */
+  private onInitialize(params: InitializeParams): InitializeResult {
+    const capabilities = params.capabilities;
+
+    this.hasConfigCapability = !!(
+      capabilities.workspace && capabilities.workspace.configuration
+    );
+    this.hasWorkspaceFolderCapability = !!(
+      capabilities.workspace && capabilities.workspace.workspaceFolders
+    );
+    this.hasPullDiagnosticsCapability = !!capabilities.textDocument?.diagnostic;
+    this.hasDiagnosticRefreshCapability =
+      !!capabilities.workspace?.diagnostics?.refreshSupport;
+    this.hasSnippetCapability =
+      !!capabilities.textDocument?.completion?.completionItem?.snippetSupport;
+    this.positions = new PositionEncoder(
+      negotiatePositionEncoding(capabilities.general?.positionEncodings),
+      (uri) => this.documents.get(uri)?.getText(),
+    );
+
+    if (params.workspaceFolders) {
+      this.workspaceFolders = params.workspaceFolders.map((f) => f.uri);
+    } else if (params.rootUri) {
+      this.workspaceFolders = [params.rootUri];
+    }
+
+    const initOptions = params.initializationOptions as
+      | Partial<TsgoTurboInitializationOptions>
+      | undefined;
+    if (typeof initOptions?.storagePath === 'string') {
+      this.storagePath = initOptions.storagePath;
+    }
+
+    // Initialize logger with defaults first (config not loaded yet)
+    this.perfTracer = new PerfTracer(
+      1000,
+      this.config.inspector.maxTraceHistory,
+    );
+    this.logger = new Logger(this.connection, this.config.logging);
+
+    this.logger.info('Initializing tsgo Turbo LSP server', {
+      processId: params.processId,
+      clientName: params.clientInfo?.name,
+      clientVersion: params.clientInfo?.version,
+      hasConfigCapability: this.hasConfigCapability,
+      hasWorkspaceFolderCapability: this.hasWorkspaceFolderCapability,
+      hasPullDiagnosticsCapability: this.hasPullDiagnosticsCapability,
+      positionEncoding: this.positions.encoding,
+    });
+
+    // Initialize config loader
+    this.configLoader = new ConfigLoader(this.connection, this.logger);
+    this.configLoader.setHasConfigCapability(this.hasConfigCapability);
+
+    // Register config change handler
+    this.configLoader.onConfigChanged((newConfig, _oldConfig) => {
+      this.applyConfig(newConfig);
+    });
+
+    // Initialize type expansion guard
+    this.typeExpansionGuard = new TypeExpansionGuard(
+      this.config.tsgo.maxTypeDepth,
+      this.logger,
+      (info) => {
+        // Send warning to client
+        this.connection.sendNotification(
+          CustomMethods.typeExpansionWarning,
+          {
+            info,
+            fileUri: '', // Will be set when called from analysis
+            suggestion:
+              'Consider adding explicit type annotations to reduce type expansion depth.',
+          },
+        );
+      },
+    );
+
+    // Initialize type cache
+    this.typeCache = new TypeCache(this.config.cache);
+
+    // Return capabilities
+    const result: InitializeResult = {
+      capabilities: {
+        positionEncoding: this.positions.encoding,
+        textDocumentSync: TextDocumentSyncKind.Incremental,
+        completionProvider: {
+          triggerCharacters: ['.', '"', "'", '/', '<', '@'],
+          resolveProvider: true,
+        },
+        hoverProvider: true,
+        signatureHelpProvider: {
+          triggerCharacters: ['(', ',', '<'],
+        },
+        definitionProvider: true,
+        typeDefinitionProvider: true,
+        implementationProvider: true,
+        referencesProvider: true,
+        renameProvider: { prepareProvider: true },
+        documentFormattingProvider: true,
+        documentRangeFormattingProvider: true,
+        // Always registered; the provider answers only when format.formatOnType is set
+        documentOnTypeFormattingProvider: {
+          firstTriggerCharacter: ON_TYPE_FORMATTING_TRIGGERS[0],
+          moreTriggerCharacter: ON_TYPE_FORMATTING_TRIGGERS.slice(1),
+        },
+        documentSymbolProvider: true,
+        workspaceSymbolProvider: true,
+        inlayHintProvider: { resolveProvider: true },
+        semanticTokensProvider: {
+          legend: SEMANTIC_TOKENS_LEGEND,
+          full: { delta: true },
+        },
+        codeActionProvider: {
+          codeActionKinds: [
+            CodeActionKind.QuickFix,
+            CodeActionKind.Empty,
+            FIX_ALL_KIND,
+          ],
+        },
+        diagnosticProvider: {
+          identifier: LSP_SERVER_ID,
+          interFileDependencies: true,
+          workspaceDiagnostics: true,
+        },
+      },
+      serverInfo: {
+        name: 'tsgo Turbo',
+        version: '0.1.0',
+      },
+    };
+
+    if (this.hasWorkspaceFolderCapability) {
+      result.capabilities.workspace = {
+        workspaceFolders: {
+          supported: true,
+          changeNotifications: true,
+        },
+      };
+    }
+
+    return result;
+  }
+
+  /**
+   * Handle the initialized notification. Start tool processes and load config.
+   */
+  private async onInitialized(): Promise<void> {
+    // Register for config change notifications
+    if (this.hasConfigCapability) {
+      this.connection.client.register(
+        DidChangeConfigurationNotification.type,
+        undefined,
+      );
+    }
+
+    if (this.hasWorkspaceFolderCapability) {
+      this.connection.workspace.onDidChangeWorkspaceFolders((event) => {
+        const removed = new Set(event.removed.map((f) => f.uri));
+        this.workspaceFolders = [
+          ...this.workspaceFolders.filter((uri) => !removed.has(uri)),
+          ...event.added.map((f) => f.uri),
+        ];
+        this.bridge?.setWorkspaceRoots(this.workspaceRootPaths());
+        this.pullDiagnosticsProvider?.markWorkspaceDirty();
+      });
+    }
+
+    // Load config from client
+    try {
+      this.config = await this.configLoader.load();
+      this.logger.info('Configuration loaded');
+    } catch (err) {
+      this.logger.error('Failed to load configuration, using defaults', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+
+    // Apply the loaded config
+    this.applyConfig(this.config);
+
+    // Start the analysis bridge (spawns tsgo + oxc processes)
+    try {
+      this.bridge = new AnalysisBridge(
+        this.config,
+        this.logger,
+        this.perfTracer,
+      );
+      // A tsgo installed in the workspace takes precedence
+      this.bridge.setWorkspaceRoots(this.workspaceRootPaths());
+      for (const document of this.documents.all()) {
+        this.bridge.openDocument(document.uri, document.version, document.getText());
+      }
+
+      // Initialize providers
+      this.diagnosticsProvider = new DiagnosticsProvider(
+        this.connection,
+        this.positions,
+        this.logger,
+        this.config.watch.debounceMs,
+      );
+      // Clients that pull diagnostics would otherwise see every problem twice
+      this.diagnosticsProvider.setPublishEnabled(
+        !this.hasPullDiagnosticsCapability,
+      );
+      this.pullDiagnosticsProvider = new PullDiagnosticsProvider(
+        this.bridge,
+        this.diagnosticsProvider,
+        this.logger,
+      );
+      this.completionProvider = new CompletionProvider(
+        this.bridge,
+        this.positions,
+        this.logger,
+      );
+      this.completionProvider.setSnippetSupport(this.hasSnippetCapability);
+      this.hoverProvider = new HoverProvider(
+        this.bridge,
+        this.typeExpansionGuard,
+        this.positions,
+        this.logger,
+      );
+      this.ruleHoverProvider = new RuleHoverProvider(
+        this.diagnosticsProvider,
+        this.bridge,
+        this.positions,
+        this.logger,
+      );
+      this.codeActionProvider = new CodeActionProvider(
+        this.diagnosticsProvider,
+        this.bridge,
+        this.positions,
+        this.logger,
+      );
+      this.signatureHelpProvider = new SignatureHelpProvider(
+        this.bridge,
+        this.typeExpansionGuard,
+        this.positions,
+        this.logger,
+      );
+      this.inlayHintProvider = new InlayHintProvider(
+        this.bridge,
+        this.typeExpansionGuard,
+        this.hoverProvider,
+        this.positions,
+        this.logger,
+      );
+      this.navigationProvider = new NavigationProvider(
+        this.bridge,
+        this.positions,
+        this.logger,
+      );
+      this.renameProvider = new RenameProvider(this.bridge, this.positions, this.logger);
+      this.symbolProvider = new SymbolProvider(
+        this.bridge,
+        this.symbolIndex,
+        this.positions,
+        this.logger,
+      );
+      // Keep the workspace symbol index current as files are analyzed
+      this.bridge.onSymbolsUpdated((uri, symbols) => {
+        this.symbolIndex.update(uri, symbols);
+      });
+      // Record import edges so edits can re-check the files that depend on them
+      this.bridge.onImportsUpdated((uri, imports) => {
+        this.typeCache.clearDependencies(uri);
+        for (const imported of imports) {
+          this.typeCache.addDependency(uri, imported);
+        }
+      });
+      this.bridge.onHealthChanged((tool, state, previous) => {
+        this.onToolHealthChanged(tool, state, previous);
+      });
+      this.semanticTokensProvider = new SemanticTokensProvider(
+        this.bridge,
+        this.positions,
+        this.logger,
+      );
+      this.formattingProvider = new FormattingProvider(
+        this.bridge,
+        this.positions,
+        this.logger,
+      );
+      this.formattingProvider.setEnabled(this.config.format.enabled);
+      this.formattingProvider.setFormatOnType(this.config.format.formatOnType);
+
+      await this.bridge.start();
+      this.configureDiskCache();
+
+      // Send server ready status, or degraded if a tool failed to start
+      if (this.bridge.getSubsystemHealth().some((s) => s.status !== 'up')) {
+        this.sendStatusUpdate('ready');
+      } else {
+        this.connection.sendNotification(CustomMethods.serverStatus, {
+          status: 'ready',
+          message: 'tsgo Turbo is ready',
+          activeOperations: 0,
+          queuedOperations: 0,
+        });
+      }
+
+      this.logger.info('Server fully initialized and ready');
+    } catch (err) {
+      this.logger.error('Failed to start analysis bridge', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+
+      this.connection.sendNotification(CustomMethods.serverStatus, {
+        status: 'error',
+        message: `Failed to start: ${err instanceof Error ? err.message : String(err)}`,
+        activeOperations: 0,
+        queuedOperations: 0,
+      });
+    }
+  }
+
+  /**
+   * Apply a new configuration. Called on initial load and on config changes.
+   */
+  private applyConfig(config: TsgoTurboConfig): void {
+    this.config = config;
+
+    // Update logger
+    this.logger.setLevel(config.logging.level);
+
+    // Update type expansion guard
+    this.typeExpansionGuard?.setMaxDepth(config.tsgo.maxTypeDepth);
+
+    // Update bridge
+    this.bridge?.updateConfig(config);
+    this.configureDiskCache();
+
+    // Update formatting options
+    this.formattingProvider?.setEnabled(config.format.enabled);
+    this.formattingProvider?.setFormatOnType(config.format.formatOnType);
+
+    // Update diagnostics debounce
+    this.diagnosticsProvider?.setDebounceMs(config.watch.debounceMs);
+
+    // Results computed under the old config are stale
+    this.pullDiagnosticsProvider?.invalidateResultIds();
+    this.refreshPulledDiagnostics();
+
+    // Update perf tracer
+    this.perfTracer?.setSlowThreshold(
+      config.tsgo.fileTimeoutMs / 2,
+    );
+
+    this.logger.debug('Configuration applied', {
+      tsgoEnabled: config.tsgo.enabled,
+      oxcEnabled: config.oxc.enabled,
+      maxTypeDepth: config.tsgo.maxTypeDepth,
+      cacheEnabled: config.cache.enabled,
+    });
+  }
+
+  /**
+   * Handle configuration change notification from the client.
+   */
+  private async onDidChangeConfiguration(settings: unknown): Promise<void> {
+    if (this.hasConfigCapability) {
+      // Pull fresh config from client
+      await this.configLoader.load();
+    } else {
+      // Use the settings from the notification directly
+      const rawConfig =
+        settings && typeof settings === 'object'
+          ? (settings as Record<string, unknown>)['tsgo-turbo']
+          : undefined;
+      if (rawConfig) {
+        this.configLoader.applyRawConfig(rawConfig);
+      }
+    }
+  }
+
+  /**
+   * Handle completion requests.
+   */
+  private async onCompletion(
+    params: import('vscode-languageserver').CompletionParams,
+    token: import('vscode-languageserver').CancellationToken,
+  ) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.completionProvider) {
+      return null;
+    }
+    return this.completionProvider.provideCompletions(params, document, token);
+  }
+
+  /**
+   * Handle completion item resolve requests.
+   */
+  private async onCompletionResolve(
+    item: import('vscode-languageserver').CompletionItem,
+  ) {
+    if (!this.completionProvider) {
+      return item;
+    }
+    const uri = (item.data as { uri?: string } | undefined)?.uri;
+    const document = uri ? this.documents.get(uri) : undefined;
+    return this.completionProvider.resolveCompletion(item, document);
+  }
+
+  /**
+   * Handle hover requests.
+   */
+  private async onHover(
+    params: import('vscode-languageserver').HoverParams,
+    token: import('vscode-languageserver').CancellationToken,
+  ) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.hoverProvider) {
+      return null;
+    }
+    // Type info first, then the rules of any diagnostics under the cursor
+    const [hover, rules] = await Promise.all([
+      this.hoverProvider.provideHover(params, document, token),
+      this.ruleHoverProvider.provideRuleHover(params),
+    ]);
+    return appendHoverSection(hover, rules);
+  }
+
+  /**
+   * Handle signature help requests.
+   */
+  private async onSignatureHelp(params: import('vscode-languageserver').SignatureHelpParams) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.signatureHelpProvider) {
+      return null;
+    }
+    return this.signatureHelpProvider.provideSignatureHelp(params, document);
+  }
+
+  /**
+   * Handle code action requests.
+   */
+  private async onCodeAction(params: import('vscode-languageserver').CodeActionParams) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.codeActionProvider) {
+      return [];
+    }
+    const text = document.getText();
+    const actions = await this.codeActionProvider.provideCodeActions(params, text);
+    const fixAll = await this.codeActionProvider.provideFixAllAction(params, text);
+    // Edits computed for an older version would corrupt the document
+    if (fixAll && this.documents.get(params.textDocument.uri)?.version === document.version) {
+      actions.push(fixAll);
+    }
+    return actions;
+  }
+
+  /**
+   * Handle go-to-definition requests.
+   */
+  private async onDefinition(params: import('vscode-languageserver').DefinitionParams) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.navigationProvider) {
+      return null;
+    }
+    return this.navigationProvider.provideDefinition(params, document);
+  }
+
+  /**
+   * Handle go-to-type-definition requests.
+   */
+  private async onTypeDefinition(params: import('vscode-languageserver').TypeDefinitionParams) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.navigationProvider) {
+      return null;
+    }
+    return this.navigationProvider.provideTypeDefinition(params, document);
+  }
+
+  /**
+   * Handle go-to-implementation requests.
+   */
+  private async onImplementation(params: import('vscode-languageserver').ImplementationParams) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.navigationProvider) {
+      return null;
+    }
+    return this.navigationProvider.provideImplementation(params, document);
+  }
+
+  /**
+   * Handle find-references requests.
+   */
+  private async onReferences(params: import('vscode-languageserver').ReferenceParams) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.navigationProvider) {
+      return null;
+    }
+    return this.navigationProvider.provideReferences(params, document);
+  }
+
+  /**
+   * Handle document formatting requests.
+   */
+  private async onDocumentFormatting(
+    params: import('vscode-languageserver').DocumentFormattingParams,
+  ) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.formattingProvider) {
+      return null;
+    }
+    return this.formattingProvider.provideDocumentFormatting(params, document);
+  }
+
+  /**
+   * Handle range formatting requests.
+   */
+  private async onDocumentRangeFormatting(
+    params: import('vscode-languageserver').DocumentRangeFormattingParams,
+  ) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.formattingProvider) {
+      return null;
+    }
+    return this.formattingProvider.provideRangeFormatting(params, document);
+  }
+
+  /**
+   * Handle on-type formatting requests.
+   */
+  private async onDocumentOnTypeFormatting(
+    params: import('vscode-languageserver').DocumentOnTypeFormattingParams,
+  ) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.formattingProvider) {
+      return null;
+    }
+    return this.formattingProvider.provideOnTypeFormatting(params, document);
+  }
+
+  /**
+   * Handle prepare-rename requests.
+   */
+  private async onPrepareRename(params: import('vscode-languageserver').PrepareRenameParams) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.renameProvider) {
+      return null;
+    }
+    return this.renameProvider.prepareRename(params, document);
+  }
+
+  /**
+   * Handle rename requests.
+   */
+  private async onRename(params: import('vscode-languageserver').RenameParams) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.renameProvider) {
+      return null;
+    }
+    return this.renameProvider.provideRename(params, document);
+  }
+
+  /**
+   * Handle document symbol (outline) requests.
+   */
+  private async onDocumentSymbol(params: import('vscode-languageserver').DocumentSymbolParams) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.symbolProvider) {
+      return null;
+    }
+    return this.symbolProvider.provideDocumentSymbols(params, document);
+  }
+
+  /**
+   * Handle workspace symbol requests.
+   */
+  private onWorkspaceSymbol(params: import('vscode-languageserver').WorkspaceSymbolParams) {
+    if (!this.symbolProvider) {
+      return [];
+    }
+    return this.symbolProvider.provideWorkspaceSymbols(params);
+  }
+
+  /**
+   * Handle inlay hint requests.
+   */
+  private async onInlayHint(params: import('vscode-languageserver').InlayHintParams) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.inlayHintProvider) {
+      return null;
+    }
+    return this.inlayHintProvider.provideInlayHints(params, document);
+  }
+
+  /**
+   * Handle inlay hint resolve requests.
+   */
+  private async onInlayHintResolve(hint: import('vscode-languageserver').InlayHint) {
+    if (!this.inlayHintProvider) {
+      return hint;
+    }
+    const uri = (hint.data as { uri?: string } | undefined)?.uri;
+    return this.inlayHintProvider.resolveInlayHint(
+      hint,
+      uri ? this.documents.get(uri) : undefined,
+    );
+  }
+
+  /**
+   * Handle full semantic tokens requests.
+   */
+  private async onSemanticTokens(params: import('vscode-languageserver').SemanticTokensParams) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.semanticTokensProvider) {
+      return { data: [] };
+    }
+    return this.semanticTokensProvider.provideFull(params, document);
+  }
+
+  /**
+   * Handle semantic tokens delta requests.
+   */
+  private async onSemanticTokensDelta(
+    params: import('vscode-languageserver').SemanticTokensDeltaParams,
+  ) {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document || !this.semanticTokensProvider) {
+      return { data: [] };
+    }
+    return this.semanticTokensProvider.provideDelta(params, document);
+  }
+
+  /**
+   * Handle `textDocument/diagnostic` pull requests.
+   */
+  private async onDocumentDiagnostic(
+    params: import('vscode-languageserver').DocumentDiagnosticParams,
+    token: import('vscode-languageserver').CancellationToken,
+  ): Promise<import('vscode-languageserver').DocumentDiagnosticReport> {
+    if (!this.pullDiagnosticsProvider) {
+      return { kind: DocumentDiagnosticReportKind.Full, items: [] };
+    }
+    try {
+      return await this.pullDiagnosticsProvider.provideDocumentDiagnostics(
+        params,
+        this.documents.get(params.textDocument.uri),
+        token,
+      );
+    } catch (err) {
+      this.logger.error('Document diagnostics failed', {
+        uri: params.textDocument.uri,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return { kind: DocumentDiagnosticReportKind.Full, items: [] };
+    }
+  }
+
+  /**
+   * Handle `workspace/diagnostic` pull requests.
+   */
+  private async onWorkspaceDiagnostic(
+    params: import('vscode-languageserver').WorkspaceDiagnosticParams,
+    token: import('vscode-languageserver').CancellationToken,
+    resultProgress?: import('vscode-languageserver').ResultProgressReporter<
+      import('vscode-languageserver').WorkspaceDiagnosticReportPartialResult
+    >,
+  ): Promise<import('vscode-languageserver').WorkspaceDiagnosticReport> {
+    if (!this.pullDiagnosticsProvider) {
+      return { items: [] };
+    }
+    return this.pullDiagnosticsProvider.provideWorkspaceDiagnostics(
+      params,
+      () => this.collectWorkspaceFileUris(),
+      (uri) => this.documents.get(uri),
+      token,
+      resultProgress,
+    );
+  }
+
+  /**
+   * File system paths of the workspace folders on disk.
+   */
+  private workspaceRootPaths(): string[] {
+    return this.workspaceFolders
+      .map((folder) => URI.parse(folder))
+      .filter((parsed) => parsed.scheme === 'file')
+      .map((parsed) => parsed.fsPath);
+  }
+
+  /**
+   * List every file in the workspace folders that matches `watch.include`
+   * and not `watch.exclude`.
+   */
+  private async collectWorkspaceFileUris(): Promise<string[]> {
+    const uris: string[] = [];
+    for (const folder of this.workspaceFolders) {
+      const parsed = URI.parse(folder);
+      if (parsed.scheme !== 'file') {
+        continue;
+      }
+      try {
+        const files = await collectFiles(
+          parsed.fsPath,
+          [],
+          this.config.watch.include,
+          this.config.watch.exclude,
+        );
+        for (const file of files) {
+          uris.push(URI.file(file).toString());
+        }
+      } catch (err) {
+        this.logger.warn('Failed to list workspace folder', {
+          folder,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+    return uris;
+  }
+
+  /**
+   * Ask a pull-diagnostics client to re-request diagnostics.
+   */
+  private refreshPulledDiagnostics(): void {
+    if (
+      !this.pullDiagnosticsProvider ||
+      !this.hasPullDiagnosticsCapability ||
+      !this.hasDiagnosticRefreshCapability
+    ) {
+      return;
+    }
+    this.connection.languages.diagnostics.refresh();
+  }
+
+  /**
+   * Schedule an analysis for a file with debouncing.
+   */
+  private scheduleAnalysis(
+    uri: string,
+    priority: AnalysisPriority,
+    force = false,
+  ): void {
+    if (!this.bridge) {
+      return;
+    }
+
+    this.cancelAnalysis(uri);
+
+    const debounceMs = this.config.watch.debounceMs;
+
+    const timer = setTimeout(async () => {
+      this.analysisDebounceTimers.delete(uri);
+      await this.runAnalysis(uri, priority, force);
+    }, debounceMs);
+
+    this.analysisDebounceTimers.set(uri, timer);
+  }
+
+  /**
+   * Cancel a pending or running analysis for a file.
+   */
+  private cancelAnalysis(uri: string): void {
+    const existing = this.analysisDebounceTimers.get(uri);
+    if (existing) {
+      clearTimeout(existing);
+      this.analysisDebounceTimers.delete(uri);
+    }
+    const running = this.analysisCancellations.get(uri);
+    if (running) {
+      running.cancel();
+      this.analysisCancellations.delete(uri);
+    }
+  }
+
+  /**
+   * Run analysis for a file and publish diagnostics.
+   */
+  private async runAnalysis(
+    uri: string,
+    priority: AnalysisPriority,
+    force: boolean,
+  ): Promise<void> {
+    const document = this.documents.get(uri);
+    if (!document || !this.bridge) {
+      return;
+    }
+
+    // Update server status
+    this.sendStatusUpdate('busy');
+
+    const cancellation = new CancellationTokenSource();
+    this.analysisCancellations.get(uri)?.cancel();
+    this.analysisCancellations.set(uri, cancellation);
+
+    try {
+      const content = document.getText();
+      const result = await this.bridge.analyzeFile(
+        uri,
+        content,
+        force,
+        priority,
+        cancellation.token,
+      );
+
+      // Publish diagnostics
+      this.diagnosticsProvider.updateDiagnostics(uri, result.diagnostics);
+
+      if (force) {
+        // A forced run may change results without changing content
+        this.pullDiagnosticsProvider?.markReanalyzed(uri);
+        this.refreshPulledDiagnostics();
+      }
+
+      // Only edits propagate; dependents re-analyzed in the background don't
+      // cascade, as the transitive dependents are already scheduled. Content
+      // served from the cache, e.g. after an undo, still changed the exports
+      const changed = this.analyzedHashes.get(uri) !== result.contentHash;
+      this.analyzedHashes.set(uri, result.contentHash);
+      if (priority === AnalysisPriority.Active && changed) {
+        this.reanalyzeDependents(uri);
+      }
+
+      this.logger.debug('Analysis complete', {
+        uri,
+        diagnosticCount: result.diagnostics.length,
+        durationMs: result.analysisTimeMs,
+        cached: result.cached,
+      });
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        this.logger.debug('Analysis cancelled', { uri });
+        return;
+      }
+      this.logger.error('Analysis failed', {
+        uri,
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      if (this.analysisCancellations.get(uri) === cancellation) {
+        this.analysisCancellations.delete(uri);
+      }
+      cancellation.dispose();
+      this.sendStatusUpdate(
+        this.bridge.activeCount > 0 ? 'busy' : 'ready',
+      );
+    }
+  }
+
+  /**
+   * Invalidate the transitive dependents of a changed file and re-schedule
+   * the open ones at background priority, so their diagnostics pick up
+   * changed exports. Closed dependents get new result IDs, so workspace
+   * pulls report them again.
+   */
+  private reanalyzeDependents(uri: string): void {
+    if (!this.bridge) {
+      return;
+    }
+
+    const dependents = this.typeCache.invalidateWithDependents(uri);
+    dependents.delete(uri);
+
+    let scheduled = 0;
+    for (const dependent of dependents) {
+      this.bridge.invalidateCache(dependent);
+      this.pullDiagnosticsProvider?.markReanalyzed(dependent);
+      if (!this.documents.get(dependent)) {
+        continue;
+      }
+      // A pending run will miss the cache now; keep its priority
+      if (this.analysisDebounceTimers.has(dependent)) {
+        continue;
+      }
+      this.scheduleAnalysis(dependent, AnalysisPriority.Background, true);
+      scheduled++;
+    }
+
+    if (scheduled > 0) {
+      this.logger.debug('Re-analyzing dependents', { uri, count: scheduled });
+    }
+  }
+
+  /**
+   * React to a tool going down, being probed, or coming back: report the
+   * new status, and when the tool is usable again re-check the open files
+   * so their diagnostics include it (the re-checks also serve as the probe).
+   */
+  private onToolHealthChanged(
+    tool: SubsystemHealth['tool'],
+    state: CircuitState,
+    previous: CircuitState,
+  ): void {
+    this.logger.info('Tool health changed', { tool, state, previous });
+    this.sendStatusUpdate(this.bridge?.activeCount ? 'busy' : 'ready');
+
+    if (state === 'halfOpen' || previous === 'open') {
+      for (const document of this.documents.all()) {
+        this.scheduleAnalysis(document.uri, AnalysisPriority.Background, true);
+      }
+      this.pullDiagnosticsProvider?.invalidateResultIds();
+      this.refreshPulledDiagnostics();
+    }
+  }
+
+  /**
+   * Send a server status notification to the client. While a tool is down
+   * or being probed, `ready` and `busy` are reported as `degraded`.
+   */
+  private sendStatusUpdate(
+    status: 'ready' | 'busy' | 'error' | 'degraded',
+  ): void {
+    const subsystems = this.bridge?.getSubsystemHealth() ?? [];
+    const unhealthy = subsystems.filter((s) => s.status !== 'up');
+    const notification: ServerStatusNotification = {
+      status: unhealthy.length > 0 && status !== 'error' ? 'degraded' : status,
+      activeOperations: this.bridge?.activeCount ?? 0,
+      queuedOperations: this.bridge?.queueSize ?? 0,
+      subsystems,
+    };
+    if (unhealthy.length > 0) {
+      notification.message = unhealthy
+        .map((s) =>
+          s.status === 'down'
+            ? `${s.tool} is down: ${s.reason ?? 'repeated failures'}`
+            : `${s.tool} is recovering`,
+        )
+        .join('; ');
+    }
+
+    try {
+      this.connection.sendNotification(CustomMethods.serverStatus, notification);
+    } catch (err) {
+      this.logger.debug('Failed to send status update', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * Handle inspector data request.
+   */
+  private handleInspectorData(
+    params: InspectorDataRequest,
+  ): InspectorDataResponse {
+    const traces = params.includeTraces
+      ? this.perfTracer.getRecentTraces(50)
+      : [];
+
+    const cacheStats = params.includeCache
+      ? this.bridge?.getCacheStats() ?? {
+          totalEntries: 0,
+          totalSizeBytes: 0,
+          hitRate: 0,
+          missRate: 0,
+          evictionCount: 0,
+        }
+      : {
+          totalEntries: 0,
+          totalSizeBytes: 0,
+          hitRate: 0,
+          missRate: 0,
+          evictionCount: 0,
+        };
+
+    const diagnostics = params.includeDiagnostics
+      ? params.fileUri
+        ? this.diagnosticsProvider?.getDiagnostics(params.fileUri) ?? []
+        : []
+      : [];
+
+    const response: InspectorDataResponse = {
+      traces,
+      cacheStats,
+      diagnostics,
+      config: this.config,
+      serverUptime: Date.now() - this.startTime,
+      filesAnalyzed: this.bridge?.totalFilesAnalyzed ?? 0,
+      activeProcesses: this.bridge?.getProcessInfo() ?? [],
+      subsystems: this.bridge?.getSubsystemHealth() ?? [],
+    };
+    if (this.bridge && this.config.tsgo.enabled) {
+      response.tsgoBinary = this.bridge.tsgoIntegration.binaryInfo;
+    }
+    return response;
+  }
+
+  /**
+   * Attach the persistent cache to the analysis bridge when
+   * `cache.persistent` is on, or detach it when turned off.
+   */
+  private configureDiskCache(): void {
+    if (!this.bridge) {
+      return;
+    }
+
+    const { persistent, diskMaxSizeMb } = this.config.cache;
+    if (!persistent || !this.storagePath) {
+      if (persistent) {
+        this.logger.warn('Persistent cache needs a workspace storage directory from the client');
+      }
+      this.diskCache = undefined;
+      this.bridge.setDiskCache(undefined);
+      return;
+    }
+
+    if (this.diskCache) {
+      void this.diskCache.setMaxSizeMb(diskMaxSizeMb);
+    } else {
+      this.diskCache = new DiskCache(
+        path.join(this.storagePath, 'cache'),
+        diskMaxSizeMb,
+        this.logger,
+      );
+      this.logger.info('Persistent cache enabled', {
+        directory: this.diskCache.directory,
+        maxSizeMb: diskMaxSizeMb,
+      });
+    }
+    this.bridge.setDiskCache(this.diskCache);
+  }
+
+  /**
+   * Handle clear cache request.
+   */
+  private handleClearCache(): void {
+    this.bridge?.clearCache();
+    this.typeCache?.clear();
+    this.pullDiagnosticsProvider?.invalidateResultIds();
+    this.refreshPulledDiagnostics();
+    this.logger.info('All caches cleared via client request');
+
+    // Send updated cache stats
+    this.connection.sendNotification(CustomMethods.cacheStats, {
+      totalEntries: 0,
+      totalSizeBytes: 0,
+      hitRate: 0,
+      missRate: 0,
+      evictionCount: 0,
+    });
+  }
+
+  /**
+   * Handle configuration reload request.
+   */
+  private async handleReloadConfig(): Promise<void> {
+    const newConfig = await this.configLoader.reload();
+    this.applyConfig(newConfig);
+    this.logger.info('Configuration reloaded via client request');
+  }
+
+  /**
+   * Handle analyze single file request.
+   */
+  private async handleAnalyzeFile(
+    params: AnalyzeFileRequest,
+  ): Promise<AnalyzeFileResponse> {
+    const document = this.documents.get(params.uri);
+    if (!document || !this.bridge) {
+      return {
+        result: {
+          uri: params.uri,
+          diagnostics: [],
+          analysisTimeMs: 0,
+          cached: false,
+          contentHash: '',
+        },
+        traces: [],
+      };
+    }
+
+    const content = document.getText();
+    const result = await this.bridge.analyzeFile(
+      params.uri,
+      content,
+      params.force,
+      AnalysisPriority.Active,
+    );
+
+    // Publish diagnostics immediately
+    this.diagnosticsProvider.updateDiagnostics(params.uri, result.diagnostics);
+
+    // Get related traces
+    const traces = this.perfTracer.getRecentTraces(5);
+
+    return { result, traces };
+  }
+
+  /**
+   * Handle analyze workspace request: analyze every file matching
+   * `watch.include` from disk at background priority, publishing diagnostics
+   * as files complete and reporting work-done progress. Cancelled by the
+   * client cancelling the request or the progress, or by a newer request.
+   */
+  private async handleAnalyzeWorkspace(
+    params: AnalyzeWorkspaceRequest,
+    token: import('vscode-languageserver').CancellationToken,
+  ): Promise<AnalyzeWorkspaceResponse> {
+    if (!this.bridge) {
+      return {
+        total: 0,
+        analyzed: 0,
+        failed: 0,
+        filesWithDiagnostics: 0,
+        cancelled: false,
+        durationMs: 0,
+      };
+    }
+
+    this.workspaceAnalysis?.cancel();
+    const cancellation = new CancellationTokenSource();
+    this.workspaceAnalysis = cancellation;
+
+    const progress = await this.connection.window.createWorkDoneProgress();
+    const subscriptions = [
+      token.onCancellationRequested(() => cancellation.cancel()),
+      progress.token.onCancellationRequested(() => cancellation.cancel()),
+    ];
+
+    try {
+      const uris = await this.collectWorkspaceFileUris();
+      const job = new WorkspaceAnalysisJob(this.bridge, this.logger);
+      const summary = await job.run(uris, {
+        force: params.force,
+        getDocument: (uri) => this.documents.get(uri),
+        publish: (uri, diagnostics) =>
+          this.diagnosticsProvider.updateDiagnostics(uri, diagnostics),
+        progress,
+        token: cancellation.token,
+      });
+
+      // Pull clients re-request; the results are cached now
+      this.pullDiagnosticsProvider?.markWorkspaceDirty();
+      this.refreshPulledDiagnostics();
+      return summary;
+    } finally {
+      for (const subscription of subscriptions) {
+        subscription.dispose();
+      }
+      if (this.workspaceAnalysis === cancellation) {
+        this.workspaceAnalysis = undefined;
+      }
+      cancellation.dispose();
+    }
+  }
+
+  /**
+   * Handle shutdown request. Gracefully stop all child processes.
+   */
+  private async onShutdown(): Promise<void> {
+    this.logger.info('Server shutting down');
+
+    // Cancel all pending analyses
+    for (const [, timer] of this.analysisDebounceTimers) {
+      clearTimeout(timer);
+    }
+    this.analysisDebounceTimers.clear();
+    for (const [, cancellation] of this.analysisCancellations) {
+      cancellation.cancel();
+    }
+    this.analysisCancellations.clear();
+    this.workspaceAnalysis?.cancel();
+
+    // Shutdown bridge (kills tsgo + oxc processes)
+    if (this.bridge) {
+      try {
+        await this.bridge.shutdown();
+      } catch (err) {
+        this.logger.error('Error during bridge shutdown', {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    // Dispose providers
+    this.diagnosticsProvider?.dispose();
+
+    // Flush and dispose logger
+    this.logger.flush();
+    this.logger.dispose();
+  }
+}
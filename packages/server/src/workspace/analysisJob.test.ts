@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { URI } from 'vscode-uri';
+import {
+  CancellationTokenSource,
+  type CancellationToken,
+  type WorkDoneProgressReporter,
+} from 'vscode-languageserver';
+import { DEFAULT_CONFIG, type TurbodiagnosticItem } from '@tsgo-turbo/shared';
+import { Logger } from '../logger/index.js';
+import { AnalysisPriority, type AnalysisBridge } from '../integrations/bridge.js';
+import { CancelledError } from '../integrations/cancellation.js';
+import { WorkspaceAnalysisJob } from './analysisJob.js';
+
+const logger = new Logger(undefined, { ...DEFAULT_CONFIG.logging, level: 'fatal' });
+
+function fakeProgress() {
+  const events: string[] = [];
+  const progress: WorkDoneProgressReporter = {
+    begin: (title) => events.push(`begin ${title}`),
+    report: (_percentage?: unknown, message?: string) => events.push(`report ${message}`),
+    done: () => events.push('done'),
+  } as WorkDoneProgressReporter;
+  return { events, progress };
+}
+
+function diagnostic(file: string): TurbodiagnosticItem {
+  return {
+    file,
+    line: 1,
+    column: 1,
+    message: 'problem',
+    severity: 'error',
+    source: 'tsgo',
+    computeTimeMs: 1,
+  };
+}
+
+describe('WorkspaceAnalysisJob', () => {
+  it('analyzes files from disk in the background and publishes their diagnostics', async () => {
+    const root = mkdtempSync(path.join(tmpdir(), 'tsgo-turbo-scan-'));
+    writeFileSync(path.join(root, 'a.ts'), 'bad');
+    writeFileSync(path.join(root, 'b.ts'), 'good');
+    const uris = ['a.ts', 'b.ts', 'missing.ts'].map((name) =>
+      URI.file(path.join(root, name)).toString(),
+    );
+
+    const priorities: AnalysisPriority[] = [];
+    const batched: string[] = [];
+    const bridge = {
+      lintWorkspace: async (batch: string[]) => {
+        batched.push(...batch);
+        return batch.length;
+      },
+      analyzeFile: async (uri: string, content: string, _force: boolean, priority: AnalysisPriority) => {
+        priorities.push(priority);
+        return { uri, diagnostics: content === 'bad' ? [diagnostic(uri)] : [] };
+      },
+    } as unknown as AnalysisBridge;
+    const published = new Map<string, number>();
+    const { events, progress } = fakeProgress();
+
+    const summary = await new WorkspaceAnalysisJob(bridge, logger).run(uris, {
+      force: false,
+      getDocument: () => undefined,
+      publish: (uri, diagnostics) => published.set(uri, diagnostics.length),
+      progress,
+      token: new CancellationTokenSource().token,
+    });
+    rmSync(root, { recursive: true, force: true });
+
+    expect(summary).toMatchObject({
+      total: 3,
+      analyzed: 2,
+      failed: 1,
+      filesWithDiagnostics: 1,
+      cancelled: false,
+    });
+    expect(published).toEqual(new Map([[uris[0], 1], [uris[1], 0]]));
+    expect(priorities).toEqual([AnalysisPriority.Background, AnalysisPriority.Background]);
+    expect(batched).toEqual(uris);
+    expect(events[0]).toBe('begin tsgo Turbo: Analyzing workspace');
+    expect(events.at(-2)).toBe('report 3/3 files');
+    expect(events.at(-1)).toBe('done');
+  });
+
+  it('stops when cancelled', async () => {
+    const cancellation = new CancellationTokenSource();
+    let started = 0;
+    const bridge = {
+      lintWorkspace: async () => 0,
+      analyzeFile: (_uri: string, _content: string, _force: boolean, _priority: AnalysisPriority, token: CancellationToken) => {
+        started++;
+        return new Promise((_resolve, reject) => {
+          token.onCancellationRequested(() => reject(new CancelledError('cancelled')));
+        });
+      },
+    } as unknown as AnalysisBridge;
+    const uris = Array.from({ length: 20 }, (_, i) => `file:///open-${i}.ts`);
+    const { events, progress } = fakeProgress();
+
+    const run = new WorkspaceAnalysisJob(bridge, logger).run(uris, {
+      force: false,
+      getDocument: () => ({ getText: () => '' }) as never,
+      publish: () => {},
+      progress,
+      token: cancellation.token,
+    });
+    cancellation.cancel();
+    const summary = await run;
+
+    expect(summary.cancelled).toBe(true);
+    expect(summary.analyzed).toBe(0);
+    expect(started).toBeLessThan(uris.length);
+    expect(events.at(-1)).toBe('done');
+  });
+});
@@ -0,0 +1,208 @@
+import type {
+  CancellationToken,
+  WorkDoneProgressReporter,
+} from 'vscode-languageserver';
+import type { TextDocument } from 'vscode-languageserver-textdocument';
+import type {
+  AnalyzeWorkspaceResponse,
+  TurbodiagnosticItem,
+} from '@tsgo-turbo/shared';
+import type { Logger } from '../logger/index.js';
+import { AnalysisPriority, type AnalysisBridge } from '../integrations/bridge.js';
+import { CancelledError } from '../integrations/cancellation.js';
+import { readFileUri } from './files.js';
+
+/** Number of files read and analyzed concurrently by a workspace scan. */
+const SCAN_CONCURRENCY = 8;
+
+/** Minimum interval (ms) between progress reports. */
+const PROGRESS_INTERVAL_MS = 200;
+
+/**
+ * Inputs of a workspace analysis run.
+ */
+export interface WorkspaceAnalysisOptions {
+  /** Bypass the analysis cache */
+  force: boolean;
+  /** Open document for a URI; its content is analyzed instead of the file on disk */
+  getDocument: (uri: string) => TextDocument | undefined;
+  /** Publish the diagnostics of an analyzed file */
+  publish: (uri: string, diagnostics: TurbodiagnosticItem[]) => void;
+  /** Work-done progress to report to; begun and ended by the job */
+  progress: WorkDoneProgressReporter;
+  token: CancellationToken;
+}
+
+/**
+ * WorkspaceAnalysisJob analyzes a list of workspace files in the
+ * background and publishes diagnostics for each of them.
+ *
+ * Files are read from disk (or taken from the open document), analyzed at
+ * {@link AnalysisPriority.Background} so editing stays responsive, and
+ * processed a few at a time so memory use stays flat on large workspaces.
+ * The files on disk are first linted in one batch, whose results their
+ * analyses reuse, rather than spawning oxlint for each file.
+ * Progress is reported as `analyzed/total files`; cancelling the token
+ * stops the scan and cancels the analyses in flight.
+ *
+ * @example
+ * ```ts
+ * const job = new WorkspaceAnalysisJob(bridge, logger);
+ * const summary = await job.run(uris, { force: false, getDocument, publish, progress, token });
+ * ```
+ */
+export class WorkspaceAnalysisJob {
+  private readonly bridge: AnalysisBridge;
+  private readonly logger: Logger;
+
+  /**
+   * @param bridge - the analysis bridge
+   * @param logger - logger instance
+   */
+  constructor(bridge: AnalysisBridge, logger: Logger) {
+    this.bridge = bridge;
+    this.logger = logger;
+  }
+
+  /**
+   * Analyze every file in `uris`.
+   *
+   * @param uris - files to analyze
+   * @param options - document access, diagnostics sink, progress and cancellation
+   * @returns a summary of the run
+   */
+  async run(
+    uris: string[],
+    options: WorkspaceAnalysisOptions,
+  ): Promise<AnalyzeWorkspaceResponse> {
+    const { token, progress } = options;
+    const startTime = Date.now();
+    const total = uris.length;
+    let analyzed = 0;
+    let failed = 0;
+    let filesWithDiagnostics = 0;
+    let lastReportAt = 0;
+
+    progress.begin('tsgo Turbo: Analyzing workspace', 0, `0/${total} files`, true);
+    this.logger.info('Workspace analysis started', { files: total });
+
+    // Open documents may differ from disk; they are linted with their analysis
+    await this.lintBatch(
+      uris.filter((uri) => !options.getDocument(uri)),
+      options,
+    );
+
+    const report = () => {
+      const now = Date.now();
+      const done = analyzed + failed;
+      if (now - lastReportAt < PROGRESS_INTERVAL_MS && done < total) {
+        return;
+      }
+      lastReportAt = now;
+      progress.report(
+        total > 0 ? Math.floor((done / total) * 100) : 100,
+        `${done}/${total} files`,
+      );
+    };
+
+    let next = 0;
+    const worker = async (): Promise<void> => {
+      while (next < total && !token.isCancellationRequested) {
+        const uri = uris[next++];
+        const diagnostics = await this.analyze(uri, options);
+        if (diagnostics === 'cancelled') {
+          return;
+        }
+        if (diagnostics) {
+          analyzed++;
+          if (diagnostics.length > 0) {
+            filesWithDiagnostics++;
+          }
+          options.publish(uri, diagnostics);
+        } else {
+          failed++;
+        }
+        report();
+      }
+    };
+
+    try {
+      const workers: Promise<void>[] = [];
+      for (let i = 0; i < Math.min(SCAN_CONCURRENCY, total); i++) {
+        workers.push(worker());
+      }
+      await Promise.all(workers);
+    } finally {
+      progress.done();
+    }
+
+    const summary: AnalyzeWorkspaceResponse = {
+      total,
+      analyzed,
+      failed,
+      filesWithDiagnostics,
+      cancelled: token.isCancellationRequested,
+      durationMs: Date.now() - startTime,
+    };
+    this.logger.info('Workspace analysis finished', { ...summary });
+    return summary;
+  }
+
+  /**
+   * Lint files from disk in one batch ahead of their analyses. On failure
+   * each analysis lints its file on its own.
+   */
+  private async lintBatch(
+    uris: string[],
+    options: WorkspaceAnalysisOptions,
+  ): Promise<void> {
+    if (uris.length === 0 || options.token.isCancellationRequested) {
+      return;
+    }
+    options.progress.report(0, `Linting ${uris.length} files`);
+    try {
+      const linted = await this.bridge.lintWorkspace(uris, options.token);
+      this.logger.debug('Workspace batch lint finished', { files: linted });
+    } catch (err) {
+      this.logger.debug('Workspace batch lint failed', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    }
+  }
+
+  /**
+   * Read and analyze one file.
+   *
+   * @returns its diagnostics, undefined if it failed, or `'cancelled'`
+   */
+  private async analyze(
+    uri: string,
+    options: WorkspaceAnalysisOptions,
+  ): Promise<TurbodiagnosticItem[] | undefined | 'cancelled'> {
+    const content = options.getDocument(uri)?.getText() ?? (await readFileUri(uri));
+    if (content === undefined) {
+      this.logger.debug('Workspace analysis could not read file', { uri });
+      return undefined;
+    }
+
+    try {
+      const result = await this.bridge.analyzeFile(
+        uri,
+        content,
+        options.force,
+        AnalysisPriority.Background,
+        options.token,
+      );
+      return result.diagnostics;
+    } catch (err) {
+      if (err instanceof CancelledError) {
+        return 'cancelled';
+      }
+      this.logger.debug('Workspace analysis skipped file', {
+        uri,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return undefined;
+    }
+  }
+}
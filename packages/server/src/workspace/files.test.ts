@@ -0,0 +1,14 @@
+import { describe, it, expect } from 'vitest';
+import { globToRegExp } from './files.js';
+
+describe('globToRegExp', () => {
+  it('matches watch patterns', () => {
+    expect(globToRegExp('**/*.ts').test('src/deep/file.ts')).toBe(true);
+    expect(globToRegExp('**/*.ts').test('file.ts')).toBe(true);
+    expect(globToRegExp('**/*.ts').test('file.tsx')).toBe(false);
+    expect(globToRegExp('**/node_modules/**').test('node_modules')).toBe(true);
+    expect(globToRegExp('**/node_modules/**').test('a/node_modules/b/c.ts')).toBe(true);
+    expect(globToRegExp('src/*.{ts,tsx}').test('src/a.tsx')).toBe(true);
+    expect(globToRegExp('src/*.{ts,tsx}').test('src/a/b.ts')).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { URI } from 'vscode-uri';
+
+/**
+ * Convert a glob pattern into an anchored regular expression.
+ *
+ * Supports the subset of glob syntax used by `watch.include` / `watch.exclude`:
+ * `**` (any number of path segments), `*` (anything except `/`), `?` (a single
+ * character except `/`) and `{a,b}` alternation. Paths are matched with
+ * forward slashes, relative to the scan root.
+ *
+ * @param glob - the glob pattern
+ * @returns a RegExp matching the whole relative path
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+
+    if (char === '*') {
+      if (glob[i + 1] === '*') {
+        const atSegmentStart = i === 0 || glob[i - 1] === '/';
+        if (atSegmentStart && glob[i + 2] === '/') {
+          // `**/` matches zero or more leading directories
+          source += '(?:.*/)?';
+          i += 2;
+        } else if (atSegmentStart && i + 2 === glob.length && i > 0) {
+          // Trailing `/**` matches the directory itself and everything below it
+          source = source.slice(0, -1) + '(?:/.*)?';
+          i += 1;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check whether a relative, forward-slash path matches any of the patterns.
+ */
+export function matchesAny(relativePath: string, patterns: RegExp[]): boolean {
+  return patterns.some((p) => p.test(relativePath));
+}
+
+/**
+ * Collect files to analyze under `root`.
+ *
+ * Each target may be an existing file (always included unless excluded), an
+ * existing directory (walked using the include patterns), or a glob pattern
+ * relative to `root`. When no targets are given, `root` itself is walked.
+ * Excluded directories are pruned without being read.
+ *
+ * @param root - absolute directory that relative paths and globs resolve against
+ * @param targets - file paths, directory paths, or glob patterns
+ * @param include - glob patterns a walked file must match (`watch.include`)
+ * @param exclude - glob patterns that remove files and prune directories (`watch.exclude`)
+ * @returns sorted, de-duplicated absolute file paths
+ */
+export async function collectFiles(
+  root: string,
+  targets: string[],
+  include: string[],
+  exclude: string[],
+): Promise<string[]> {
+  const includePatterns = include.map(globToRegExp);
+  const excludePatterns = exclude.map(globToRegExp);
+  const files = new Set<string>();
+
+  const toRelative = (absolutePath: string): string =>
+    path.relative(root, absolutePath).split(path.sep).join('/');
+
+  const walk = async (
+    dir: string,
+    patterns: RegExp[],
+  ): Promise<void> => {
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    for (const entry of entries) {
+      const absolutePath = path.join(dir, entry.name);
+      const relativePath = toRelative(absolutePath);
+
+      if (matchesAny(relativePath, excludePatterns)) {
+        continue;
+      }
+      if (entry.isDirectory()) {
+        await walk(absolutePath, patterns);
+      } else if (entry.isFile() && matchesAny(relativePath, patterns)) {
+        files.add(absolutePath);
+      }
+    }
+  };
+
+  if (targets.length === 0) {
+    await walk(root, includePatterns);
+  }
+
+  for (const target of targets) {
+    const absoluteTarget = path.resolve(root, target);
+    let stat: fs.Stats | undefined;
+    try {
+      stat = await fs.promises.stat(absoluteTarget);
+    } catch {
+      stat = undefined;
+    }
+
+    if (stat?.isFile()) {
+      if (!matchesAny(toRelative(absoluteTarget), excludePatterns)) {
+        files.add(absoluteTarget);
+      }
+    } else if (stat?.isDirectory()) {
+      await walk(absoluteTarget, includePatterns);
+    } else {
+      // Not an existing path -- treat it as a glob relative to root
+      const globPattern = globToRegExp(target.split(path.sep).join('/'));
+      await walk(root, [globPattern]);
+    }
+  }
+
+  return Array.from(files).sort();
+}
+
+/**
+ * Read a file's content from disk. Returns undefined for non-file URIs or
+ * unreadable files.
+ *
+ * @param uri - file URI
+ * @returns the file content
+ */
+export async function readFileUri(uri: string): Promise<string | undefined> {
+  const parsed = URI.parse(uri);
+  if (parsed.scheme !== 'file') {
+    return undefined;
+  }
+  try {
+    return await fs.promises.readFile(parsed.fsPath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
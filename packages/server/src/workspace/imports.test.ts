@@ -0,0 +1,67 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import * as path from 'node:path';
+import { URI } from 'vscode-uri';
+import { resolveRelativeImports, scanImportSpecifiers } from './imports.js';
+
+let dir: string | undefined;
+
+afterEach(() => {
+  if (dir) {
+    rmSync(dir, { recursive: true, force: true });
+    dir = undefined;
+  }
+});
+
+describe('imports', () => {
+  it('scans static, re-export, require and dynamic imports', () => {
+    const content = [
+      "import { a, type B } from './a.js';",
+      "import type {",
+      '  C,',
+      "} from '../types';",
+      "import './polyfill';",
+      "export * from './router';",
+      "import fs = require('node:fs');",
+      "const lazy = await import('./lazy');",
+      "const other = foo.import('./not-an-import');",
+      "import { a as again } from './a.js';",
+    ].join('\n');
+
+    expect(scanImportSpecifiers(content)).toEqual([
+      './a.js',
+      '../types',
+      './polyfill',
+      './router',
+      'node:fs',
+      './lazy',
+    ]);
+  });
+
+  it('resolves relative imports to existing TypeScript sources', async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'tsgo-turbo-imports-'));
+    mkdirSync(path.join(dir, 'router'));
+    writeFileSync(path.join(dir, 'util.ts'), '');
+    writeFileSync(path.join(dir, 'types.d.ts'), '');
+    writeFileSync(path.join(dir, 'router', 'index.tsx'), '');
+    const uri = URI.file(path.join(dir, 'main.ts')).toString();
+
+    const imports = await resolveRelativeImports(
+      uri,
+      [
+        "import { u } from './util.js';",
+        "import type { T } from './types';",
+        "import { r } from './router';",
+        "import { m } from './missing';",
+        "import { z } from 'zod';",
+      ].join('\n'),
+    );
+
+    expect(imports).toEqual([
+      URI.file(path.join(dir, 'util.ts')).toString(),
+      URI.file(path.join(dir, 'types.d.ts')).toString(),
+      URI.file(path.join(dir, 'router', 'index.tsx')).toString(),
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import { stat } from 'node:fs/promises';
+import * as path from 'node:path';
+import { URI } from 'vscode-uri';
+
+/**
+ * Module specifiers of static imports and re-exports, including side-effect
+ * imports (`import './polyfill'`) and `import type`.
+ */
+const STATIC_IMPORT_RE =
+  /(?:^|[^.\w$])(?:import|export)\s+(?:type\s+)?(?:[\w$*{},\s]+?\s+from\s+)?['"]([^'"\n]+)['"]/g;
+
+/** Module specifiers of `require()`, `import x = require()` and dynamic `import()`. */
+const CALL_IMPORT_RE = /(?:^|[^.\w$])(?:require|import)\s*\(\s*['"]([^'"\n]+)['"]\s*\)/g;
+
+/** Extensions tried, in order, for an extensionless relative specifier. */
+const RESOLVE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * TypeScript sources imported by their emitted name (`./util.js` for
+ * `util.ts`, as Node16 resolution requires).
+ */
+const EMITTED_TO_SOURCE: Record<string, string[]> = {
+  '.js': ['.ts', '.tsx'],
+  '.jsx': ['.tsx'],
+  '.mjs': ['.mts'],
+  '.cjs': ['.cts'],
+};
+
+/**
+ * Extract the module specifiers a file imports, in order of appearance and
+ * without duplicates.
+ *
+ * This is a lexical scan: specifiers inside comments or strings that look
+ * like imports are picked up too. That only ever adds dependency edges, so
+ * the worst case is an unnecessary re-analysis.
+ *
+ * @param content - file content
+ * @returns module specifiers
+ */
+export function scanImportSpecifiers(content: string): string[] {
+  const specifiers = new Set<string>();
+  for (const re of [STATIC_IMPORT_RE, CALL_IMPORT_RE]) {
+    for (const match of content.matchAll(re)) {
+      specifiers.add(match[1]);
+    }
+  }
+  return [...specifiers];
+}
+
+/**
+ * Resolve the relative imports of a file to the URIs of existing files.
+ *
+ * Only `./` and `../` specifiers are resolved; bare package specifiers and
+ * tsconfig path aliases need the compiler's module resolution, which tsgo
+ * reports with its analysis results.
+ *
+ * @param uri - URI of the importing file
+ * @param content - file content
+ * @returns URIs of the imported files
+ */
+export async function resolveRelativeImports(uri: string, content: string): Promise<string[]> {
+  const fromDir = path.dirname(URI.parse(uri).fsPath);
+  const resolved = new Set<string>();
+
+  for (const specifier of scanImportSpecifiers(content)) {
+    if (!specifier.startsWith('./') && !specifier.startsWith('../')) {
+      continue;
+    }
+    const filePath = await resolveFile(path.resolve(fromDir, specifier));
+    if (filePath) {
+      const target = URI.file(filePath).toString();
+      if (target !== uri) {
+        resolved.add(target);
+      }
+    }
+  }
+
+  return [...resolved];
+}
+
+/**
+ * Find the file a relative import refers to: the path itself, its
+ * TypeScript source, the path with an extension appended, or an index file
+ * in the directory.
+ */
+async function resolveFile(basePath: string): Promise<string | undefined> {
+  const ext = path.extname(basePath);
+  const candidates: string[] = [];
+
+  for (const sourceExt of EMITTED_TO_SOURCE[ext] ?? []) {
+    candidates.push(basePath.slice(0, -ext.length) + sourceExt);
+  }
+  if (ext) {
+    candidates.push(basePath);
+  }
+  for (const candidateExt of RESOLVE_EXTENSIONS) {
+    candidates.push(basePath + candidateExt);
+  }
+  for (const candidateExt of RESOLVE_EXTENSIONS) {
+    candidates.push(path.join(basePath, 'index' + candidateExt));
+  }
+
+  for (const candidate of candidates) {
+    if (await isFile(candidate)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await stat(filePath)).isFile();
+  } catch {
+    return false;
+  }
+}
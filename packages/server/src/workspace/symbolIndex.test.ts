@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import type { TsgoDocumentSymbol } from '../integrations/tsgo.js';
+import { SymbolIndex } from './symbolIndex.js';
+
+const range = { line: 0, column: 0, endLine: 0, endColumn: 1 };
+
+function symbol(
+  name: string,
+  kind: string,
+  children?: TsgoDocumentSymbol[],
+): TsgoDocumentSymbol {
+  return children
+    ? { name, kind, range, selectionRange: range, children }
+    : { name, kind, range, selectionRange: range };
+}
+
+describe('SymbolIndex', () => {
+  it('ranks exact, prefix and word-boundary matches first', () => {
+    const index = new SymbolIndex();
+    index.update('file:///a.ts', [
+      symbol('userRouter', 'variable'),
+      symbol('UserRouterInput', 'type'),
+      symbol('superUserRouter', 'variable'),
+      symbol('router', 'variable'),
+    ]);
+
+    expect(index.search('userrouter', 10).map((s) => s.name)).toEqual([
+      'userRouter',
+      'UserRouterInput',
+      'superUserRouter',
+    ]);
+    expect(index.search('uR', 10)[0].name).toBe('userRouter');
+    expect(index.search('', 10)).toEqual([]);
+  });
+
+  it('indexes members with their container but skips function locals', () => {
+    const index = new SymbolIndex();
+    index.update('file:///a.ts', [
+      symbol('UserService', 'class', [symbol('findById', 'method', [symbol('cacheKey', 'variable')])]),
+    ]);
+
+    const [match] = index.search('findbyid', 10);
+    expect(match.containerName).toBe('UserService');
+    expect(index.search('cacheKey', 10)).toEqual([]);
+    expect(index.size).toBe(2);
+  });
+
+  it('replaces and removes symbols per file', () => {
+    const index = new SymbolIndex();
+    index.update('file:///a.ts', [symbol('oldName', 'function')]);
+    index.update('file:///a.ts', [symbol('newName', 'function')]);
+    expect(index.search('oldName', 10)).toEqual([]);
+    expect(index.search('newName', 10)).toHaveLength(1);
+
+    index.remove('file:///a.ts');
+    expect(index.size).toBe(0);
+  });
+});
@@ -5,6 +5,10 @@ export const EXTENSION_NAME = 'tsgo Turbo';
 export const OUTPUT_CHANNEL_NAME = 'tsgo Turbo';
 export const LSP_SERVER_ID = 'tsgo-turbo-lsp';
 
+/** Max concurrent tool processes */
+export const MAX_CONCURRENT_TSGO = 4;
+export const MAX_CONCURRENT_OXC = 8;
+
 export const DEFAULT_CONFIG: TsgoTurboConfig = {
   tsgo: {
     enabled: true,
@@ -12,10 +16,21 @@ export const DEFAULT_CONFIG: TsgoTurboConfig = {
     fileTimeoutMs: 30_000,
     maxMemoryMb: 4096,
     flags: [],
+    poolSize: 'auto',
+    minProcesses: 1,
+    maxProcesses: MAX_CONCURRENT_TSGO,
+    idleTimeoutMs: 300_000,
   },
   oxc: {
     enabled: true,
     fileTimeoutMs: 10_000,
+    maxConcurrency: MAX_CONCURRENT_OXC,
+  },
+  format: {
+    enabled: true,
+    provider: 'oxc',
+    fileTimeoutMs: 5_000,
+    formatOnType: false,
   },
   logging: {
     level: 'info',
@@ -28,6 +43,8 @@ export const DEFAULT_CONFIG: TsgoTurboConfig = {
     maxEntries: 10_000,
     maxSizeMb: 512,
     ttlSeconds: 300,
+    persistent: false,
+    diskMaxSizeMb: 1024,
   },
   watch: {
     include: ['**/*.ts', '**/*.tsx', '**/*.js', '**/*.jsx', '**/*.mts', '**/*.cts'],
@@ -51,16 +68,16 @@ export const LOG_LEVEL_VALUES: Record<string, number> = {
   fatal: 50,
 };
 
-/** Max concurrent tool processes */
-export const MAX_CONCURRENT_TSGO = 4;
-export const MAX_CONCURRENT_OXC = 8;
-
 /** IPC message types for child process communication */
 export const IPC_MESSAGES = {
   ANALYZE: 'analyze',
   RESULT: 'result',
   ERROR: 'error',
   CANCEL: 'cancel',
+  CAPABILITIES: 'capabilities',
+  OPEN: 'open',
+  CHANGE: 'change',
+  CLOSE: 'close',
   HEALTH: 'health',
   SHUTDOWN: 'shutdown',
 } as const;
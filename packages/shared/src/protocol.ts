@@ -18,6 +18,8 @@ export const CustomMethods = {
   serverStatus: 'tsgoTurbo/serverStatus',
   /** Client -> Server: analyze single file on demand */
   analyzeFile: 'tsgoTurbo/analyzeFile',
+  /** Client -> Server: analyze every workspace file, with work-done progress */
+  analyzeWorkspace: 'tsgoTurbo/analyzeWorkspace',
   /** Server -> Client: detailed log entry */
   logEntry: 'tsgoTurbo/logEntry',
 } as const;
@@ -58,6 +60,20 @@ export interface InspectorDataResponse {
   serverUptime: number;
   filesAnalyzed: number;
   activeProcesses: ProcessInfo[];
+  subsystems: SubsystemHealth[];
+  /** The tsgo binary in use, while tsgo is enabled */
+  tsgoBinary?: TsgoBinaryInfo;
+}
+
+export interface TsgoBinaryInfo {
+  /** Executable the tsgo processes are spawned from */
+  path: string;
+  /** Where it was found: the workspace's node_modules, the configured path or PATH */
+  source: 'workspace' | 'nativePreview' | 'config' | 'path';
+  /** Output of `tsgo --version`, if it succeeded */
+  version?: string;
+  /** Features turned off because this tsgo does not support them */
+  unsupportedFeatures: string[];
 }
 
 export interface ProcessInfo {
@@ -74,6 +90,18 @@ export interface ServerStatusNotification {
   message?: string;
   activeOperations: number;
   queuedOperations: number;
+  /** Health of each enabled tool; a tool that is not `up` makes the server `degraded` */
+  subsystems?: SubsystemHealth[];
+}
+
+export interface SubsystemHealth {
+  tool: 'tsgo' | 'oxc';
+  /** `down` after repeated failures, `probing` while it is being retried */
+  status: 'up' | 'down' | 'probing';
+  /** Last failure, while not `up` */
+  reason?: string;
+  /** When the next probe starts (epoch ms), while `down` */
+  retryAt?: number;
 }
 
 export interface AnalyzeFileRequest {
@@ -86,6 +114,23 @@ export interface AnalyzeFileResponse {
   traces: PerfSpan[];
 }
 
+export interface AnalyzeWorkspaceRequest {
+  /** Bypass the cache */
+  force: boolean;
+}
+
+export interface AnalyzeWorkspaceResponse {
+  /** Files matched by `watch.include` / `watch.exclude` */
+  total: number;
+  analyzed: number;
+  /** Files that could not be read or analyzed */
+  failed: number;
+  /** Files with at least one diagnostic */
+  filesWithDiagnostics: number;
+  cancelled: boolean;
+  durationMs: number;
+}
+
 export interface LogEntryNotification {
   timestamp: number;
   level: string;
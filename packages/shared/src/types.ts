@@ -15,12 +15,26 @@ export interface TurbodiagnosticItem {
   severity: DiagnosticSeverity;
   source: DiagnosticSource;
   code?: string;
+  /** How to fix the problem, when the tool suggests it */
+  help?: string;
+  /** Other locations the tool explains the problem with */
+  related?: TurbodiagnosticRelated[];
   /** How long this diagnostic took to compute in ms */
   computeTimeMs: number;
   /** Additional data for code actions */
   data?: Record<string, unknown>;
 }
 
+/** A location related to a diagnostic, with what the tool says about it */
+export interface TurbodiagnosticRelated {
+  uri: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  message: string;
+}
+
 /** File analysis result from a single tool */
 export interface FileAnalysisResult {
   uri: string;
@@ -31,6 +45,8 @@ export interface FileAnalysisResult {
   cached: boolean;
   /** Content hash used for cache invalidation */
   contentHash: string;
+  /** Set when a tool failed or was unavailable, so diagnostics may be missing */
+  partial?: boolean;
 }
 
 /** Cache entry with metadata */
@@ -79,6 +95,14 @@ export interface TsgoTurboConfig {
     maxMemoryMb: number;
     /** Additional tsgo flags */
     flags: string[];
+    /** Number of tsgo processes, or 'auto' to scale with load */
+    poolSize: number | 'auto';
+    /** Processes kept running by the auto-sized pool */
+    minProcesses: number;
+    /** Upper bound of the auto-sized pool */
+    maxProcesses: number;
+    /** Idle time in ms after which the auto-sized pool stops a process above the minimum (0 = never) */
+    idleTimeoutMs: number;
   };
   /** Enable oxc linting */
   oxc: {
@@ -91,6 +115,20 @@ export interface TsgoTurboConfig {
     fileTimeoutMs: number;
     /** Rules to enable/disable */
     rules?: Record<string, 'off' | 'warn' | 'error'>;
+    /** Max concurrent oxc processes */
+    maxConcurrency: number;
+  };
+  /** Document formatting */
+  format: {
+    enabled: boolean;
+    /** Formatter implementation */
+    provider: FormatterProvider;
+    /** Path to formatter binary */
+    binaryPath?: string;
+    /** Timeout per file in ms */
+    fileTimeoutMs: number;
+    /** Format the current line while typing */
+    formatOnType: boolean;
   };
   /** Logging configuration */
   logging: {
@@ -114,6 +152,10 @@ export interface TsgoTurboConfig {
     maxSizeMb: number;
     /** TTL in seconds */
     ttlSeconds: number;
+    /** Persist tsgo and oxc results in workspace storage across restarts */
+    persistent: boolean;
+    /** Max size of the persistent cache in MB */
+    diskMaxSizeMb: number;
   };
   /** File watching */
   watch: {
@@ -134,4 +176,12 @@ export interface TsgoTurboConfig {
   };
 }
 
+/** Options sent by the client with the `initialize` request */
+export interface TsgoTurboInitializationOptions extends TsgoTurboConfig {
+  /** Workspace storage directory of the client, holding the persistent cache */
+  storagePath?: string;
+}
+
+export type FormatterProvider = 'oxc';
+
 export type LogLevel = 'trace' | 'debug' | 'info' | 'warn' | 'error' | 'fatal';